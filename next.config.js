@@ -7,6 +7,10 @@ const nextConfig = {
     formats: ['image/avif', 'image/webp'],
   },
   experimental: {
+    // 启用 src/instrumentation.ts（启动后台任务 worker）
+    instrumentationHook: true,
+    // 图片解码库包含 WASM / Emscripten 产物，不参与服务端打包
+    serverComponentsExternalPackages: ['heic-decode', 'libheif-js', 'dcraw'],
     serverActions: {
       bodySizeLimit: '10mb',
     },
@@ -0,0 +1,351 @@
+/**
+ * Storage migration
+ * 将旧版 BLOB 列 (originalImage / thumbnailSmall / thumbnailMedium / thumbnailLarge)
+ * 中的图片数据迁移到 STORAGE_DRIVER 配置的存储，并回写存储 key
+ *
+ * 用法:
+ *   npm run storage:migrate                          # 迁移所有尚未迁移的图片
+ *   npm run storage:migrate -- --batch-size=50       # 每批读取的图片数量（默认 20）
+ *   npm run storage:migrate -- --verify              # 只校验已迁移但仍保留 BLOB 的图片
+ *   npm run storage:migrate -- --purge-legacy        # 校验通过后清空旧 BLOB 列
+ *   npm run storage:migrate -- --report=report.json  # 校验报告输出路径
+ *
+ * 每张图片使用由图片 id 决定的固定 key，中断后重新执行会覆盖写入同一组 key，
+ * 并从尚未回写 key 的图片继续，可以安全地重复执行
+ */
+
+import { promises as fs } from 'fs'
+import { prisma } from '@/lib/prisma'
+import { processImage } from '@/lib/image-utils'
+import { sha256Hex as sha256 } from '@/lib/http-cache'
+import { computePerceptualHash } from '@/lib/duplicates'
+import { computePlaceholder } from '@/lib/placeholder'
+import { getStorage, buildImageKeys } from '@/lib/storage'
+
+interface MigrationOptions {
+  batchSize: number
+  verifyOnly: boolean
+  purgeLegacy: boolean
+  reportPath: string
+}
+
+interface Mismatch {
+  imageId: string
+  key: string
+  expected: string
+  actual: string | null
+}
+
+interface Failure {
+  imageId: string
+  error: string
+}
+
+interface MigrationReport {
+  startedAt: string
+  finishedAt: string | null
+  driver: string
+  mode: 'migrate' | 'verify'
+  total: number
+  processed: number
+  succeeded: number
+  purged: number
+  mismatches: Mismatch[]
+  failures: Failure[]
+}
+
+type KeyField = keyof typeof legacyFields
+
+const legacyFields = {
+  originalKey: 'legacyOriginalImage',
+  thumbnailSmallKey: 'legacyThumbnailSmall',
+  thumbnailMediumKey: 'legacyThumbnailMedium',
+  thumbnailLargeKey: 'legacyThumbnailLarge',
+} as const
+
+const legacySelect = {
+  legacyOriginalImage: true,
+  legacyThumbnailSmall: true,
+  legacyThumbnailMedium: true,
+  legacyThumbnailLarge: true,
+} as const
+
+const legacyPurge = {
+  legacyOriginalImage: null,
+  legacyThumbnailSmall: null,
+  legacyThumbnailMedium: null,
+  legacyThumbnailLarge: null,
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const options: MigrationOptions = {
+    batchSize: 20,
+    verifyOnly: false,
+    purgeLegacy: false,
+    reportPath: `storage-migration-report-${Date.now()}.json`,
+  }
+
+  for (const arg of argv) {
+    const [name, value] = arg.split('=')
+    switch (name) {
+      case '--batch-size':
+        options.batchSize = Math.max(1, parseInt(value) || options.batchSize)
+        break
+      case '--verify':
+        options.verifyOnly = true
+        break
+      case '--purge-legacy':
+        options.purgeLegacy = true
+        break
+      case '--report':
+        if (value) options.reportPath = value
+        break
+      default:
+        throw new Error(`Unknown option: ${arg}`)
+    }
+  }
+
+  return options
+}
+
+/**
+ * 读回存储中的对象并与源数据的 SHA-256 比较，不一致的对象记入报告
+ */
+async function verifyObjects(
+  imageId: string,
+  objects: Array<{ key: string; data: Buffer }>,
+  report: MigrationReport
+): Promise<boolean> {
+  const storage = getStorage()
+  let ok = true
+
+  for (const { key, data } of objects) {
+    const expected = sha256(data)
+    let actual: string | null = null
+    try {
+      actual = sha256(await storage.get(key))
+    } catch {
+      actual = null
+    }
+
+    if (actual !== expected) {
+      report.mismatches.push({ imageId, key, expected, actual })
+      ok = false
+    }
+  }
+
+  return ok
+}
+
+/**
+ * 读取旧版缩略图，缺失的缩略图从原图重新生成
+ */
+async function loadThumbnails(
+  original: Buffer,
+  legacy: { legacyThumbnailSmall: Buffer | null; legacyThumbnailMedium: Buffer | null; legacyThumbnailLarge: Buffer | null }
+): Promise<[Buffer, Buffer, Buffer]> {
+  const { legacyThumbnailSmall: small, legacyThumbnailMedium: medium, legacyThumbnailLarge: large } = legacy
+
+  if (small && medium && large) {
+    return [Buffer.from(small), Buffer.from(medium), Buffer.from(large)]
+  }
+
+  const processed = await processImage(original)
+  return [
+    small ? Buffer.from(small) : processed.thumbnailSmall,
+    medium ? Buffer.from(medium) : processed.thumbnailMedium,
+    large ? Buffer.from(large) : processed.thumbnailLarge,
+  ]
+}
+
+/**
+ * 迁移单张图片：写入存储 -> 读回校验 -> 回写 key
+ */
+async function migrateImage(
+  image: { id: string; userId: string; mimeType: string },
+  options: MigrationOptions,
+  report: MigrationReport
+): Promise<void> {
+  const legacy = await prisma.image.findUnique({
+    where: { id: image.id },
+    select: legacySelect,
+  })
+
+  if (!legacy?.legacyOriginalImage) {
+    report.failures.push({ imageId: image.id, error: 'No legacy original image data' })
+    return
+  }
+
+  const original = Buffer.from(legacy.legacyOriginalImage)
+  const [small, medium, large] = await loadThumbnails(original, legacy)
+
+  // 固定 key：重复执行会覆盖同一组对象，不会产生孤儿文件
+  const keys = buildImageKeys(image.userId, image.mimeType, { base: `legacy_${image.id}` })
+  const objects = [
+    { key: keys.originalKey, data: original, type: image.mimeType },
+    { key: keys.thumbnailSmallKey, data: small, type: 'image/jpeg' },
+    { key: keys.thumbnailMediumKey, data: medium, type: 'image/jpeg' },
+    { key: keys.thumbnailLargeKey, data: large, type: 'image/jpeg' },
+  ]
+
+  const storage = getStorage()
+  for (const { key, data, type } of objects) {
+    await storage.put(key, data, type)
+  }
+
+  if (!(await verifyObjects(image.id, objects, report))) {
+    // 校验失败不回写 key，下次执行会重试
+    return
+  }
+
+  await prisma.image.update({
+    where: { id: image.id },
+    data: {
+      ...keys,
+      contentHash: sha256(original),
+      perceptualHash: await computePerceptualHash(large),
+      ...(await computePlaceholder(small)),
+      ...(options.purgeLegacy ? legacyPurge : {}),
+    },
+  })
+
+  report.succeeded++
+  if (options.purgeLegacy) report.purged++
+}
+
+/**
+ * 校验单张已迁移图片：存储中的对象与仍保留的 BLOB 比较
+ */
+async function verifyImage(
+  image: { id: string } & Record<KeyField, string>,
+  options: MigrationOptions,
+  report: MigrationReport
+): Promise<void> {
+  const legacy = await prisma.image.findUnique({
+    where: { id: image.id },
+    select: legacySelect,
+  })
+  if (!legacy) return
+
+  const objects = (Object.keys(legacyFields) as KeyField[])
+    .filter(field => legacy[legacyFields[field]])
+    .map(field => ({
+      key: image[field],
+      data: Buffer.from(legacy[legacyFields[field]]!),
+    }))
+
+  if (!(await verifyObjects(image.id, objects, report))) return
+
+  if (options.purgeLegacy) {
+    await prisma.image.update({
+      where: { id: image.id },
+      data: legacyPurge,
+    })
+    report.purged++
+  }
+
+  report.succeeded++
+}
+
+function logProgress(report: MigrationReport): void {
+  const percent = report.total > 0
+    ? ((report.processed / report.total) * 100).toFixed(1)
+    : '100.0'
+  console.log(
+    `[Storage Migrate] ${report.processed}/${report.total} (${percent}%) ` +
+    `ok=${report.succeeded} mismatched=${new Set(report.mismatches.map(m => m.imageId)).size} ` +
+    `failed=${report.failures.length}`
+  )
+}
+
+async function run(options: MigrationOptions): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    driver: getStorage().name,
+    mode: options.verifyOnly ? 'verify' : 'migrate',
+    total: 0,
+    processed: 0,
+    succeeded: 0,
+    purged: 0,
+    mismatches: [],
+    failures: [],
+  }
+
+  // 迁移：尚未回写 key 的图片；校验：已回写 key 但仍保留 BLOB 的图片
+  const where = options.verifyOnly
+    ? { originalKey: { not: '' }, legacyOriginalImage: { not: null } }
+    : { originalKey: '' }
+
+  report.total = await prisma.image.count({ where })
+  console.log(`[Storage Migrate] ${report.mode}: ${report.total} images, driver=${report.driver}`)
+
+  let lastId: string | undefined
+  while (true) {
+    // 按 id 游标分批读取，只取元信息，BLOB 在逐张处理时再读取
+    const batch = await prisma.image.findMany({
+      where: lastId ? { ...where, id: { gt: lastId } } : where,
+      select: {
+        id: true,
+        userId: true,
+        mimeType: true,
+        originalKey: true,
+        thumbnailSmallKey: true,
+        thumbnailMediumKey: true,
+        thumbnailLargeKey: true,
+      },
+      orderBy: { id: 'asc' },
+      take: options.batchSize,
+    })
+
+    if (batch.length === 0) break
+
+    for (const image of batch) {
+      try {
+        if (options.verifyOnly) {
+          await verifyImage(image, options, report)
+        } else {
+          await migrateImage(image, options, report)
+        }
+      } catch (error) {
+        console.error(`[Storage Migrate] Failed on image ${image.id}:`, error)
+        report.failures.push({
+          imageId: image.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+      report.processed++
+    }
+
+    lastId = batch[batch.length - 1].id
+    logProgress(report)
+  }
+
+  report.finishedAt = new Date().toISOString()
+  return report
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const report = await run(options)
+
+  await fs.writeFile(options.reportPath, JSON.stringify(report, null, 2))
+  console.log(`[Storage Migrate] Report written to ${options.reportPath}`)
+
+  if (report.mismatches.length > 0 || report.failures.length > 0) {
+    console.warn(
+      `[Storage Migrate] Finished with ${report.mismatches.length} checksum mismatches ` +
+      `and ${report.failures.length} failures, rerun to retry`
+    )
+    process.exitCode = 1
+  } else {
+    console.log('[Storage Migrate] Finished without errors')
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('[Storage Migrate] Migration aborted:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
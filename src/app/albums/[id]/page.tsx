@@ -20,6 +20,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog'
 import { useToast } from '@/components/ui/toast'
+import { PlaceholderImage } from '@/components/image/PlaceholderImage'
 
 interface ImageData {
   id: string
@@ -29,6 +30,8 @@ interface ImageData {
   fileSize: number
   width: number
   height: number
+  blurHash?: string | null
+  dominantColor?: string | null
   title: string | null
   description: string | null
   takenAt: string | null
@@ -356,9 +359,11 @@ export default function AlbumDetailPage() {
                 >
                   <CardContent className="p-0">
                     <div className="relative aspect-square overflow-hidden rounded-t-lg bg-gray-100">
-                      <img
+                      <PlaceholderImage
                         src={`/api/images/${image.id}/file?size=medium`}
                         alt={image.title || image.originalName}
+                        blurHash={image.blurHash}
+                        dominantColor={image.dominantColor}
                         className="w-full h-full object-cover group-hover:scale-105 transition-transform"
                       />
                       {/* 从相册移除按钮 */}
@@ -518,10 +523,12 @@ export default function AlbumDetailPage() {
                         )
                       }}
                     >
-                      <div className="aspect-square bg-gray-100">
-                        <img
+                      <div className="relative aspect-square bg-gray-100">
+                        <PlaceholderImage
                           src={`/api/images/${image.id}/file?size=medium`}
                           alt={image.title || image.originalName}
+                          blurHash={image.blurHash}
+                          dominantColor={image.dominantColor}
                           className="w-full h-full object-cover"
                         />
                       </div>
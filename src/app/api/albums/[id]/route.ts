@@ -34,6 +34,9 @@ export async function GET(
                 fileSize: true,
                 width: true,
                 height: true,
+                blurHash: true,
+                dominantColor: true,
+                isAnimated: true,
                 title: true,
                 description: true,
                 takenAt: true,
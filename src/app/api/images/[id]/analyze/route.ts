@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { retryFailedTask, queueImageAnalysis, processImageAnalysis } from '@/lib/ai/analysis-queue'
+import { retryFailedTask, queueImageAnalysis, MAX_RETRIES } from '@/lib/ai/analysis-queue'
+import { enqueueJob } from '@/lib/jobs'
 
 /**
  * POST /api/images/[id]/analyze
@@ -57,9 +58,8 @@ export async function POST(
       })
     }
 
-    // 立即开始处理
-    processImageAnalysis(imageId, session.user.id)
-      .catch(err => console.error('Failed to process AI analysis:', err))
+    // 交给后台任务处理
+    await enqueueJob('AI_ANALYSIS', { imageId }, { userId: session.user.id, maxAttempts: MAX_RETRIES })
 
     return NextResponse.json({
       message: '已触发AI分析',
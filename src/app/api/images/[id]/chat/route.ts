@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getDisplayableForExport } from '@/lib/metadata-privacy'
 import { generateImageReply, ImageContext } from '@/lib/ai/doubao'
 
 interface ChatRequest {
@@ -55,7 +56,8 @@ export async function POST(
         shutterSpeed: true,
         iso: true,
         aiLabels: true,
-        originalImage: true,  // 新增: 获取图片二进制数据
+        originalKey: true,    // 新增: 图片存储 key，用于读取二进制数据
+        previewKey: true,     // HEIC / DNG 等格式使用 JPEG 预览
         mimeType: true,       // 新增: 获取MIME类型
         tags: {
           include: {
@@ -90,8 +92,8 @@ export async function POST(
       // 从 AI 分析结果中提取标签
       labels: parseAiLabels(image.aiLabels),
       // 新增: 传递图片数据用于Vision问答
-      imageBuffer: image.originalImage || undefined,
-      mimeType: image.mimeType || undefined,
+      imageBuffer: await getDisplayableForExport(image, session.user.id).catch(() => undefined),
+      mimeType: image.previewKey ? 'image/jpeg' : image.mimeType || undefined,
     }
 
     // 调用 DeepSeek 生成回答
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  editStackSchema,
+  readEditStack,
+  renderEditPreview,
+  EditStackError,
+  MAX_EDIT_OPERATIONS,
+  DEFAULT_PREVIEW_SIZE,
+} from '@/lib/image-edits'
+
+const previewSchema = z.object({
+  // pending operations, rendered on top of the saved stack; may be empty
+  operations: editStackSchema,
+  maxSize: z.number().int().min(256).max(2048).default(DEFAULT_PREVIEW_SIZE),
+})
+
+// POST renders a low-res preview of the saved stack plus pending operations without saving anything
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const { operations, maxSize } = previewSchema.parse(await req.json())
+
+    const img = await prisma.image.findUnique({
+      where: { id: params.id },
+      select: { userId: true, editHistory: true },
+    })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
+
+    const stack = [...readEditStack(img.editHistory), ...operations]
+    if (stack.length > MAX_EDIT_OPERATIONS) {
+      return NextResponse.json({ error: `编辑步骤不能超过 ${MAX_EDIT_OPERATIONS} 步，请先回退` }, { status: 400 })
+    }
+
+    const preview = await renderEditPreview(params.id, userId, stack, maxSize)
+
+    return new NextResponse(new Uint8Array(preview.buffer), {
+      headers: {
+        'Content-Type': preview.mimeType,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: '编辑操作无效', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof EditStackError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Preview edit error:', error)
+    return NextResponse.json({ error: '生成预览失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { readEditStack, saveEditStack, EditStackError } from '@/lib/image-edits'
+
+const revertSchema = z.object({
+  // number of operations to keep; 0 restores the original
+  step: z.number().int().min(0),
+})
+
+// POST drops the operations after `step` and re-renders the image from the preserved original
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const { step } = revertSchema.parse(await req.json())
+
+    const img = await prisma.image.findUnique({
+      where: { id: params.id },
+      select: { userId: true, editHistory: true },
+    })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
+
+    const stack = readEditStack(img.editHistory)
+    if (step > stack.length) {
+      return NextResponse.json({ error: `只能回退到第 0 到 ${stack.length} 步` }, { status: 400 })
+    }
+
+    const operations = stack.slice(0, step)
+    const updated = await saveEditStack(params.id, userId, operations)
+
+    return NextResponse.json({ image: updated, operations })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: '输入数据无效', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof EditStackError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Revert edit error:', error)
+    return NextResponse.json({ error: '回退编辑失败' }, { status: 500 })
+  }
+}
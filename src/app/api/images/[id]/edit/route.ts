@@ -1,69 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
+import { z } from 'zod'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { processImage } from '@/lib/image-utils'
+import {
+  editStackSchema,
+  readEditStack,
+  saveEditStack,
+  saveEditStackAsCopy,
+  EditStackError,
+  MAX_EDIT_OPERATIONS,
+} from '@/lib/image-edits'
 
-export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+const editSchema = z.object({
+  operations: editStackSchema.min(1),
+  // overwrite replaces this image; copy renders into a new image linked to this one
+  saveAs: z.enum(['overwrite', 'copy']).default('overwrite'),
+})
+
+// GET returns the saved edit stack so the editor can show and revert steps
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
   try {
     const session = await getServerSession(authOptions)
     const userId = session?.user?.id
     if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
 
-    const form = await req.formData()
-    const file = form.get('image') as File
-    const saveAs = (form.get('saveAs') as string) || 'overwrite'
+    const img = await prisma.image.findUnique({
+      where: { id: params.id },
+      select: { userId: true, isEdited: true, editHistory: true },
+    })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
 
-    if (!file) return NextResponse.json({ error: '缺少图片数据' }, { status: 400 })
+    return NextResponse.json({ isEdited: img.isEdited, operations: readEditStack(img.editHistory) })
+  } catch (error) {
+    console.error('Get edit stack error:', error)
+    return NextResponse.json({ error: '获取编辑记录失败' }, { status: 500 })
+  }
+}
 
-    const arrayBuffer = await file.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
+// POST appends operations to the edit stack; sharp re-renders the whole stack from the preserved original
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const { operations, saveAs } = editSchema.parse(await req.json())
 
     // check image ownership
-    const img = await prisma.image.findUnique({ where: { id: params.id } })
+    const img = await prisma.image.findUnique({
+      where: { id: params.id },
+      select: { userId: true, editHistory: true },
+    })
     if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
     if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
 
-    // process edited image
-    const processed = await processImage(buffer)
-
-    if (saveAs === 'overwrite') {
-      const updated = await prisma.image.update({
-        where: { id: params.id },
-        data: {
-          originalImage: processed.originalImage,
-          thumbnailSmall: processed.thumbnailSmall,
-          thumbnailMedium: processed.thumbnailMedium,
-          thumbnailLarge: processed.thumbnailLarge,
-          mimeType: processed.metadata.mimeType,
-          fileSize: processed.metadata.fileSize,
-          width: processed.metadata.width,
-          height: processed.metadata.height,
-          aspectRatio: processed.metadata.aspectRatio,
-        },
-      })
+    const stack = [...readEditStack(img.editHistory), ...operations]
+    if (stack.length > MAX_EDIT_OPERATIONS) {
+      return NextResponse.json({ error: `编辑步骤不能超过 ${MAX_EDIT_OPERATIONS} 步，请先回退` }, { status: 400 })
+    }
 
-      return NextResponse.json({ image: updated })
+    if (saveAs === 'copy') {
+      // the copy starts from this image's stack, so it can still be reverted to the untouched original
+      const copy = await saveEditStackAsCopy(params.id, userId, stack)
+      return NextResponse.json({ image: copy, operations: stack }, { status: 201 })
     }
 
-    // saveAs new not implemented; fallback to overwrite
-    const updated = await prisma.image.update({
-      where: { id: params.id },
-      data: {
-        originalImage: processed.originalImage,
-        thumbnailSmall: processed.thumbnailSmall,
-        thumbnailMedium: processed.thumbnailMedium,
-        thumbnailLarge: processed.thumbnailLarge,
-        mimeType: processed.metadata.mimeType,
-        fileSize: processed.metadata.fileSize,
-        width: processed.metadata.width,
-        height: processed.metadata.height,
-        aspectRatio: processed.metadata.aspectRatio,
-      },
-    })
+    const updated = await saveEditStack(params.id, userId, stack)
 
-    return NextResponse.json({ image: updated })
+    return NextResponse.json({ image: updated, operations: stack })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: '编辑操作无效', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof EditStackError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
     console.error('Edit image error:', error)
     return NextResponse.json({ error: '编辑图片失败' }, { status: 500 })
   }
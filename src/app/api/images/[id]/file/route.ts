@@ -2,6 +2,29 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import {
+  getStorage,
+  getImageKeyForSize,
+  getDisplayableKey,
+  imageStorageKeySelect,
+  StorageNotFoundError,
+} from '@/lib/storage'
+import { buildETag, isNotModified, isRangeValid, parseRange, sha256Hex } from '@/lib/http-cache'
+import {
+  hasDerivativeParams,
+  parseDerivativeOptions,
+  describeDerivative,
+  getDerivative,
+  thumbnailDerivativeOptions,
+  DerivativeOptions,
+} from '@/lib/image-derivatives'
+import { canEmbedMetadata, embedImageMetadata, loadEmbeddedMetadata } from '@/lib/embed-metadata'
+import {
+  applyPrivacyPolicy,
+  parsePrivacyParam,
+  resolvePrivacyPolicy,
+  MetadataPrivacyError,
+} from '@/lib/metadata-privacy'
 
 export async function GET(
   req: NextRequest,
@@ -17,7 +40,29 @@ export async function GET(
     }
 
     const searchParams = req.nextUrl.searchParams
-    const size = searchParams.get('size') || 'medium' // small, medium, large, original
+    const size = searchParams.get('size') || 'medium' // small, medium, large, animated, preview, original
+
+    // w / h / fit / format / quality 参数：按需从原图生成衍生图片
+    let derivative: DerivativeOptions | undefined
+    if (hasDerivativeParams(searchParams)) {
+      const parsed = parseDerivativeOptions(searchParams, req.headers.get('accept'))
+      if (parsed.error || !parsed.options) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        )
+      }
+      derivative = parsed.options
+    }
+
+    // privacy 参数：none / gps / coarse / all，未指定时使用用户设置
+    const privacy = parsePrivacyParam(searchParams.get('privacy'))
+    if (privacy.error) {
+      return NextResponse.json(
+        { error: privacy.error },
+        { status: 400 }
+      )
+    }
 
     const image = await prisma.image.findUnique({
       where: {
@@ -27,10 +72,9 @@ export async function GET(
       select: {
         id: true,
         mimeType: true,
-        thumbnailSmall: size === 'small',
-        thumbnailMedium: size === 'medium',
-        thumbnailLarge: size === 'large',
-        originalImage: size === 'original',
+        contentHash: true,
+        updatedAt: true,
+        ...imageStorageKeySelect,
       },
     })
 
@@ -41,30 +85,124 @@ export async function GET(
       )
     }
 
-    let imageBuffer: Buffer | null = null
-
-    switch (size) {
-      case 'small':
-        imageBuffer = image.thumbnailSmall as Buffer
-        break
-      case 'medium':
-        imageBuffer = image.thumbnailMedium as Buffer
-        break
-      case 'large':
-        imageBuffer = image.thumbnailLarge as Buffer
-        break
-      case 'original':
-        imageBuffer = image.originalImage as Buffer
-        break
-      default:
-        imageBuffer = image.thumbnailMedium as Buffer
+    // 缩略图尚未由后台任务生成时，临时按缩略图规格从全尺寸图片生成
+    if (!derivative && !getImageKeyForSize(image, size) && image.originalKey) {
+      derivative = thumbnailDerivativeOptions(size)
     }
 
-    if (!imageBuffer) {
-      return NextResponse.json(
-        { error: '图片数据不存在' },
-        { status: 404 }
-      )
+    // 衍生图片从浏览器可显示的全尺寸图片生成（HEIC / DNG 等使用 JPEG 预览）
+    const key = derivative ? getDisplayableKey(image) : getImageKeyForSize(image, size)
+    // 下载原图时按 embed 参数或用户设置写入标题、描述、星级和标签
+    const isOriginal = !derivative && key === image.originalKey
+    const embedded = isOriginal && canEmbedMetadata(image.mimeType)
+      ? await loadEmbeddedMetadata(image.id, session.user.id, searchParams.get('embed'))
+      : null
+    // 原图按隐私策略移除或模糊位置等元数据；衍生图片、缩略图和预览本身不带 EXIF
+    const policy = isOriginal
+      ? await resolvePrivacyPolicy(session.user.id, privacy.policy)
+      : 'NONE'
+
+    let variant = derivative
+      ? `${key}:${describeDerivative(derivative)}`
+      : embedded ? `${key}:embed:${sha256Hex(JSON.stringify(embedded))}` : key
+    if (policy !== 'NONE') {
+      variant = `${variant}:privacy:${policy}`
+    }
+    const lastModified = image.updatedAt
+
+    // 编辑会更换存储 key 和内容哈希，因此 ETag 随内容变化；
+    // 文件需要登录才能访问，只允许浏览器私有缓存，并且每次使用前重新验证
+    const cacheHeaders: Record<string, string> = {
+      'Cache-Control': 'private, no-cache',
+      'Last-Modified': lastModified.toUTCString(),
+      'Accept-Ranges': 'bytes',
+    }
+    if (derivative?.negotiated) {
+      // 格式由 Accept 头协商，缓存需要区分
+      cacheHeaders['Vary'] = 'Accept'
+    }
+
+    // 有内容哈希时无需读取文件即可响应条件请求
+    let etag = image.contentHash ? buildETag(image.contentHash, variant) : null
+    if (etag && isNotModified(req.headers, etag, lastModified)) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: { ...cacheHeaders, ETag: etag },
+      })
+    }
+
+    let imageBuffer: Buffer
+
+    try {
+      imageBuffer = derivative
+        ? await getDerivative(key, () => getStorage().get(key), derivative)
+        : await getStorage().get(key)
+
+      imageBuffer = applyPrivacyPolicy(imageBuffer, image.mimeType, policy)
+      if (embedded) {
+        imageBuffer = embedImageMetadata(imageBuffer, image.mimeType, embedded) || imageBuffer
+      }
+    } catch (error) {
+      if (error instanceof StorageNotFoundError) {
+        return NextResponse.json(
+          { error: '图片数据不存在' },
+          { status: 404 }
+        )
+      }
+      if (error instanceof MetadataPrivacyError) {
+        // 无法确认已移除元数据时不输出文件
+        return NextResponse.json(
+          { error: '无法处理该图片的元数据，请使用 privacy=none 下载' },
+          { status: 422 }
+        )
+      }
+      throw error
+    }
+
+    // 旧数据没有记录内容哈希时，根据文件内容计算
+    if (!etag) {
+      etag = buildETag(sha256Hex(imageBuffer))
+      if (isNotModified(req.headers, etag, lastModified)) {
+        return new NextResponse(null, {
+          status: 304,
+          headers: { ...cacheHeaders, ETag: etag },
+        })
+      }
+    }
+
+    const headers: Record<string, string> = {
+      ...cacheHeaders,
+      ETag: etag,
+      // 缩略图和预览统一为 JPEG，动图预览为 WebP，只有原图保留上传时的格式
+      'Content-Type': derivative
+        ? `image/${derivative.format}`
+        : key === image.originalKey
+          ? image.mimeType
+          : key === image.animatedKey ? 'image/webp' : 'image/jpeg',
+    }
+
+    const totalSize = imageBuffer.length
+    const range = isRangeValid(req.headers, etag, lastModified)
+      ? parseRange(req.headers.get('range'), totalSize)
+      : null
+
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${totalSize}` },
+      })
+    }
+
+    if (range) {
+      const chunk = imageBuffer.subarray(range.start, range.end + 1)
+      return new NextResponse(new Uint8Array(chunk), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${totalSize}`,
+          'Content-Length': String(chunk.length),
+        },
+      })
     }
 
     // 将 Buffer 转换为 Uint8Array 以兼容 NextResponse
@@ -72,9 +210,8 @@ export async function GET(
 
     return new NextResponse(uint8Array, {
       headers: {
-        'Content-Type': image.mimeType,
-        'Cache-Control': 'public, max-age=31536000, immutable',
-        'Access-Control-Allow-Origin': '*',
+        ...headers,
+        'Content-Length': String(totalSize),
       },
     })
   } catch (error) {
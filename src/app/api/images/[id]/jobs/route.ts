@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getImageJobs } from '@/lib/jobs'
+
+/**
+ * GET /api/images/[id]/jobs
+ * 获取图片后台处理任务（缩略图、自动标签、地理编码、AI 分析）的状态
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    // 验证图片存在且属于当前用户
+    const image = await prisma.image.findUnique({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      select: { id: true },
+    })
+
+    if (!image) {
+      return NextResponse.json(
+        { error: '图片不存在' },
+        { status: 404 }
+      )
+    }
+
+    const jobs = await getImageJobs(image.id)
+
+    return NextResponse.json({
+      jobs: jobs.map(job => ({
+        kind: job.kind,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: job.error,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt,
+      })),
+      // 所有任务都已结束（完成或最终失败）
+      done: jobs.every(job => job.status === 'COMPLETED' || job.status === 'FAILED'),
+    })
+  } catch (error) {
+    console.error('Get image jobs error:', error)
+    return NextResponse.json(
+      { error: '获取任务状态失败' },
+      { status: 500 }
+    )
+  }
+}
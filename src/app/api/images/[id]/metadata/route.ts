@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getStorage, StorageNotFoundError } from '@/lib/storage'
+import { extractMetadataFields } from '@/lib/metadata'
+
+const metadataSelect = {
+  id: true,
+  originalKey: true,
+  metadata: true,
+  flash: true,
+  whiteBalance: true,
+  exposureProgram: true,
+  meteringMode: true,
+  exposureBias: true,
+  lensSerialNumber: true,
+  bodySerialNumber: true,
+  artist: true,
+  copyright: true,
+  caption: true,
+  keywords: true,
+  rating: true,
+} as const
+
+/**
+ * GET /api/images/[id]/metadata
+ * 获取图片完整的 EXIF / IPTC / XMP 元数据（按分组）和整理后的常用字段
+ * 旧图片尚未读取过元数据时，从原图解析并保存
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    let image = await prisma.image.findUnique({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      select: metadataSelect,
+    })
+
+    if (!image) {
+      return NextResponse.json(
+        { error: '图片不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (image.metadata === null && image.originalKey) {
+      try {
+        const original = await getStorage().get(image.originalKey)
+        image = await prisma.image.update({
+          where: { id: image.id },
+          data: await extractMetadataFields(original),
+          select: metadataSelect,
+        })
+      } catch (error) {
+        // 原图缺失时返回空元数据
+        if (!(error instanceof StorageNotFoundError)) throw error
+      }
+    }
+
+    return NextResponse.json({
+      metadata: image.metadata || {},
+      fields: {
+        flash: image.flash,
+        whiteBalance: image.whiteBalance,
+        exposureProgram: image.exposureProgram,
+        meteringMode: image.meteringMode,
+        exposureBias: image.exposureBias,
+        lensSerialNumber: image.lensSerialNumber,
+        bodySerialNumber: image.bodySerialNumber,
+        artist: image.artist,
+        copyright: image.copyright,
+        caption: image.caption,
+        keywords: image.keywords,
+        rating: image.rating,
+      },
+    })
+  } catch (error) {
+    console.error('Get image metadata error:', error)
+    return NextResponse.json(
+      { error: '获取图片元数据失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { imageStorageKeySelect } from '@/lib/storage'
+import { deleteImageAndVersionFiles, imageVersionKeySelect } from '@/lib/image-versions'
 
 export async function DELETE(
   req: NextRequest,
@@ -22,6 +24,12 @@ export async function DELETE(
         id: params.id,
         userId: session.user.id,
       },
+      select: {
+        id: true,
+        deletedAt: true,
+        ...imageStorageKeySelect,
+        versions: { select: imageVersionKeySelect },
+      },
     })
 
     if (!image) {
@@ -44,6 +52,9 @@ export async function DELETE(
       where: { id: params.id },
     })
 
+    // 数据库记录删除后再清理存储中的文件
+    await deleteImageAndVersionFiles(image)
+
     return NextResponse.json({ message: '永久删除成功' })
   } catch (error) {
     console.error('Permanent delete image error:', error)
@@ -31,9 +31,16 @@ export async function GET(
         height: true,
         aspectRatio: true,
         orientation: true,
+        isAnimated: true,
+        pageCount: true,
+        duration: true,
+        iccProfileName: true,
+        colorSpace: true,
         title: true,
         description: true,
+        rating: true,
         takenAt: true,
+        takenAtOffset: true,
         cameraModel: true,
         cameraMake: true,
         lensModel: true,
@@ -52,6 +59,8 @@ export async function GET(
         aiAnalyzed: true,
         aiLabels: true,
         aiConfidence: true,
+        isEdited: true,
+        editedFromId: true,
         tags: {
           include: {
             tag: true,
@@ -140,7 +149,15 @@ export async function PATCH(
     }
 
     const body = await req.json()
-    const { title, description } = body
+    const { title, description, rating } = body
+
+    // XMP 星级：0-5，-1 表示拒绝，null 清除
+    if (rating !== undefined && rating !== null && !(Number.isInteger(rating) && rating >= -1 && rating <= 5)) {
+      return NextResponse.json(
+        { error: '星级必须是 -1 到 5 之间的整数' },
+        { status: 400 }
+      )
+    }
 
     const image = await prisma.image.findUnique({
       where: {
@@ -161,6 +178,7 @@ export async function PATCH(
       data: {
         title,
         description,
+        rating,
       },
     })
 
@@ -0,0 +1,84 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import sharp from 'sharp'
+import { NextRequest } from 'next/server'
+
+const { findFirst, findUser, files } = vi.hoisted(() => ({
+  findFirst: vi.fn(),
+  findUser: vi.fn(),
+  files: new Map<string, Buffer>(),
+}))
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(async () => ({ user: { id: 'user-1' } })),
+}))
+vi.mock('@/lib/auth', () => ({ authOptions: {} }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { imageVersion: { findFirst }, user: { findUnique: findUser } },
+}))
+vi.mock('@/lib/storage', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  getStorage: () => ({ get: async (key: string) => files.get(key)! }),
+}))
+
+import { GET } from './route'
+
+const version = {
+  id: 'version-1',
+  mimeType: 'image/jpeg',
+  createdAt: new Date('2026-01-02T03:04:05Z'),
+  originalKey: 'versions/original.jpg',
+  previewKey: null,
+  thumbnailSmallKey: 'versions/small.jpg',
+  thumbnailMediumKey: 'versions/medium.jpg',
+  thumbnailLargeKey: 'versions/large.jpg',
+  animatedKey: null,
+}
+
+function get(query: string, headers: Record<string, string> = {}) {
+  const req = new NextRequest(`http://localhost/api/images/image-1/versions/version-1/file?${query}`, { headers })
+  return GET(req, { params: { id: 'image-1', versionId: 'version-1' } })
+}
+
+// STRIP_ALL 只保留方向，相机型号等标签都会被移除
+async function hasCameraMake(res: Response): Promise<boolean> {
+  return Buffer.from(await res.arrayBuffer()).includes('TestCam')
+}
+
+describe('GET /api/images/[id]/versions/[versionId]/file', () => {
+  beforeAll(async () => {
+    files.set(version.originalKey, await sharp({ create: { width: 8, height: 6, channels: 3, background: '#c33' } })
+      .withExif({ IFD0: { Make: 'TestCam' }, IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '31/1 14/1 2/1' } })
+      .jpeg()
+      .toBuffer())
+  })
+
+  beforeEach(() => {
+    findFirst.mockReset()
+    findFirst.mockResolvedValue(version)
+    findUser.mockReset()
+    findUser.mockResolvedValue({ downloadPrivacy: 'STRIP_ALL' })
+  })
+
+  it('没有预览文件时 size=preview 按用户隐私设置移除版本文件的元数据', async () => {
+    const res = await get('size=preview')
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('image/jpeg')
+    expect(await hasCameraMake(res)).toBe(false)
+  })
+
+  it('privacy 参数优先于用户设置', async () => {
+    const res = await get('size=preview&privacy=none')
+    expect(await hasCameraMake(res)).toBe(true)
+    expect((await get('size=preview&privacy=bad')).status).toBe(400)
+  })
+
+  it('只允许私有缓存并在使用前重新验证，ETag 命中时返回 304', async () => {
+    const res = await get('size=preview')
+    expect(res.headers.get('cache-control')).toBe('private, no-cache')
+    const etag = res.headers.get('etag')!
+
+    expect((await get('size=preview', { 'If-None-Match': etag })).status).toBe(304)
+    // 隐私策略不同的响应内容不同，不能共用 ETag
+    expect((await get('size=preview&privacy=none')).headers.get('etag')).not.toBe(etag)
+  })
+})
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getStorage, getImageKeyForSize, StorageNotFoundError } from '@/lib/storage'
+import { buildETag, isNotModified } from '@/lib/http-cache'
+import { imageVersionKeySelect } from '@/lib/image-versions'
+import {
+  applyPrivacyPolicy,
+  parsePrivacyParam,
+  resolvePrivacyPolicy,
+  MetadataPrivacyError,
+} from '@/lib/metadata-privacy'
+
+// GET serves a version's thumbnail or full-size preview for the compare view
+export async function GET(req: NextRequest, { params }: { params: { id: string; versionId: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    // small, medium, large, preview; originals are downloaded through the image file route
+    const size = req.nextUrl.searchParams.get('size') || 'medium'
+    if (!['small', 'medium', 'large', 'preview'].includes(size)) {
+      return NextResponse.json({ error: '不支持的尺寸' }, { status: 400 })
+    }
+
+    // privacy: none / gps / coarse / all, defaulting to the user's setting like the image file route
+    const privacy = parsePrivacyParam(req.nextUrl.searchParams.get('privacy'))
+    if (privacy.error) return NextResponse.json({ error: privacy.error }, { status: 400 })
+
+    const version = await prisma.imageVersion.findFirst({
+      where: { id: params.versionId, imageId: params.id, image: { userId } },
+      select: { id: true, mimeType: true, createdAt: true, ...imageVersionKeySelect },
+    })
+    if (!version) return NextResponse.json({ error: '版本不存在' }, { status: 404 })
+
+    const key = getImageKeyForSize(version, size)
+    if (!key) return NextResponse.json({ error: '版本文件不存在' }, { status: 404 })
+
+    // JPEG / PNG / WebP versions have no separate preview, so size=preview serves the
+    // version's own file with its EXIF; strip it the same way as an original download
+    const isOriginal = key === version.originalKey
+    const policy = isOriginal ? await resolvePrivacyPolicy(userId, privacy.policy) : 'NONE'
+
+    // a version's files never change after it is committed, so its id identifies the content
+    const etag = buildETag(version.id, policy === 'NONE' ? key : `${key}:privacy:${policy}`)
+    const cacheHeaders: Record<string, string> = {
+      'Cache-Control': 'private, no-cache',
+      'Last-Modified': version.createdAt.toUTCString(),
+      ETag: etag,
+    }
+    if (isNotModified(req.headers, etag, version.createdAt)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders })
+    }
+
+    const buffer = applyPrivacyPolicy(await getStorage().get(key), version.mimeType, policy)
+    // thumbnails and previews are JPEG; only the version's own file keeps its format
+    const contentType = isOriginal ? version.mimeType : 'image/jpeg'
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': contentType,
+        'Content-Length': String(buffer.length),
+      },
+    })
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      return NextResponse.json({ error: '版本文件不存在' }, { status: 404 })
+    }
+    if (error instanceof MetadataPrivacyError) {
+      // never fall back to the unstripped file
+      return NextResponse.json({ error: '无法处理该版本的元数据，请使用 privacy=none 查看' }, { status: 422 })
+    }
+    console.error('Get version file error:', error)
+    return NextResponse.json({ error: '获取版本文件失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { readEditStack, restoreImageVersion, EditStackError } from '@/lib/image-edits'
+
+// POST switches the image back to a committed version without re-rendering
+export async function POST(req: NextRequest, { params }: { params: { id: string; versionId: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const img = await prisma.image.findUnique({ where: { id: params.id }, select: { userId: true } })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
+
+    const updated = await restoreImageVersion(params.id, userId, params.versionId)
+
+    return NextResponse.json({ image: updated, operations: readEditStack(updated.editHistory) })
+  } catch (error) {
+    if (error instanceof EditStackError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Restore version error:', error)
+    return NextResponse.json({ error: '恢复版本失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { deleteImageVersions, ImageVersionError } from '@/lib/image-versions'
+
+// DELETE removes a single version and its files; the current version cannot be deleted
+export async function DELETE(req: NextRequest, { params }: { params: { id: string; versionId: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const img = await prisma.image.findUnique({ where: { id: params.id }, select: { userId: true } })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
+
+    const deleted = await deleteImageVersions(params.id, userId, [params.versionId])
+    if (deleted === 0) return NextResponse.json({ error: '版本不存在' }, { status: 404 })
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    if (error instanceof ImageVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Delete version error:', error)
+    return NextResponse.json({ error: '删除版本失败' }, { status: 500 })
+  }
+}
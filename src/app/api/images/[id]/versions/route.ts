@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { deleteImageVersions, listImageVersions, ImageVersionError } from '@/lib/image-versions'
+
+const pruneSchema = z.object({
+  // number of most recent versions to keep; the current version is always kept
+  keep: z.number().int().min(1),
+})
+
+// GET lists the committed versions of an image, newest first
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const img = await prisma.image.findUnique({ where: { id: params.id }, select: { userId: true } })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权访问该图片' }, { status: 403 })
+
+    const versions = await listImageVersions(params.id, userId)
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('List versions error:', error)
+    return NextResponse.json({ error: '获取版本列表失败' }, { status: 500 })
+  }
+}
+
+// DELETE prunes old versions and their files
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    if (!userId) return NextResponse.json({ error: '请先登录' }, { status: 401 })
+
+    const { keep } = pruneSchema.parse(await req.json())
+
+    const img = await prisma.image.findUnique({ where: { id: params.id }, select: { userId: true } })
+    if (!img) return NextResponse.json({ error: '图片不存在' }, { status: 404 })
+    if (img.userId !== userId) return NextResponse.json({ error: '无权编辑该图片' }, { status: 403 })
+
+    const versions = await listImageVersions(params.id, userId)
+    const outdated = versions.slice(keep).filter(version => !version.isCurrent)
+    const deleted = await deleteImageVersions(params.id, userId, outdated.map(version => version.id))
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: '输入数据无效', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof ImageVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Prune versions error:', error)
+    return NextResponse.json({ error: '删除旧版本失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { MAX_SIDECAR_SIZE } from '@/lib/image-formats'
+import { applyXmpSidecar, buildXmpSidecar, parseXmpSidecar } from '@/lib/xmp-sidecar'
+import { parsePrivacyParam, resolvePrivacyPolicy } from '@/lib/metadata-privacy'
+
+/**
+ * GET /api/images/[id]/xmp
+ * 导出 XMP 附属文件，文件名与原图同名（IMG_0001.jpg -> IMG_0001.xmp），可直接放到原图旁边供 Lightroom / darktable 读取
+ * 默认只导出手动添加的 CUSTOM 标签，?tags=all 导出全部标签
+ * 附属文件不含位置信息；隐私策略为 all（privacy 参数或用户设置）时同时省略拍摄时间
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const allTags = req.nextUrl.searchParams.get('tags') === 'all'
+    const privacy = parsePrivacyParam(req.nextUrl.searchParams.get('privacy'))
+    if (privacy.error) {
+      return NextResponse.json(
+        { error: privacy.error },
+        { status: 400 }
+      )
+    }
+
+    const image = await prisma.image.findUnique({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      select: {
+        originalName: true,
+        title: true,
+        description: true,
+        rating: true,
+        takenAt: true,
+        tags: {
+          where: allTags ? undefined : { tag: { type: 'CUSTOM' } },
+          select: {
+            tag: { select: { name: true } },
+          },
+        },
+      },
+    })
+
+    if (!image) {
+      return NextResponse.json(
+        { error: '图片不存在' },
+        { status: 404 }
+      )
+    }
+
+    const policy = await resolvePrivacyPolicy(session.user.id, privacy.policy)
+
+    const xmp = buildXmpSidecar({
+      title: image.title,
+      description: image.description,
+      rating: image.rating,
+      takenAt: policy === 'STRIP_ALL' ? null : image.takenAt,
+      keywords: image.tags.map(({ tag }) => tag.name),
+    })
+
+    const filename = `${image.originalName.replace(/\.[^.]+$/, '')}.xmp`
+    // 不支持 filename* 的客户端使用替换掉非 ASCII 字符的文件名
+    const asciiFilename = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+
+    return new NextResponse(xmp, {
+      headers: {
+        'Content-Type': 'application/rdf+xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${asciiFilename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Export XMP sidecar error:', error)
+    return NextResponse.json(
+      { error: '导出 XMP 附属文件失败' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/images/[id]/xmp
+ * 导入 XMP 附属文件（表单字段 sidecar）：覆盖标题、描述和星级，关键词追加为 CUSTOM 标签
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const image = await prisma.image.findUnique({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      select: { id: true },
+    })
+
+    if (!image) {
+      return NextResponse.json(
+        { error: '图片不存在' },
+        { status: 404 }
+      )
+    }
+
+    const formData = await req.formData()
+    const file = formData.get('sidecar')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: '请选择 XMP 附属文件' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_SIDECAR_SIZE) {
+      return NextResponse.json(
+        { error: 'XMP 附属文件不能超过 1MB' },
+        { status: 400 }
+      )
+    }
+
+    const sidecar = await parseXmpSidecar(Buffer.from(await file.arrayBuffer()))
+    if (!sidecar) {
+      return NextResponse.json(
+        { error: '无效的 XMP 附属文件' },
+        { status: 400 }
+      )
+    }
+
+    await applyXmpSidecar(image.id, sidecar)
+
+    const updatedImage = await prisma.image.findUnique({
+      where: { id: image.id },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        rating: true,
+        tags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      message: '已导入 XMP 附属文件',
+      image: updatedImage,
+    })
+  } catch (error) {
+    console.error('Import XMP sidecar error:', error)
+    return NextResponse.json(
+      { error: '导入 XMP 附属文件失败' },
+      { status: 500 }
+    )
+  }
+}
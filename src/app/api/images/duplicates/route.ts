@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { clusterBySimilarity, NEAR_DUPLICATE_THRESHOLD } from '@/lib/duplicates'
+
+export interface DuplicateImage {
+  id: string
+  title: string | null
+  originalName: string
+  width: number
+  height: number
+  fileSize: number
+  takenAt: string | null
+  createdAt: string
+}
+
+export interface DuplicateCluster {
+  // 簇内所有图片内容完全相同
+  exact: boolean
+  images: DuplicateImage[]
+}
+
+/**
+ * 列出当前用户的重复图片簇
+ * 查询参数 threshold: 感知哈希汉明距离阈值 (0-16，默认 10)，0 表示只找完全相同的图片
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // 验证用户登录
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const thresholdParam = req.nextUrl.searchParams.get('threshold')
+    const threshold = thresholdParam === null ? NEAR_DUPLICATE_THRESHOLD : Number(thresholdParam)
+    if (!Number.isInteger(threshold) || threshold < 0 || threshold > 16) {
+      return NextResponse.json(
+        { error: 'threshold 必须是 0-16 之间的整数' },
+        { status: 400 }
+      )
+    }
+
+    const images = await prisma.image.findMany({
+      where: {
+        userId: session.user.id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        title: true,
+        originalName: true,
+        width: true,
+        height: true,
+        fileSize: true,
+        takenAt: true,
+        createdAt: true,
+        contentHash: true,
+        perceptualHash: true,
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    })
+
+    const imageMap = new Map(images.map(img => [img.id, img]))
+
+    const clusters: DuplicateCluster[] = clusterBySimilarity(images, threshold).map(ids => {
+      const members = ids.map(id => imageMap.get(id)!)
+      return {
+        exact: members.every(img => !!img.contentHash && img.contentHash === members[0].contentHash),
+        images: members.map(img => ({
+          id: img.id,
+          title: img.title,
+          originalName: img.originalName,
+          width: img.width,
+          height: img.height,
+          fileSize: img.fileSize,
+          takenAt: img.takenAt?.toISOString() || null,
+          createdAt: img.createdAt.toISOString(),
+        })),
+      }
+    })
+
+    return NextResponse.json({
+      clusters,
+      stats: {
+        total: images.length,
+        // 尚未计算感知哈希的旧图片（未迁移或迁移前上传）不参与近似查重
+        unhashed: images.filter(img => !img.perceptualHash).length,
+        clusters: clusters.length,
+        duplicates: clusters.reduce((sum, cluster) => sum + cluster.images.length - 1, 0),
+      },
+    })
+  } catch (error) {
+    console.error('Fetch duplicate images error:', error)
+    return NextResponse.json(
+      { error: '获取重复图片失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -47,6 +47,9 @@ export async function GET(req: NextRequest) {
           fileSize: true,
           width: true,
           height: true,
+          blurHash: true,
+          dominantColor: true,
+          isAnimated: true,
           title: true,
           description: true,
           takenAt: true,
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { replaceTimeTags } from '@/lib/auto-tag'
+import { MAX_OFFSET, MIN_OFFSET, parseIsoOffset } from '@/lib/capture-time'
+
+// 单次最多校正的图片数量
+const MAX_BATCH_SIZE = 500
+
+const imageIdsSchema = z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE)
+
+// 拍摄地相对 UTC 的偏移（分钟），null 表示未知
+const takenAtOffsetSchema = z.number().int().min(MIN_OFFSET).max(MAX_OFFSET).nullable()
+
+const correctionSchema = z.discriminatedUnion('mode', [
+  // 按固定偏移平移拍摄时间，用于相机时钟快了 / 慢了或未设置为当地时区
+  z.object({
+    mode: z.literal('shift'),
+    imageIds: imageIdsSchema,
+    offsetSeconds: z.number().int().refine(value => value !== 0, '偏移量不能为 0'),
+    // 同时改为新的拍摄地时区，未指定时保持不变
+    takenAtOffset: takenAtOffsetSchema.optional(),
+  }),
+  // 全部设置为指定时间，用于没有 EXIF 的扫描件等
+  z.object({
+    mode: z.literal('set'),
+    imageIds: imageIdsSchema,
+    takenAt: z.string().datetime({ offset: true }),
+    // 未指定时使用 takenAt 中的偏移
+    takenAtOffset: takenAtOffsetSchema.optional(),
+  }),
+  // 以参考图片为准：sourceImageId 与参考图片为同一时刻拍摄，按两者的差值平移所选图片（参考图片本身不变）
+  z.object({
+    mode: z.literal('align'),
+    imageIds: imageIdsSchema,
+    sourceImageId: z.string().min(1),
+    referenceImageId: z.string().min(1),
+  }),
+])
+
+/**
+ * PATCH /api/images/taken-at
+ * 批量校正拍摄时间，并重新生成受影响图片的 AUTO_EXIF 时间标签
+ * 平移和对齐模式跳过没有拍摄时间的图片
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const correction = correctionSchema.parse(await req.json())
+    const imageIds = Array.from(new Set(correction.imageIds))
+
+    const images = await prisma.image.findMany({
+      where: {
+        id: { in: imageIds },
+        userId: session.user.id,
+        deletedAt: null,
+      },
+      select: { id: true, takenAt: true, takenAtOffset: true },
+    })
+
+    if (images.length !== imageIds.length) {
+      return NextResponse.json(
+        { error: '部分图片不存在' },
+        { status: 404 }
+      )
+    }
+
+    let offsetMs = 0
+    let referenceImageId: string | null = null
+    if (correction.mode === 'shift') {
+      offsetMs = correction.offsetSeconds * 1000
+    } else if (correction.mode === 'align') {
+      const [source, reference] = await Promise.all(
+        [correction.sourceImageId, correction.referenceImageId].map(id =>
+          prisma.image.findUnique({
+            where: { id, userId: session.user.id },
+            select: { takenAt: true },
+          })
+        )
+      )
+      if (!source || !reference) {
+        return NextResponse.json(
+          { error: '图片不存在' },
+          { status: 404 }
+        )
+      }
+      if (!source.takenAt || !reference.takenAt) {
+        return NextResponse.json(
+          { error: '对齐的两张图片都需要有拍摄时间' },
+          { status: 400 }
+        )
+      }
+      offsetMs = reference.takenAt.getTime() - source.takenAt.getTime()
+      referenceImageId = correction.referenceImageId
+    }
+
+    // 设置或平移时指定了时区，时间标签按新的偏移生成
+    const newOffset = correction.mode === 'set'
+      ? (correction.takenAtOffset !== undefined ? correction.takenAtOffset : parseIsoOffset(correction.takenAt))
+      : correction.mode === 'shift' ? correction.takenAtOffset : undefined
+
+    const updated: Array<{ id: string; takenAt: Date; takenAtOffset: number | null }> = []
+    const skipped: string[] = []
+
+    for (const image of images) {
+      if (image.id === referenceImageId) continue
+
+      let takenAt: Date
+      if (correction.mode === 'set') {
+        takenAt = new Date(correction.takenAt)
+      } else if (image.takenAt) {
+        takenAt = new Date(image.takenAt.getTime() + offsetMs)
+      } else {
+        skipped.push(image.id)
+        continue
+      }
+
+      const takenAtOffset = newOffset !== undefined ? newOffset : image.takenAtOffset
+      await prisma.image.update({
+        where: { id: image.id },
+        data: { takenAt, takenAtOffset },
+      })
+      await replaceTimeTags(image.id, takenAt, takenAtOffset)
+      updated.push({ id: image.id, takenAt, takenAtOffset })
+    }
+
+    return NextResponse.json({ updated, skipped })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: '输入数据无效', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Correct taken time error:', error)
+    return NextResponse.json(
+      { error: '校正拍摄时间失败' },
+      { status: 500 }
+    )
+  }
+}
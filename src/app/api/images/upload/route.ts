@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
-import { processImage, parseExifData } from '@/lib/image-utils'
-import { generateAutoTags, saveAutoTags } from '@/lib/auto-tag'
-import { queueImageAnalysis, processImageAnalysis } from '@/lib/ai/analysis-queue'
+import {
+  resolveImageMimeType,
+  getMaxUploadSize,
+  isXmpSidecar,
+  findSidecarFor,
+  MAX_SIDECAR_SIZE,
+} from '@/lib/image-formats'
+import {
+  ingestImage,
+  loadKnownHashes,
+  parseDuplicateMode,
+  UploadResult,
+} from '@/lib/upload-pipeline'
+import { parseXmpSidecar } from '@/lib/xmp-sidecar'
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,39 +29,50 @@ export async function POST(req: NextRequest) {
 
     // 获取表单数据
     const formData = await req.formData()
-    const files = formData.getAll('images') as File[]
+    const entries = formData.getAll('images') as File[]
+
+    // .xmp 附属文件与同名图片一起上传，按小写文件名匹配
+    const files = entries.filter(file => !isXmpSidecar(file.name))
+    const sidecars = new Map(
+      entries
+        .filter(file => isXmpSidecar(file.name) && file.size <= MAX_SIDECAR_SIZE)
+        .map(file => [file.name.toLowerCase(), file] as const)
+    )
 
-    if (!files || files.length === 0) {
+    if (files.length === 0) {
       return NextResponse.json(
         { error: '请选择要上传的图片' },
         { status: 400 }
       )
     }
 
-    // 验证文件类型
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
-    const invalidFiles = files.filter(file => !allowedTypes.includes(file.type))
+    // 验证文件类型（HEIC / DNG 的 MIME 类型经常为空，按扩展名识别）
+    const invalidFiles = files.filter(file => !resolveImageMimeType(file.name, file.type))
 
     if (invalidFiles.length > 0) {
       return NextResponse.json(
-        { error: '只支持 JPEG, PNG, GIF 和 WebP 格式的图片' },
+        { error: '只支持 JPEG, PNG, GIF, WebP, HEIC/HEIF, TIFF 和 DNG 格式的图片' },
         { status: 400 }
       )
     }
 
-    // 验证文件大小 (最大 10MB)
-    const maxSize = 10 * 1024 * 1024 // 10MB
-    const oversizedFiles = files.filter(file => file.size > maxSize)
+    // 验证文件大小 (最大 10MB，TIFF / DNG 最大 50MB)
+    const oversizedFiles = files.filter(file =>
+      file.size > getMaxUploadSize(resolveImageMimeType(file.name, file.type)!)
+    )
 
     if (oversizedFiles.length > 0) {
       return NextResponse.json(
-        { error: '图片大小不能超过 10MB' },
+        { error: '图片大小不能超过 10MB（TIFF / DNG 不能超过 50MB）' },
         { status: 400 }
       )
     }
 
+    const duplicateMode = parseDuplicateMode(formData.get('duplicates'))
+    const knownHashes = await loadKnownHashes(session.user.id)
+
     // 处理并保存图片
-    const uploadResults = []
+    const uploadResults: UploadResult[] = []
 
     for (const file of files) {
       try {
@@ -59,90 +80,20 @@ export async function POST(req: NextRequest) {
         const arrayBuffer = await file.arrayBuffer()
         const buffer = Buffer.from(arrayBuffer)
 
-        // 处理图片
-        const processed = await processImage(buffer)
-
-        // 解析 EXIF 数据
-        const exifData = parseExifData(processed.exifData)
-
-        // 生成文件名
-        const timestamp = Date.now()
-        const randomStr = Math.random().toString(36).substring(2, 8)
-        const filename = `${timestamp}_${randomStr}_${file.name}`
-
-        // 保存到数据库（显式字段，确保数据有效性）
-        const image = await prisma.image.create({
-          data: {
-            userId: session.user.id,
-            filename,
-            originalName: file.name,
-            mimeType: processed.metadata.mimeType,
-            fileSize: processed.metadata.fileSize,
-            width: processed.metadata.width,
-            height: processed.metadata.height,
-            aspectRatio: processed.metadata.aspectRatio,
-            originalImage: processed.originalImage,
-            thumbnailSmall: processed.thumbnailSmall,
-            thumbnailMedium: processed.thumbnailMedium,
-            thumbnailLarge: processed.thumbnailLarge,
-            // EXIF数据（已验证和清理）
-            takenAt: exifData.takenAt,
-            cameraModel: exifData.cameraModel,
-            cameraMake: exifData.cameraMake,
-            lensModel: exifData.lensModel,
-            focalLength: exifData.focalLength,
-            aperture: exifData.aperture,
-            shutterSpeed: exifData.shutterSpeed,
-            iso: exifData.iso,
-            latitude: exifData.latitude,
-            longitude: exifData.longitude,
-            altitude: exifData.altitude,
-            gpsTimestamp: exifData.gpsTimestamp,
-            software: exifData.software,
-            orientation: exifData.orientation,
-          },
-          select: {
-            id: true,
-            filename: true,
-            originalName: true,
-            width: true,
-            height: true,
-            fileSize: true,
-            createdAt: true,
-          },
-        })
-
-        // 生成并保存自动标签
-        try {
-          const autoTags = await generateAutoTags({
-            exifData: processed.exifData,
-            metadata: processed.metadata,
-            imageId: image.id,
-          })
-
-          await saveAutoTags(image.id, autoTags)
-
-          console.log(`Generated ${autoTags.length} auto tags for image ${image.id}`)
-        } catch (tagError) {
-          console.error('Error generating auto tags:', tagError)
-          // 标签生成失败不影响图片上传
-        }
-
-        // Queue and process AI analysis
-        try {
-          await queueImageAnalysis(image.id, session.user.id)
-          // Process immediately in background (non-blocking for the response)
-          processImageAnalysis(image.id, session.user.id)
-            .catch(err => console.error('Failed to process AI analysis:', err))
-        } catch (error) {
-          console.error('Error queueing AI analysis:', error)
-          // AI分析队列失败不影响图片上传
-        }
-
-        uploadResults.push({
-          success: true,
-          image,
-        })
+        const sidecarFile = findSidecarFor(file.name, sidecars)
+        const sidecar = sidecarFile
+          ? await parseXmpSidecar(Buffer.from(await sidecarFile.arrayBuffer()))
+          : null
+
+        uploadResults.push(await ingestImage({
+          userId: session.user.id,
+          buffer,
+          originalName: file.name,
+          mimeType: resolveImageMimeType(file.name, file.type)!,
+          duplicateMode,
+          knownHashes,
+          sidecar,
+        }))
       } catch (error) {
         console.error(`Error processing ${file.name}:`, error)
         uploadResults.push({
@@ -154,10 +105,11 @@ export async function POST(req: NextRequest) {
     }
 
     const successCount = uploadResults.filter(r => r.success).length
-    const failCount = uploadResults.filter(r => !r.success).length
+    const skippedCount = uploadResults.filter(r => r.skipped).length
+    const failCount = uploadResults.filter(r => !r.success && !r.skipped).length
 
     return NextResponse.json({
-      message: `成功上传 ${successCount} 张图片${failCount > 0 ? `, ${failCount} 张失败` : ''}`,
+      message: `成功上传 ${successCount} 张图片${skippedCount > 0 ? `, ${skippedCount} 张重复已跳过` : ''}${failCount > 0 ? `, ${failCount} 张失败` : ''}`,
       results: uploadResults,
     })
   } catch (error) {
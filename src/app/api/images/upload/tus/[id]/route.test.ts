@@ -0,0 +1,114 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import { NextRequest } from 'next/server'
+
+const { dir, ingestImage } = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || '/tmp'}/tus-route-test-${process.pid}`
+  process.env.TUS_UPLOAD_DIR = dir
+  return { dir, ingestImage: vi.fn() }
+})
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(async () => ({ user: { id: 'user-1' } })),
+}))
+vi.mock('@/lib/auth', () => ({ authOptions: {} }))
+vi.mock('@/lib/upload-pipeline', () => ({
+  ingestImage,
+  loadKnownHashes: vi.fn(async () => new Map()),
+  parseDuplicateMode: vi.fn(() => 'flag'),
+}))
+
+import { GET, HEAD, PATCH } from './route'
+import { getTusStore, TUS_VERSION, TusUpload } from '@/lib/tus-store'
+
+function patch(upload: TusUpload, offset: number, body: string, headers: Record<string, string> = {}) {
+  const req = new NextRequest(`http://localhost/api/images/upload/tus/${upload.id}`, {
+    method: 'PATCH',
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(offset),
+      ...headers,
+    },
+    body: Buffer.from(body),
+    duplex: 'half',
+  } as ConstructorParameters<typeof NextRequest>[1])
+  return PATCH(req, { params: { id: upload.id } })
+}
+
+function get(upload: TusUpload, method: 'GET' | 'HEAD' = 'GET') {
+  const req = new NextRequest(`http://localhost/api/images/upload/tus/${upload.id}`, { method })
+  return (method === 'GET' ? GET : HEAD)(req, { params: { id: upload.id } })
+}
+
+describe('PATCH /api/images/upload/tus/[id]', () => {
+  let upload: TusUpload
+
+  beforeEach(async () => {
+    ingestImage.mockReset()
+    ingestImage.mockImplementation(async ({ originalName }) => ({ success: false, filename: originalName, error: '重复' }))
+    upload = await getTusStore().create('user-1', 6, { filename: 'a.jpg', filetype: 'image/jpeg' })
+  })
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('Upload-Offset 与服务器记录不一致时返回 409 和当前偏移量', async () => {
+    const res = await patch(upload, 3, 'abc')
+    expect(res.status).toBe(409)
+    expect(res.headers.get('upload-offset')).toBe('0')
+  })
+
+  it('协议版本或 Content-Type 不正确时拒绝', async () => {
+    expect((await patch(upload, 0, 'abc', { 'Tus-Resumable': '0.2.2' })).status).toBe(412)
+    expect((await patch(upload, 0, 'abc', { 'Content-Type': 'image/jpeg' })).status).toBe(415)
+  })
+
+  it('分片写入后返回新的偏移量，HEAD 可以查询续传位置', async () => {
+    const res = await patch(upload, 0, 'abcd')
+    expect(res.status).toBe(204)
+    expect(res.headers.get('upload-offset')).toBe('4')
+
+    const head = await get(upload, 'HEAD')
+    expect(head.headers.get('upload-offset')).toBe('4')
+    expect(head.headers.get('upload-length')).toBe('6')
+    expect(ingestImage).not.toHaveBeenCalled()
+  })
+
+  it('接收完整后入库一次，重复的最后一个分片不会再次入库', async () => {
+    await patch(upload, 0, 'abcd')
+    const res = await patch(upload, 4, 'ef')
+    expect(res.status).toBe(204)
+    expect(res.headers.get('upload-offset')).toBe('6')
+
+    expect(ingestImage).toHaveBeenCalledTimes(1)
+    const input = ingestImage.mock.calls[0][0]
+    expect(input.buffer.toString()).toBe('abcdef')
+    expect(input.mimeType).toBe('image/jpeg')
+    expect(input.userId).toBe('user-1')
+
+    const body = await (await get(upload)).json()
+    expect(body).toEqual({ offset: 6, length: 6, result: { success: false, filename: 'a.jpg', error: '重复' } })
+
+    expect((await patch(upload, 6, '')).status).toBe(204)
+    expect(ingestImage).toHaveBeenCalledTimes(1)
+  })
+
+  it('入库失败时记录失败结果', async () => {
+    ingestImage.mockRejectedValue(new Error('decode failed'))
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await patch(upload, 0, 'abcdef')
+    const body = await (await get(upload)).json()
+    expect(body.result).toEqual({ success: false, filename: 'a.jpg', error: '处理失败' })
+    consoleError.mockRestore()
+  })
+
+  it('数据超过声明长度时返回 413 并丢弃整个上传', async () => {
+    const res = await patch(upload, 0, 'abcdefgh')
+    expect(res.status).toBe(413)
+    expect(ingestImage).not.toHaveBeenCalled()
+    expect((await get(upload)).status).toBe(404)
+  })
+})
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { resolveImageMimeType } from '@/lib/image-formats'
+import { getTusStore, tusHeaders, TusError, TusUpload, TUS_VERSION } from '@/lib/tus-store'
+import { ingestImage, loadKnownHashes, parseDuplicateMode, UploadResult } from '@/lib/upload-pipeline'
+
+/**
+ * 读取当前用户的上传，未登录返回 401，不存在或不属于当前用户返回 404
+ */
+async function findUpload(id: string): Promise<TusUpload | NextResponse> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json(
+      { error: '请先登录' },
+      { status: 401, headers: tusHeaders() }
+    )
+  }
+
+  const upload = await getTusStore().get(id)
+  if (!upload || upload.userId !== session.user.id) {
+    return NextResponse.json(
+      { error: '上传不存在或已过期' },
+      { status: 404, headers: tusHeaders() }
+    )
+  }
+
+  return upload
+}
+
+function checkTusVersion(req: NextRequest): NextResponse | null {
+  if (req.headers.get('tus-resumable') === TUS_VERSION) return null
+  return NextResponse.json(
+    { error: '不支持的 tus 协议版本' },
+    { status: 412, headers: tusHeaders({ 'Tus-Version': TUS_VERSION }) }
+  )
+}
+
+function offsetHeaders(upload: TusUpload, offset: number): Record<string, string> {
+  return tusHeaders({
+    'Upload-Offset': String(offset),
+    'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+    'Cache-Control': 'no-store',
+  })
+}
+
+/**
+ * 接收完成后入库，处理失败也记录结果，避免客户端反复重传
+ */
+async function finishUpload(upload: TusUpload): Promise<UploadResult> {
+  const store = getTusStore()
+  const filename = upload.metadata.filename
+
+  let result: UploadResult
+  try {
+    result = await ingestImage({
+      userId: upload.userId,
+      buffer: await store.readData(upload.id),
+      originalName: filename,
+      mimeType: resolveImageMimeType(filename, upload.metadata.filetype || '')!,
+      duplicateMode: parseDuplicateMode(upload.metadata.duplicates),
+      knownHashes: await loadKnownHashes(upload.userId),
+    })
+  } catch (error) {
+    console.error(`Error processing ${filename}:`, error)
+    result = {
+      success: false,
+      filename,
+      error: '处理失败',
+    }
+  }
+
+  await store.complete(upload, result)
+  return result
+}
+
+/**
+ * 查询已接收的字节数，客户端据此续传
+ */
+export async function HEAD(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const upload = await findUpload(params.id)
+  if (upload instanceof NextResponse) {
+    // HEAD 响应不能带响应体
+    return new NextResponse(null, { status: upload.status, headers: tusHeaders() })
+  }
+
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...offsetHeaders(upload, upload.offset),
+      'Upload-Length': String(upload.length),
+    },
+  })
+}
+
+/**
+ * 从 Upload-Offset 处追加一段数据，接收完整后立即入库
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const versionError = checkTusVersion(req)
+  if (versionError) return versionError
+
+  const upload = await findUpload(params.id)
+  if (upload instanceof NextResponse) return upload
+
+  if (req.headers.get('content-type') !== 'application/offset+octet-stream') {
+    return NextResponse.json(
+      { error: 'Content-Type 必须为 application/offset+octet-stream' },
+      { status: 415, headers: tusHeaders() }
+    )
+  }
+
+  if (Number(req.headers.get('upload-offset')) !== upload.offset) {
+    return NextResponse.json(
+      { error: 'Upload-Offset 与服务器记录不一致' },
+      { status: 409, headers: offsetHeaders(upload, upload.offset) }
+    )
+  }
+
+  if (upload.result) {
+    return new NextResponse(null, { status: 204, headers: offsetHeaders(upload, upload.offset) })
+  }
+
+  const store = getTusStore()
+  if (!store.lock(upload.id)) {
+    return NextResponse.json(
+      { error: '该上传正在写入，请稍后重试' },
+      { status: 423, headers: tusHeaders() }
+    )
+  }
+
+  try {
+    const offset = await store.append(upload, req.body)
+
+    if (offset === upload.length) {
+      await finishUpload(upload)
+    }
+
+    return new NextResponse(null, { status: 204, headers: offsetHeaders(upload, offset) })
+  } catch (error) {
+    if (error instanceof TusError) {
+      // 数据超出声明长度说明客户端有误，丢弃整个上传，避免把截断的文件入库
+      if (error.status === 413) await store.remove(upload.id)
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: tusHeaders() }
+      )
+    }
+    console.error('tus patch error:', error)
+    return NextResponse.json(
+      { error: '上传失败,请稍后重试' },
+      { status: 500, headers: tusHeaders() }
+    )
+  } finally {
+    store.unlock(upload.id)
+  }
+}
+
+/**
+ * 查询上传进度和入库结果（非 tus 协议，供上传页面在上传完成后获取结果）
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const upload = await findUpload(params.id)
+  if (upload instanceof NextResponse) return upload
+
+  return NextResponse.json({
+    offset: upload.offset,
+    length: upload.length,
+    result: upload.result || null,
+  })
+}
+
+/**
+ * 取消上传并删除已接收的数据 (tus termination 扩展)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const versionError = checkTusVersion(req)
+  if (versionError) return versionError
+
+  const upload = await findUpload(params.id)
+  if (upload instanceof NextResponse) return upload
+
+  const store = getTusStore()
+  if (!store.lock(upload.id)) {
+    return NextResponse.json(
+      { error: '该上传正在写入，请稍后重试' },
+      { status: 423, headers: tusHeaders() }
+    )
+  }
+
+  try {
+    await store.remove(upload.id)
+  } finally {
+    store.unlock(upload.id)
+  }
+
+  return new NextResponse(null, { status: 204, headers: tusHeaders() })
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { resolveImageMimeType, getMaxUploadSize, MAX_RAW_UPLOAD_SIZE } from '@/lib/image-formats'
+import {
+  getTusStore,
+  parseUploadMetadata,
+  tusHeaders,
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+} from '@/lib/tus-store'
+
+/**
+ * tus 协议能力查询
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: tusHeaders({
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS,
+      'Tus-Max-Size': String(MAX_RAW_UPLOAD_SIZE),
+    }),
+  })
+}
+
+/**
+ * 创建断点续传上传 (tus creation 扩展)
+ * Upload-Metadata: filename（必填）、filetype、duplicates（skip | flag）
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 验证用户登录
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401, headers: tusHeaders() }
+      )
+    }
+
+    if (req.headers.get('tus-resumable') !== TUS_VERSION) {
+      return NextResponse.json(
+        { error: '不支持的 tus 协议版本' },
+        { status: 412, headers: tusHeaders({ 'Tus-Version': TUS_VERSION }) }
+      )
+    }
+
+    const length = Number(req.headers.get('upload-length'))
+    if (!req.headers.get('upload-length') || !Number.isSafeInteger(length) || length <= 0) {
+      return NextResponse.json(
+        { error: '缺少有效的 Upload-Length' },
+        { status: 400, headers: tusHeaders() }
+      )
+    }
+
+    const metadata = parseUploadMetadata(req.headers.get('upload-metadata'))
+    if (!metadata || !metadata.filename) {
+      return NextResponse.json(
+        { error: 'Upload-Metadata 中缺少文件名' },
+        { status: 400, headers: tusHeaders() }
+      )
+    }
+
+    // 验证文件类型（HEIC / DNG 的 MIME 类型经常为空，按扩展名识别）
+    const mimeType = resolveImageMimeType(metadata.filename, metadata.filetype || '')
+    if (!mimeType) {
+      return NextResponse.json(
+        { error: '只支持 JPEG, PNG, GIF, WebP, HEIC/HEIF, TIFF 和 DNG 格式的图片' },
+        { status: 415, headers: tusHeaders() }
+      )
+    }
+
+    // 验证文件大小 (最大 10MB，TIFF / DNG 最大 50MB)
+    if (length > getMaxUploadSize(mimeType)) {
+      return NextResponse.json(
+        { error: '图片大小不能超过 10MB（TIFF / DNG 不能超过 50MB）' },
+        { status: 413, headers: tusHeaders() }
+      )
+    }
+
+    const store = getTusStore()
+
+    // 顺便清理过期的未完成上传
+    store.removeExpired()
+      .catch(error => console.error('[tus] Failed to remove expired uploads:', error))
+
+    const upload = await store.create(session.user.id, length, metadata)
+
+    return new NextResponse(null, {
+      status: 201,
+      headers: tusHeaders({
+        Location: `/api/images/upload/tus/${upload.id}`,
+        'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+      }),
+    })
+  } catch (error) {
+    console.error('tus create error:', error)
+    return NextResponse.json(
+      { error: '创建上传失败,请稍后重试' },
+      { status: 500, headers: tusHeaders() }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CubeLutError } from '@/lib/adjustments'
+import { readLutFile } from '@/lib/luts'
+
+/**
+ * GET /api/luts/[name]
+ * 获取 LUT 的 .cube 文件，编辑器在浏览器中用它预览滤镜
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const text = await readLutFile(params.name)
+    if (text === null) {
+      return NextResponse.json(
+        { error: '滤镜不存在' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(text, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    if (error instanceof CubeLutError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Get LUT error:', error)
+    return NextResponse.json(
+      { error: '获取滤镜失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listLuts } from '@/lib/luts'
+
+/**
+ * GET /api/luts
+ * 获取可用的 LUT 滤镜
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({ luts: await listLuts() })
+  } catch (error) {
+    console.error('List LUTs error:', error)
+    return NextResponse.json(
+      { error: '获取滤镜失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -30,7 +30,9 @@ export async function GET(req: NextRequest) {
           createdAt: true,
           width: true,
           height: true,
-          fileSize: true
+          fileSize: true,
+          isAnimated: true,
+          duration: true
         }
       }),
       prisma.tag.count({ where: { type: 'AUTO_EXIF' } }),
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { imageStorageKeySelect } from '@/lib/storage'
+import { deleteImageAndVersionFiles, imageVersionKeySelect } from '@/lib/image-versions'
 
 export async function GET(req: NextRequest) {
   try {
@@ -87,14 +89,30 @@ export async function DELETE(req: NextRequest) {
       )
     }
 
-    // 永久删除所有回收站中的图片
-    const result = await prisma.image.deleteMany({
+    const trashed = await prisma.image.findMany({
       where: {
         userId: session.user.id,
         deletedAt: { not: null },
       },
+      select: {
+        id: true,
+        ...imageStorageKeySelect,
+        versions: { select: imageVersionKeySelect },
+      },
     })
 
+    // 永久删除所有回收站中的图片
+    const result = await prisma.image.deleteMany({
+      where: {
+        id: { in: trashed.map(image => image.id) },
+      },
+    })
+
+    // 清理存储中的文件
+    for (const image of trashed) {
+      await deleteImageAndVersionFiles(image)
+    }
+
     return NextResponse.json({
       message: '回收站已清空',
       count: result.count,
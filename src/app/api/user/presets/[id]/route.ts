@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * DELETE /api/user/presets/[id]
+ * 删除编辑预设
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const { count } = await prisma.editPreset.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: '预设不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: '预设已删除' })
+  } catch (error) {
+    console.error('Delete edit preset error:', error)
+    return NextResponse.json(
+      { error: '删除预设失败' },
+      { status: 500 }
+    )
+  }
+}
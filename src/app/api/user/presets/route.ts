@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { editStackSchema, readEditStack } from '@/lib/image-edits'
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1, '预设名称不能为空').max(50),
+  operations: editStackSchema.min(1),
+})
+
+/**
+ * GET /api/user/presets
+ * 获取当前用户的编辑预设
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const presets = await prisma.editPreset.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({
+      presets: presets.map(preset => ({ ...preset, operations: readEditStack(preset.operations) })),
+    })
+  } catch (error) {
+    console.error('Get edit presets error:', error)
+    return NextResponse.json(
+      { error: '获取预设失败' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/presets
+ * 保存编辑预设，同名预设会被覆盖
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const { name, operations } = presetSchema.parse(await req.json())
+
+    const preset = await prisma.editPreset.upsert({
+      where: { userId_name: { userId: session.user.id, name } },
+      create: { userId: session.user.id, name, operations },
+      update: { operations },
+    })
+
+    return NextResponse.json({ preset: { ...preset, operations } })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: '输入数据无效', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Save edit preset error:', error)
+    return NextResponse.json(
+      { error: '保存预设失败' },
+      { status: 500 }
+    )
+  }
+}
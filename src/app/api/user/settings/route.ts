@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { MetadataPrivacy } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+const settingsSelect = {
+  embedMetadataOnDownload: true,
+  downloadPrivacy: true,
+} as const
+
+const settingsSchema = z.object({
+  embedMetadataOnDownload: z.boolean().optional(),
+  downloadPrivacy: z.nativeEnum(MetadataPrivacy).optional(),
+})
+
+/**
+ * GET /api/user/settings
+ * 获取当前用户的设置
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const settings = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: settingsSelect,
+    })
+
+    if (!settings) {
+      return NextResponse.json(
+        { error: '用户不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Get user settings error:', error)
+    return NextResponse.json(
+      { error: '获取设置失败' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/user/settings
+ * 更新当前用户的设置，只修改请求中包含的字段
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: '请先登录' },
+        { status: 401 }
+      )
+    }
+
+    const data = settingsSchema.parse(await req.json())
+
+    const settings = await prisma.user.update({
+      where: { id: session.user.id },
+      data,
+      select: settingsSelect,
+    })
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: '输入数据无效', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Update user settings error:', error)
+    return NextResponse.json(
+      { error: '更新设置失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -11,7 +11,14 @@ interface PublicStats {
   totalImages: number
   totalUsers: number
   topTags: { id: string; name: string; useCount: number; type: 'AUTO_EXIF' | 'AUTO_AI' | 'CUSTOM' }[]
-  recentImages: { id: string; title: string | null; originalName: string; createdAt: string }[]
+  recentImages: {
+    id: string
+    title: string | null
+    originalName: string
+    createdAt: string
+    isAnimated?: boolean
+    duration?: number | null
+  }[]
   tagStats?: {
     autoExif: number
     autoAI: number
@@ -13,12 +13,12 @@ export default function EditorPage({ params }: { params: { id: string } }) {
 
   // middleware 已经处理了认证，这里直接加载图片
   useEffect(() => {
-    setImageUrl(`/api/images/${params.id}/file?size=original`)
+    setImageUrl(`/api/images/${params.id}/file?size=preview`)
   }, [params.id])
 
-  const onSaved = () => {
-    // after save, redirect back to gallery
-    router.push('/gallery')
+  const onSaved = (savedImageId: string) => {
+    // after save, redirect back to gallery; a saved copy opens its own detail page
+    router.push(savedImageId === params.id ? '/gallery' : `/gallery/${savedImageId}`)
   }
 
   const rename = async () => {
@@ -45,7 +45,7 @@ export default function EditorPage({ params }: { params: { id: string } }) {
         </div>
       </div>
 
-      <ImageEditor imageUrl={imageUrl} onSaved={onSaved} />
+      <ImageEditor imageId={params.id} imageUrl={imageUrl} onSaved={onSaved} />
     </div>
   )
 }
@@ -15,6 +15,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog'
 import { useToast } from '@/components/ui/toast'
+import { PlaceholderImage } from '@/components/image/PlaceholderImage'
 
 interface ImageData {
   id: string
@@ -24,6 +25,8 @@ interface ImageData {
   fileSize: number
   width: number
   height: number
+  blurHash?: string | null
+  dominantColor?: string | null
   title: string | null
   description: string | null
   takenAt: string | null
@@ -179,9 +182,11 @@ export default function FavoritesPage() {
             >
               <CardContent className="p-0">
                 <div className="relative aspect-square overflow-hidden rounded-t-lg bg-gray-100">
-                  <img
+                  <PlaceholderImage
                     src={`/api/images/${image.id}/file?size=medium`}
                     alt={image.title || image.originalName}
+                    blurHash={image.blurHash}
+                    dominantColor={image.dominantColor}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform"
                   />
                   {/* 收藏图标 */}
@@ -10,6 +10,8 @@ import TagBadge from '@/components/tags/TagBadge'
 import { useToast } from '@/components/ui/toast'
 import { ImageAIChat } from '@/components/image/ImageAIChat'
 import { AIAnalysisStatus } from '@/components/image/AIAnalysisStatus'
+import { MetadataInspector } from '@/components/image/MetadataInspector'
+import { ImageVersions } from '@/components/image/ImageVersions'
 
 interface AILabels {
   scenes?: string[]
@@ -30,8 +32,15 @@ type ImageDetail = {
   fileSize: number
   width: number
   height: number
+  isAnimated?: boolean
+  pageCount?: number | null
+  duration?: number | null
+  iccProfileName?: string | null
+  colorSpace?: string | null
   takenAt?: string | null
+  editedFromId?: string | null
   createdAt: string
+  updatedAt: string
   viewCount: number
   aiAnalyzed: boolean
   aiLabels?: AILabels | null
@@ -39,6 +48,19 @@ type ImageDetail = {
   tags: { tag: { id: string; name: string; type: string; color?: string | null } }[]
 }
 
+const COLOR_MODEL_LABELS: Record<string, string> = {
+  srgb: 'sRGB',
+  cmyk: 'CMYK',
+  'b-w': '灰度',
+}
+
+// 原图色彩空间：有嵌入的 ICC 配置文件时显示其名称
+function formatColorSpace(image: ImageDetail): string | null {
+  if (image.iccProfileName) return image.iccProfileName
+  if (!image.colorSpace) return null
+  return `${COLOR_MODEL_LABELS[image.colorSpace] || image.colorSpace}（未嵌入配置文件）`
+}
+
 export default function ImageDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter()
   const { data: session, status } = useSession()
@@ -166,7 +188,9 @@ export default function ImageDetailPage({ params }: { params: { id: string } })
         {/* 图片预览 */}
         <Card>
           <CardContent className="p-4">
-            <img src={`/api/images/${image.id}/file?size=large`} alt={image.title ?? image.originalName} className="w-full h-auto rounded" />
+            {/* 动图播放动画 WebP 预览 */}
+            {/* 恢复版本后文件改变，按更新时间重新加载 */}
+            <img src={`/api/images/${image.id}/file?size=${image.isAnimated ? 'animated' : 'large'}&v=${image.updatedAt}`} alt={image.title ?? image.originalName} className="w-full h-auto rounded" />
           </CardContent>
         </Card>
 
@@ -175,7 +199,20 @@ export default function ImageDetailPage({ params }: { params: { id: string } })
           <CardContent className="p-4 space-y-4">
             <div>
               <h3 className="font-medium">{image.title ?? image.originalName}</h3>
-              <div className="text-sm text-muted-foreground">{image.width} × {image.height} • {(image.fileSize / 1024).toFixed(1)} KB</div>
+              <div className="text-sm text-muted-foreground">
+                {image.width} × {image.height} • {(image.fileSize / 1024).toFixed(1)} KB
+                {image.isAnimated && (
+                  <> • 动图 {image.pageCount} 帧{image.duration ? ` / ${(image.duration / 1000).toFixed(1)} 秒` : ''}</>
+                )}
+              </div>
+              {formatColorSpace(image) && (
+                <div className="text-sm text-muted-foreground">色彩空间：{formatColorSpace(image)}</div>
+              )}
+              {image.editedFromId && (
+                <button className="text-sm text-primary hover:underline" onClick={() => router.push(`/gallery/${image.editedFromId}`)}>
+                  编辑自原图
+                </button>
+              )}
             </div>
 
             {/* AI 分析状态和结果 */}
@@ -213,12 +250,26 @@ export default function ImageDetailPage({ params }: { params: { id: string } })
                 <TagInput value={[]} onChange={(v) => addTag(v[v.length - 1])} />
               </div>
             </div>
+
+            {/* 元数据检查器 */}
+            <div className="border-t pt-4">
+              <h4 className="font-medium mb-2">元数据</h4>
+              <MetadataInspector imageId={image.id} />
+            </div>
           </CardContent>
         </Card>
 
         {/* AI 问答 */}
         <ImageAIChat imageId={image.id} imageName={image.title ?? image.originalName} />
       </div>
+
+      {/* 版本记录和对比 */}
+      <Card>
+        <CardContent className="p-4">
+          <h4 className="font-medium mb-2">版本</h4>
+          <ImageVersions imageId={image.id} onRestored={fetchImage} />
+        </CardContent>
+      </Card>
     </div>
   )
 }
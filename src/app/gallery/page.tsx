@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { ImageIcon, Calendar, Eye, Trash2, Heart } from 'lucide-react'
+import { ImageIcon, Calendar, Eye, Trash2, Heart, Check, Clock } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -15,6 +15,8 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog'
 import { useToast } from '@/components/ui/toast'
+import { PlaceholderImage } from '@/components/image/PlaceholderImage'
+import { TakenAtDialog } from '@/components/image/TakenAtDialog'
 import Image from 'next/image'
 
 interface ImageData {
@@ -25,6 +27,9 @@ interface ImageData {
   fileSize: number
   width: number
   height: number
+  blurHash?: string | null
+  dominantColor?: string | null
+  isAnimated?: boolean
   title: string | null
   description: string | null
   takenAt: string | null
@@ -55,8 +60,27 @@ export default function GalleryPage() {
   const [deletingIds, setDeletingIds] = useState<string[]>([])
   const [pendingDelete, setPendingDelete] = useState<ImageData | null>(null)
   const [confirmOpen, setConfirmOpen] = useState(false)
+  // 网格中显示静态封面，鼠标悬停时播放动图
+  const [playingId, setPlayingId] = useState<string | null>(null)
+  // 多选模式：点击图片切换选中状态，用于批量校正拍摄时间
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [takenAtOpen, setTakenAtOpen] = useState(false)
   const { toast } = useToast()
 
+  const selectedImages = images.filter((image) => selectedIds.includes(image.id))
+
+  const toggleSelected = (imageId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(imageId) ? prev.filter((id) => id !== imageId) : [...prev, imageId]
+    )
+  }
+
+  const stopSelecting = () => {
+    setIsSelecting(false)
+    setSelectedIds([])
+  }
+
   const pendingName = pendingDelete ? (pendingDelete.title ?? pendingDelete.originalName) : ''
 
   // 获取图片列表（middleware 已经处理了认证，这里不需要重复检查）
@@ -173,9 +197,30 @@ export default function GalleryPage() {
             共 {pagination.total} 张图片
           </p>
         </div>
-        <Button onClick={() => router.push('/upload')}>
-          上传图片
-        </Button>
+        <div className="flex gap-2">
+          {isSelecting ? (
+            <>
+              <Button
+                variant="outline"
+                disabled={selectedIds.length === 0}
+                onClick={() => setTakenAtOpen(true)}
+              >
+                <Clock className="h-4 w-4 mr-2" />
+                校正拍摄时间{selectedIds.length > 0 && ` (${selectedIds.length})`}
+              </Button>
+              <Button variant="outline" onClick={stopSelecting}>
+                取消选择
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => setIsSelecting(true)}>
+              选择
+            </Button>
+          )}
+          <Button onClick={() => router.push('/upload')}>
+            上传图片
+          </Button>
+        </div>
       </div>
 
       {/* 图片网格 */}
@@ -183,16 +228,47 @@ export default function GalleryPage() {
         {images.map((image) => (
           <Card
             key={image.id}
-            className="group cursor-pointer hover:shadow-lg transition-shadow"
-            onClick={() => router.push(`/gallery/${image.id}`)}
+            className={`group cursor-pointer hover:shadow-lg transition-shadow ${
+              selectedIds.includes(image.id) ? 'ring-2 ring-primary' : ''
+            }`}
+            onClick={() =>
+              isSelecting ? toggleSelected(image.id) : router.push(`/gallery/${image.id}`)
+            }
+            onMouseEnter={() => image.isAnimated && setPlayingId(image.id)}
+            onMouseLeave={() => setPlayingId(null)}
           >
             <CardContent className="p-0">
               <div className="relative aspect-square overflow-hidden rounded-t-lg bg-gray-100">
-                <img
+                <PlaceholderImage
                   src={`/api/images/${image.id}/file?size=medium`}
                   alt={image.title || image.originalName}
+                  blurHash={image.blurHash}
+                  dominantColor={image.dominantColor}
                   className="w-full h-full object-cover group-hover:scale-105 transition-transform"
                 />
+                {image.isAnimated && (
+                  <>
+                    {playingId === image.id && (
+                      <img
+                        src={`/api/images/${image.id}/file?size=animated`}
+                        alt=""
+                        className="absolute inset-0 w-full h-full object-cover scale-105"
+                      />
+                    )}
+                    <span className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded bg-black/60 text-white text-xs font-medium">
+                      动图
+                    </span>
+                  </>
+                )}
+                {isSelecting && (
+                  <span
+                    className={`absolute top-2 left-2 flex h-6 w-6 items-center justify-center rounded-full border-2 border-white ${
+                      selectedIds.includes(image.id) ? 'bg-primary' : 'bg-black/30'
+                    }`}
+                  >
+                    {selectedIds.includes(image.id) && <Check className="h-4 w-4 text-white" />}
+                  </span>
+                )}
                 {/* 收藏图标 */}
                 <button
                   className="absolute top-2 right-2 p-2 rounded-full bg-black/50 hover:bg-black/70 transition-colors"
@@ -272,6 +348,21 @@ export default function GalleryPage() {
       )}
     </div>
 
+      <TakenAtDialog
+        open={takenAtOpen}
+        onOpenChange={setTakenAtOpen}
+        images={selectedImages}
+        onCorrected={(updated) => {
+          const takenAtById = new Map(updated.map((item) => [item.id, item.takenAt]))
+          setImages((prev) =>
+            prev.map((img) =>
+              takenAtById.has(img.id) ? { ...img, takenAt: takenAtById.get(img.id)! } : img
+            )
+          )
+          stopSelecting()
+        }}
+      />
+
       {/* 删除确认对话框 */}
       <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
         <DialogContent>
@@ -27,6 +27,7 @@ import {
   ChevronDown,
   ChevronUp,
 } from 'lucide-react'
+import { PlaceholderImage } from '@/components/image/PlaceholderImage'
 
 interface ImageData {
   id: string
@@ -36,6 +37,8 @@ interface ImageData {
   fileSize: number
   width: number
   height: number
+  blurHash?: string | null
+  dominantColor?: string | null
   title: string | null
   description: string | null
   takenAt: string | null
@@ -529,9 +532,11 @@ function SearchContent() {
                   >
                     <CardContent className="p-0">
                       <div className="relative aspect-square overflow-hidden rounded-t-lg bg-gray-100">
-                        <img
+                        <PlaceholderImage
                           src={`/api/images/${image.id}/file?size=medium`}
                           alt={image.title || image.originalName}
+                          blurHash={image.blurHash}
+                          dominantColor={image.dominantColor}
                           className="w-full h-full object-cover group-hover:scale-105 transition-transform"
                         />
                         {image.latitude && image.longitude && (
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/components/ui/toast'
+
+type MetadataPrivacy = 'NONE' | 'STRIP_GPS' | 'COARSE_LOCATION' | 'STRIP_ALL'
+
+interface UserSettings {
+  embedMetadataOnDownload: boolean
+  downloadPrivacy: MetadataPrivacy
+}
+
+const privacyOptions: Array<{ value: MetadataPrivacy; label: string }> = [
+  { value: 'NONE', label: '保留全部元数据' },
+  { value: 'STRIP_GPS', label: '移除 GPS 位置' },
+  { value: 'COARSE_LOCATION', label: '模糊位置（约 11 公里）' },
+  { value: 'STRIP_ALL', label: '移除全部 EXIF / XMP 元数据' },
+]
+
+export default function SettingsPage() {
+  const { status } = useSession()
+  const [settings, setSettings] = useState<UserSettings | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (status !== 'authenticated') return
+    fetch('/api/user/settings')
+      .then(res => res.json())
+      .then(data => {
+        if (data.settings) setSettings(data.settings)
+      })
+      .catch(error => console.error('Failed to fetch settings:', error))
+  }, [status])
+
+  const updateSettings = async (patch: Partial<UserSettings>) => {
+    setIsSaving(true)
+    try {
+      const res = await fetch('/api/user/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setSettings(data.settings)
+        toast({ title: '设置已保存', type: 'success' })
+      } else {
+        toast({ title: '保存失败', description: data.error || '未知错误', type: 'error' })
+      }
+    } catch (error) {
+      console.error('Failed to update settings:', error)
+      toast({ title: '保存失败', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // middleware 已经处理了认证，等待设置加载完成
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center min-h-[calc(100vh-4rem)]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">加载中...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <h1 className="text-3xl font-bold">设置</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>下载</CardTitle>
+          <CardDescription>下载原图时的默认行为，单次下载可通过 embed 和 privacy 参数覆盖</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              id="embed-metadata"
+              className="mt-1 h-4 w-4"
+              checked={settings.embedMetadataOnDownload}
+              disabled={isSaving}
+              onChange={e => updateSettings({ embedMetadataOnDownload: e.target.checked })}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="embed-metadata">写入标题、描述和标签</Label>
+              <p className="text-sm text-muted-foreground">
+                下载的 JPEG、PNG 和 WebP 原图中写入 IPTC / XMP 元数据，图片像素不会重新编码；其他格式原样下载
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>位置和相机信息</Label>
+            <Select
+              value={settings.downloadPrivacy}
+              disabled={isSaving}
+              onValueChange={value => updateSettings({ downloadPrivacy: value as MetadataPrivacy })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {privacyOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              原图下载、XMP 导出以及发送给 AI 分析的图片都会按此处理；移除全部元数据时保留方向和颜色配置文件，缩略图和缩放后的图片本身不含元数据
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
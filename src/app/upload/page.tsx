@@ -1,17 +1,31 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Upload, X, CheckCircle, AlertCircle } from 'lucide-react'
+import { Upload, X, CheckCircle, AlertCircle, FileImage, Copy, Pause, Play, RotateCw } from 'lucide-react'
+import {
+  IMAGE_ACCEPT,
+  resolveImageMimeType,
+  isBrowserDisplayable,
+  isXmpSidecar,
+  findSidecarFor,
+} from '@/lib/image-formats'
+import { uploadFile, TusAbortError } from '@/lib/tus-client'
 
 interface UploadFile {
   file: File
   preview: string
-  status: 'pending' | 'uploading' | 'success' | 'error'
+  status: 'pending' | 'uploading' | 'paused' | 'success' | 'error' | 'skipped'
+  // 上传进度 (0-100)
+  progress: number
   error?: string
+  // 与已有图片近似的数量（仅提示，不影响上传）
+  nearDuplicates?: number
+  // 是否导入了同名的 XMP 附属文件
+  sidecarImported?: boolean
 }
 
 export default function UploadPage() {
@@ -19,34 +33,47 @@ export default function UploadPage() {
   const { status } = useSession()
   const [files, setFiles] = useState<UploadFile[]>([])
   const [isUploading, setIsUploading] = useState(false)
+  // 正在上传的文件对应的 AbortController，用于暂停
+  const controllers = useRef(new Map<File, AbortController>())
+  // 选择的 XMP 附属文件，以小写文件名为 key，图片上传完成后导入
+  const sidecars = useRef(new Map<string, File>())
+  const [sidecarCount, setSidecarCount] = useState(0)
 
-  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(e.target.files || [])
+  // 离开页面时中止所有上传，已接收的部分保留在服务器，下次选择同一文件时续传
+  useEffect(() => {
+    const active = controllers.current
+    return () => active.forEach(controller => controller.abort())
+  }, [])
+
+  // .xmp 附属文件单独保存，其余文件中只保留支持的图片
+  const addFiles = useCallback((selectedFiles: File[]) => {
+    selectedFiles
+      .filter(file => isXmpSidecar(file.name))
+      .forEach(file => sidecars.current.set(file.name.toLowerCase(), file))
+    setSidecarCount(sidecars.current.size)
+
+    const imageFiles = selectedFiles.filter(file => resolveImageMimeType(file.name, file.type))
 
-    const newFiles: UploadFile[] = selectedFiles.map(file => ({
+    const newFiles: UploadFile[] = imageFiles.map(file => ({
       file,
       preview: URL.createObjectURL(file),
       status: 'pending',
+      progress: 0,
     }))
 
     setFiles(prev => [...prev, ...newFiles])
   }, [])
 
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []))
+  }, [addFiles])
+
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
     e.stopPropagation()
 
-    const droppedFiles = Array.from(e.dataTransfer.files)
-    const imageFiles = droppedFiles.filter(file => file.type.startsWith('image/'))
-
-    const newFiles: UploadFile[] = imageFiles.map(file => ({
-      file,
-      preview: URL.createObjectURL(file),
-      status: 'pending',
-    }))
-
-    setFiles(prev => [...prev, ...newFiles])
-  }, [])
+    addFiles(Array.from(e.dataTransfer.files))
+  }, [addFiles])
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -62,54 +89,89 @@ export default function UploadPage() {
     })
   }
 
-  const handleUpload = async () => {
-    if (files.length === 0) return
-
-    setIsUploading(true)
-
-    const formData = new FormData()
-    files.forEach(f => {
-      formData.append('images', f.file)
-    })
+  const updateFile = (file: File, patch: Partial<UploadFile>) => {
+    setFiles(prev => prev.map(f => (f.file === file ? { ...f, ...patch } : f)))
+  }
 
+  // 导入图片对应的 XMP 附属文件，失败时不影响图片本身的上传结果
+  const importSidecar = async (imageId: string, sidecar: File): Promise<boolean> => {
     try {
-      const res = await fetch('/api/images/upload', {
+      const formData = new FormData()
+      formData.append('sidecar', sidecar)
+      const res = await fetch(`/api/images/${imageId}/xmp`, {
         method: 'POST',
         body: formData,
       })
+      return res.ok
+    } catch {
+      return false
+    }
+  }
+
+  // 通过 tus 断点续传上传单个文件，返回最终状态
+  const uploadOne = async (file: File): Promise<UploadFile['status']> => {
+    const controller = new AbortController()
+    controllers.current.set(file, controller)
+    updateFile(file, { status: 'uploading', error: undefined })
+
+    try {
+      const result = await uploadFile(file, {
+        signal: controller.signal,
+        onProgress: (uploaded, total) => {
+          updateFile(file, { progress: Math.round((uploaded / total) * 100) })
+        },
+      })
+
+      const status = result.success ? 'success' : result.skipped ? 'skipped' : 'error'
+      const sidecar = result.success ? findSidecarFor(file.name, sidecars.current) : undefined
+      updateFile(file, {
+        status,
+        error: result.success ? undefined : result.error,
+        nearDuplicates: result.success ? result.nearDuplicates.length : undefined,
+        sidecarImported: result.success && sidecar ? await importSidecar(result.image.id, sidecar) : undefined,
+      })
+      return status
+    } catch (error: any) {
+      const status = error instanceof TusAbortError ? 'paused' : 'error'
+      updateFile(file, { status, error: status === 'error' ? error.message : undefined })
+      return status
+    } finally {
+      controllers.current.delete(file)
+    }
+  }
 
-      const result = await res.json()
+  const pauseFile = (file: File) => {
+    controllers.current.get(file)?.abort()
+  }
 
-      if (!res.ok) {
-        throw new Error(result.error || '上传失败')
-      }
+  const resumeFile = (file: File) => {
+    uploadOne(file)
+  }
 
-      // 更新文件状态
-      setFiles(prev =>
-        prev.map((f, i) => ({
-          ...f,
-          status: result.results[i].success ? 'success' : 'error',
-          error: result.results[i].error,
-        }))
-      )
+  const handleUpload = async () => {
+    const queue = files.filter(f => f.status === 'pending' || f.status === 'error')
+    if (queue.length === 0) return
 
-      // 3秒后跳转到图片列表页
+    setIsUploading(true)
+
+    // 逐个上传，单个文件失败或暂停不影响其他文件
+    const statuses: UploadFile['status'][] = []
+    for (const { file } of queue) {
+      statuses.push(await uploadOne(file))
+    }
+
+    setIsUploading(false)
+
+    // 全部完成后 3 秒跳转到图片列表页
+    if (statuses.every(s => s === 'success' || s === 'skipped')) {
       setTimeout(() => {
         router.push('/gallery')
       }, 3000)
-    } catch (error: any) {
-      setFiles(prev =>
-        prev.map(f => ({
-          ...f,
-          status: 'error',
-          error: error.message,
-        }))
-      )
-    } finally {
-      setIsUploading(false)
     }
   }
 
+  const remainingCount = files.filter(f => f.status === 'pending' || f.status === 'error').length
+
   // middleware 已经处理了认证，等待 session 加载完成
   if (status === 'loading') {
     return (
@@ -128,7 +190,7 @@ export default function UploadPage() {
         <CardHeader>
           <CardTitle className="text-2xl">上传图片</CardTitle>
           <CardDescription>
-            支持批量上传 JPEG, PNG, GIF 和 WebP 格式的图片,单个文件最大 10MB
+            支持批量上传 JPEG, PNG, GIF, WebP, HEIC/HEIF, TIFF 和 DNG 格式的图片,单个文件最大 10MB（TIFF / DNG 最大 50MB），网络中断后可暂停并继续上传
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -141,7 +203,7 @@ export default function UploadPage() {
             <input
               type="file"
               multiple
-              accept="image/*"
+              accept={`${IMAGE_ACCEPT},.xmp`}
               onChange={handleFileSelect}
               className="hidden"
               id="file-input"
@@ -152,8 +214,13 @@ export default function UploadPage() {
                 拖拽图片到这里或点击选择文件
               </p>
               <p className="text-sm text-muted-foreground">
-                支持批量上传多张图片
+                支持批量上传多张图片，可同时选择 Lightroom / darktable 的 .xmp 附属文件导入星级、关键词和标题
               </p>
+              {sidecarCount > 0 && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  已选择 {sidecarCount} 个 XMP 附属文件
+                </p>
+              )}
             </label>
           </div>
 
@@ -169,11 +236,18 @@ export default function UploadPage() {
                     key={index}
                     className="relative group rounded-lg overflow-hidden border"
                   >
-                    <img
-                      src={file.preview}
-                      alt={file.file.name}
-                      className="w-full h-40 object-cover"
-                    />
+                    {isBrowserDisplayable(resolveImageMimeType(file.file.name, file.file.type) || '') ? (
+                      <img
+                        src={file.preview}
+                        alt={file.file.name}
+                        className="w-full h-40 object-cover"
+                      />
+                    ) : (
+                      // HEIC / TIFF / DNG 无法在浏览器中预览，上传后由服务端生成预览
+                      <div className="w-full h-40 flex items-center justify-center bg-muted">
+                        <FileImage className="h-12 w-12 text-muted-foreground" />
+                      </div>
+                    )}
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-opacity flex items-center justify-center">
                       {file.status === 'pending' && (
                         <Button
@@ -188,8 +262,38 @@ export default function UploadPage() {
                       {file.status === 'success' && (
                         <CheckCircle className="h-8 w-8 text-green-500" />
                       )}
+                      {file.status === 'uploading' && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          className="opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={() => pauseFile(file.file)}
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {file.status === 'paused' && (
+                        <Button size="sm" variant="secondary" onClick={() => resumeFile(file.file)}>
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
                       {file.status === 'error' && (
-                        <AlertCircle className="h-8 w-8 text-red-500" />
+                        <>
+                          <AlertCircle className="h-8 w-8 text-red-500 group-hover:hidden" />
+                          {!isUploading && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              className="hidden group-hover:inline-flex"
+                              onClick={() => resumeFile(file.file)}
+                            >
+                              <RotateCw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                      {file.status === 'skipped' && (
+                        <Copy className="h-8 w-8 text-yellow-500" />
                       )}
                     </div>
                     <div className="p-2">
@@ -197,6 +301,31 @@ export default function UploadPage() {
                       <p className="text-xs text-muted-foreground">
                         {(file.file.size / 1024 / 1024).toFixed(2)} MB
                       </p>
+                      {(file.status === 'uploading' || file.status === 'paused') && (
+                        <div className="mt-1 flex items-center gap-2">
+                          <div className="h-1.5 flex-1 rounded-full bg-muted overflow-hidden">
+                            <div
+                              className="h-full bg-primary transition-all"
+                              style={{ width: `${file.progress}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-muted-foreground">
+                            {file.status === 'paused' ? '已暂停' : `${file.progress}%`}
+                          </span>
+                        </div>
+                      )}
+                      {file.status === 'skipped' && (
+                        <p className="text-xs text-yellow-600">{file.error}</p>
+                      )}
+                      {file.status === 'error' && (
+                        <p className="text-xs text-red-600 truncate" title={file.error}>{file.error}</p>
+                      )}
+                      {!!file.nearDuplicates && (
+                        <p className="text-xs text-yellow-600">与 {file.nearDuplicates} 张已有图片相似</p>
+                      )}
+                      {file.sidecarImported && (
+                        <p className="text-xs text-muted-foreground">已导入 XMP 附属文件</p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -209,16 +338,16 @@ export default function UploadPage() {
             <div className="flex gap-4">
               <Button
                 onClick={handleUpload}
-                disabled={isUploading}
+                disabled={isUploading || remainingCount === 0}
                 className="flex-1"
                 size="lg"
               >
-                {isUploading ? '上传中...' : `上传 ${files.length} 张图片`}
+                {isUploading ? '上传中...' : `上传 ${remainingCount} 张图片`}
               </Button>
               <Button
                 variant="outline"
                 onClick={() => setFiles([])}
-                disabled={isUploading}
+                disabled={isUploading || files.some(f => f.status === 'uploading')}
                 size="lg"
               >
                 清空
@@ -10,6 +10,9 @@ interface ImageData {
   id: string
   title: string | null
   originalName: string
+  isAnimated?: boolean
+  // 动图单次播放时长（毫秒）
+  duration?: number | null
 }
 
 interface ImageCarouselProps {
@@ -47,12 +50,12 @@ export default function ImageCarousel({ images, autoPlayInterval = 3000 }: Image
   }
 
   useEffect(() => {
-    let interval: NodeJS.Timeout
-    if (isPlaying && images.length > 1) {
-      interval = setInterval(goToNext, autoPlayInterval)
-    }
-    return () => clearInterval(interval)
-  }, [isPlaying, images.length, autoPlayInterval, goToNext])
+    if (!isPlaying || images.length <= 1) return
+    // 动图至少完整播放一遍再切换
+    const delay = Math.max(autoPlayInterval, images[currentIndex]?.duration || 0)
+    const timeout = setTimeout(goToNext, delay)
+    return () => clearTimeout(timeout)
+  }, [isPlaying, images, currentIndex, autoPlayInterval, goToNext])
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -100,7 +103,7 @@ export default function ImageCarousel({ images, autoPlayInterval = 3000 }: Image
                 >
                   {!imageError[image.id] ? (
                     <img
-                      src={`/api/images/${image.id}/file?size=large`}
+                      src={`/api/images/${image.id}/file?size=${image.isAnimated ? 'animated' : 'large'}`}
                       alt={image.title || image.originalName}
                       className="max-h-full max-w-full object-contain cursor-pointer"
                       onClick={toggleFullscreen}
@@ -202,7 +205,7 @@ export default function ImageCarousel({ images, autoPlayInterval = 3000 }: Image
 
           {!imageError[currentImage.id] ? (
             <img
-              src={`/api/images/${currentImage.id}/file?size=original`}
+              src={`/api/images/${currentImage.id}/file?size=preview`}
               alt={currentImage.title || currentImage.originalName}
               className="max-h-[90vh] max-w-[90vw] object-contain"
               onError={() => setImageError({ ...imageError, [currentImage.id]: true })}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { curveTable, CurvePoint } from '@/lib/adjustments'
+
+const SIZE = 255
+const MAX_POINTS = 16
+// 点击位置与控制点的距离小于该值时选中控制点（曲线坐标）
+const HIT_RADIUS = 10
+
+export const IDENTITY_CURVE: CurvePoint[] = [[0, 0], [255, 255]]
+
+interface CurveEditorProps {
+  points: CurvePoint[] | undefined
+  // 曲线颜色，对应正在编辑的通道
+  color: string
+  // 每次拖动开始前调用，用于记录撤销
+  onBeforeChange: () => void
+  onChange: (points: CurvePoint[]) => void
+}
+
+/**
+ * 曲线编辑器：点击空白处添加控制点，拖动控制点调整，双击删除
+ */
+export function CurveEditor({ points = IDENTITY_CURVE, color, onBeforeChange, onChange }: CurveEditorProps) {
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const [dragging, setDragging] = useState<number | null>(null)
+
+  // 屏幕坐标换算为曲线坐标，y 轴向上
+  const toCurve = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * SIZE)
+    const y = Math.round((1 - (e.clientY - rect.top) / rect.height) * SIZE)
+    return [Math.min(SIZE, Math.max(0, x)), Math.min(SIZE, Math.max(0, y))]
+  }
+
+  const findPoint = ([x, y]: CurvePoint) =>
+    points.findIndex(point => Math.hypot(point[0] - x, point[1] - y) <= HIT_RADIUS)
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const position = toCurve(e)
+    let index = findPoint(position)
+
+    if (index < 0) {
+      // 添加控制点，输入值不能与已有控制点重复
+      if (points.length >= MAX_POINTS || points.some(point => point[0] === position[0])) return
+      onBeforeChange()
+      const next = [...points, position].sort((a, b) => a[0] - b[0])
+      index = next.indexOf(position)
+      onChange(next)
+    } else {
+      onBeforeChange()
+    }
+
+    svgRef.current!.setPointerCapture(e.pointerId)
+    setDragging(index)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null) return
+    const [x, y] = toCurve(e)
+    // 控制点只能在相邻控制点之间移动，保持输入递增
+    const min = dragging > 0 ? points[dragging - 1][0] + 1 : 0
+    const max = dragging < points.length - 1 ? points[dragging + 1][0] - 1 : SIZE
+    const next = points.map((point, i): CurvePoint => (i === dragging ? [Math.min(max, Math.max(min, x)), y] : point))
+    onChange(next)
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null) return
+    svgRef.current!.releasePointerCapture(e.pointerId)
+    setDragging(null)
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = findPoint(toCurve(e))
+    if (index < 0 || points.length <= 2) return
+    onBeforeChange()
+    onChange(points.filter((_, i) => i !== index))
+  }
+
+  const table = curveTable(points)
+  const path = Array.from(table, (value, x) => `${x === 0 ? 'M' : 'L'}${x},${(SIZE - value * SIZE).toFixed(1)}`).join(' ')
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="w-full aspect-square bg-gray-50 border rounded touch-none cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {/* 四等分网格和对角线参考 */}
+      {[64, 128, 191].map(v => (
+        <g key={v} stroke="#e5e7eb" strokeWidth="1">
+          <line x1={v} y1="0" x2={v} y2={SIZE} />
+          <line x1="0" y1={v} x2={SIZE} y2={v} />
+        </g>
+      ))}
+      <line x1="0" y1={SIZE} x2={SIZE} y2="0" stroke="#d1d5db" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke={color} strokeWidth="2" />
+      {points.map(([x, y], i) => (
+        <circle key={i} cx={x} cy={SIZE - y} r="5" fill="white" stroke={color} strokeWidth="2" />
+      ))}
+    </svg>
+  )
+}
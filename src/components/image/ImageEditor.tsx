@@ -3,12 +3,34 @@
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Crop, Palette, RotateCcw, Save } from 'lucide-react'
+import { Aperture, Bookmark, Copy, Crop, FlipHorizontal, FlipVertical, Grid3x3, History, Palette, Redo2, RotateCcw, RotateCw, Save, SlidersHorizontal, Trash2, Undo2 } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { useEffect, useRef, useState } from 'react'
+import type { EditOperation } from '@/lib/image-edits'
+import type { LutInfo } from '@/lib/luts'
+import {
+  Adjustments,
+  applyAdjustments,
+  CubeLut,
+  CurveChannel,
+  DEFAULT_ADJUSTMENTS,
+  isDefaultAdjustments,
+  parseCubeLut,
+} from '@/lib/adjustments'
+import { inscribedScale, MAX_STRAIGHTEN_ANGLE } from '@/lib/edit-geometry'
+import { CurveEditor } from './CurveEditor'
 
 type Props = {
+  imageId: string
   imageUrl: string
-  onSaved?: () => void
+  // 另存为副本时传入新图片的 id
+  onSaved?: (savedImageId: string) => void
 }
 
 // 截图区域类型
@@ -19,22 +41,173 @@ type CropArea = {
   height: number
 }
 
+// 撤销 / 重做记录的编辑器状态
+type EditorState = {
+  pending: EditOperation[]
+  brightness: number
+  contrast: number
+  saturation: number
+  adjustments: Adjustments
+}
+
+type EditorMode = 'edit' | 'adjust' | 'transform' | 'crop'
+
+// 实时预览调整时画布的最大边长
+const ADJUST_PREVIEW_SIZE = 1200
+
+// 曲线编辑器的通道和颜色
+const CURVE_CHANNELS: Array<{ channel: CurveChannel; label: string; color: string }> = [
+  { channel: 'rgb', label: 'RGB', color: '#374151' },
+  { channel: 'red', label: '红', color: '#ef4444' },
+  { channel: 'green', label: '绿', color: '#22c55e' },
+  { channel: 'blue', label: '蓝', color: '#3b82f6' },
+]
+
+// 数值调整滑块
+const ADJUST_SLIDERS: Array<{ key: 'exposure' | 'temperature' | 'tint' | 'highlights' | 'shadows' | 'vignette'; label: string; min: number; max: number; step: number }> = [
+  { key: 'exposure', label: '曝光', min: -3, max: 3, step: 0.1 },
+  { key: 'temperature', label: '色温', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: '色调', min: -100, max: 100, step: 1 },
+  { key: 'highlights', label: '高光', min: -100, max: 100, step: 1 },
+  { key: 'shadows', label: '阴影', min: -100, max: 100, step: 1 },
+  { key: 'vignette', label: '暗角', min: -100, max: 100, step: 1 },
+]
+
+// 用户保存在服务器上的编辑预设
+type EditPreset = {
+  id: string
+  name: string
+  operations: EditOperation[]
+}
+
+// 撤销记录最多保留的步数
+const MAX_UNDO_STEPS = 100
+
+// 裁剪比例：free 为自由裁剪，original 为当前图片的比例
+type AspectRatio = 'free' | 'original' | '1:1' | '4:3' | '3:2' | '16:9'
+
+const ASPECT_RATIOS: Array<{ value: AspectRatio; label: string }> = [
+  { value: 'free', label: '自由' },
+  { value: 'original', label: '原始' },
+  { value: '1:1', label: '1:1' },
+  { value: '4:3', label: '4:3' },
+  { value: '3:2', label: '3:2' },
+  { value: '16:9', label: '16:9' },
+]
+
 // 拖拽类型
 type DragType = 'none' | 'create' | 'move' | 'resize-nw' | 'resize-n' | 'resize-ne' | 'resize-e' | 'resize-se' | 'resize-s' | 'resize-sw' | 'resize-w'
 
-export default function ImageEditor({ imageUrl, onSaved }: Props) {
+const isSameState = (a: EditorState, b: EditorState) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * 按固定比例从锚点向拖动方向扩展截图区域，不超出容器
+ * horizontal / vertical 为扩展方向：-1 向左 / 上，1 向右 / 下，0 以锚点为中心
+ */
+const ratioArea = (
+  anchor: { x: number; y: number },
+  size: { width: number; height: number },
+  horizontal: -1 | 0 | 1,
+  vertical: -1 | 0 | 1,
+  ratio: number,
+  containerWidth: number,
+  containerHeight: number
+): CropArea => {
+  const maxWidth = horizontal < 0 ? anchor.x : horizontal > 0 ? containerWidth - anchor.x : 2 * Math.min(anchor.x, containerWidth - anchor.x)
+  const maxHeight = vertical < 0 ? anchor.y : vertical > 0 ? containerHeight - anchor.y : 2 * Math.min(anchor.y, containerHeight - anchor.y)
+  // 跟随拖动距离较大的一边
+  const width = Math.min(Math.max(size.width, size.height * ratio), maxWidth, maxHeight * ratio)
+  const height = width / ratio
+  return {
+    x: horizontal < 0 ? anchor.x - width : horizontal > 0 ? anchor.x : anchor.x - width / 2,
+    y: vertical < 0 ? anchor.y - height : vertical > 0 ? anchor.y : anchor.y - height / 2,
+    width,
+    height,
+  }
+}
+
+// 编辑记录中每一步的说明
+const describeOperation = (operation: EditOperation): string => {
+  switch (operation.type) {
+    case 'crop':
+      return `裁剪 ${Math.round(operation.width * 100)}% × ${Math.round(operation.height * 100)}%`
+    case 'rotate':
+      return `旋转 ${operation.angle}°`
+    case 'straighten':
+      return `拉直 ${operation.angle}°`
+    case 'resize':
+      return `缩放至 ${operation.width} × ${operation.height}`
+    case 'flip':
+      return '垂直翻转'
+    case 'flop':
+      return '水平翻转'
+    case 'brightness':
+      return `亮度 ${operation.value}%`
+    case 'contrast':
+      return `对比度 ${operation.value}%`
+    case 'saturation':
+      return `饱和度 ${operation.value}%`
+    case 'sharpen':
+      return `锐化 ${operation.sigma}`
+    case 'grayscale':
+      return '黑白'
+    case 'gamma':
+      return `Gamma ${operation.value}`
+    case 'normalize':
+      return '自动色阶'
+    case 'adjust': {
+      const parts = ADJUST_SLIDERS
+        .filter(({ key }) => operation[key] !== 0)
+        .map(({ key, label }) => `${label} ${operation[key] > 0 ? '+' : ''}${operation[key]}`)
+      if (Object.values(operation.curves).some(points => points)) parts.push('曲线')
+      if (operation.lut) parts.push(`滤镜 ${operation.lut.name} ${operation.lut.intensity}%`)
+      return `调整：${parts.join('，')}`
+    }
+  }
+}
+
+export default function ImageEditor({ imageId, imageUrl, onSaved }: Props) {
   const imgRef = useRef<HTMLImageElement | null>(null)
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const cropContainerRef = useRef<HTMLDivElement | null>(null)
 
   const [loaded, setLoaded] = useState(false)
-  const [mode, setMode] = useState<'edit' | 'crop'>('edit')
+  const [mode, setMode] = useState<EditorMode>('edit')
 
   const [brightness, setBrightness] = useState(100)
   const [contrast, setContrast] = useState(100)
   const [saturation, setSaturation] = useState(100)
-
-  const [cropData, setCropData] = useState<string | null>(null)
+  // 高级调整在浏览器中逐像素渲染预览，保存时服务器用同一份计算渲染
+  const [adjustments, setAdjustments] = useState<Adjustments>(DEFAULT_ADJUSTMENTS)
+  const [curveChannel, setCurveChannel] = useState<CurveChannel>('rgb')
+  const [luts, setLuts] = useState<LutInfo[]>([])
+  const [activeLut, setActiveLut] = useState<{ name: string; lut: CubeLut } | null>(null)
+  const lutCacheRef = useRef(new Map<string, CubeLut>())
+  const adjustCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const isAdjusting = !isDefaultAdjustments(adjustments)
+
+  // 本次编辑中待保存的裁剪和变换操作，保存时与色调调整一起追加到编辑栈
+  const [pending, setPending] = useState<EditOperation[]>([])
+  // 服务器按编辑栈和待保存操作渲染的预览图
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  // 变换参数
+  const [angle, setAngle] = useState(0)
+  const [sharpness, setSharpness] = useState(1)
+  const [gamma, setGamma] = useState(1)
+  const [resizeWidth, setResizeWidth] = useState('')
+  const [resizeHeight, setResizeHeight] = useState('')
+  // 服务器上已保存的编辑栈，可以回退到任意一步
+  const [history, setHistory] = useState<EditOperation[]>([])
+  // 本次编辑的撤销 / 重做记录，覆盖色调调整、裁剪和变换
+  const [past, setPast] = useState<EditorState[]>([])
+  const [future, setFuture] = useState<EditorState[]>([])
+  const [presets, setPresets] = useState<EditPreset[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  // 保存或回退后重新加载服务器渲染的图片
+  const [version, setVersion] = useState(0)
+  const displayUrl = version ? `${imageUrl}&v=${version}` : imageUrl
 
   // 截图区域相关状态
   const [cropArea, setCropArea] = useState<CropArea | null>(null)
@@ -42,6 +215,25 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
   const [dragType, setDragType] = useState<DragType>('none')
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
   const [originalCropArea, setOriginalCropArea] = useState<CropArea | null>(null)
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('free')
+  // 固定比例按竖向使用（如 4:3 变为 3:4）
+  const [portrait, setPortrait] = useState(false)
+  const [showGuides, setShowGuides] = useState(true)
+  // 拉直角度，确认裁剪前用 CSS 旋转并放大预览，效果与服务器的内接裁剪一致
+  const [straighten, setStraighten] = useState(0)
+  // 当前预览图的尺寸，用于计算拉直的放大比例
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 })
+
+  // 当前锁定的宽高比（宽 / 高），自由裁剪时为 null
+  const getCropRatio = (): number | null => {
+    if (aspectRatio === 'free') return null
+    if (aspectRatio === 'original') {
+      const img = imgRef.current
+      return img && img.naturalWidth > 0 ? img.naturalWidth / img.naturalHeight : null
+    }
+    const [w, h] = aspectRatio.split(':').map(Number)
+    return portrait ? h / w : w / h
+  }
 
   // 获取鼠标相对于图片的坐标
   const getMousePosition = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -141,14 +333,26 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
     const dx = pos.x - dragStart.x
     const dy = pos.y - dragStart.y
 
+    const ratio = getCropRatio()
+
     if (dragType === 'create') {
       // 创建截图区域
-      const newCropArea = {
-        x: Math.min(dragStart.x, pos.x),
-        y: Math.min(dragStart.y, pos.y),
-        width: Math.abs(pos.x - dragStart.x),
-        height: Math.abs(pos.y - dragStart.y),
-      }
+      const newCropArea = ratio
+        ? ratioArea(
+          dragStart,
+          { width: Math.abs(dx), height: Math.abs(dy) },
+          dx < 0 ? -1 : 1,
+          dy < 0 ? -1 : 1,
+          ratio,
+          containerWidth,
+          containerHeight
+        )
+        : {
+          x: Math.min(dragStart.x, pos.x),
+          y: Math.min(dragStart.y, pos.y),
+          width: Math.abs(pos.x - dragStart.x),
+          height: Math.abs(pos.y - dragStart.y),
+        }
       setCropArea(newCropArea)
     } else if (dragType === 'move' && originalCropArea) {
       // 移动截图区域
@@ -189,6 +393,27 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
         height = Math.max(10, Math.min(height + dy, containerHeight - y))
       }
 
+      if (ratio) {
+        // 锁定比例时以对边（拖动边中点时为对边中点）为锚点
+        const original = originalCropArea
+        const horizontal = dragType.includes('w') ? -1 : dragType.includes('e') ? 1 : 0
+        const vertical = dragType.includes('n') ? -1 : dragType.includes('s') ? 1 : 0
+        const anchor = {
+          x: horizontal < 0 ? original.x + original.width : horizontal > 0 ? original.x : original.x + original.width / 2,
+          y: vertical < 0 ? original.y + original.height : vertical > 0 ? original.y : original.y + original.height / 2,
+        }
+        setCropArea(ratioArea(
+          anchor,
+          { width: horizontal ? width : 0, height: vertical ? height : 0 },
+          horizontal,
+          vertical,
+          ratio,
+          containerWidth,
+          containerHeight
+        ))
+        return
+      }
+
       setCropArea({ x, y, width, height })
     }
   }
@@ -209,6 +434,7 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
 
     const handleLoad = () => {
       setLoaded(true)
+      setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight })
       // 初始加载时绘制图片
       drawImageToCanvas()
     }
@@ -219,7 +445,7 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
     } else {
       img.onload = handleLoad
       img.onerror = () => {
-        console.error('图片加载失败:', imageUrl)
+        console.error('图片加载失败:', displayUrl)
       }
     }
 
@@ -227,7 +453,127 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
       img.onload = null
       img.onerror = null
     }
-  }, [imageUrl, cropData])
+  }, [displayUrl, previewUrl])
+
+  // 读取已保存的编辑栈
+  useEffect(() => {
+    if (!imageId) return
+    fetch(`/api/images/${imageId}/edit`)
+      .then(res => res.json())
+      .then(data => setHistory(data.operations || []))
+      .catch(err => console.error('Failed to fetch edit history:', err))
+  }, [imageId])
+
+  // 读取可用的 LUT 滤镜
+  useEffect(() => {
+    fetch('/api/luts')
+      .then(res => res.json())
+      .then(data => setLuts(data.luts || []))
+      .catch(err => console.error('Failed to fetch LUTs:', err))
+  }, [])
+
+  // 选择滤镜后下载 .cube 文件，解析结果按名称缓存
+  const lutName = adjustments.lut?.name
+  useEffect(() => {
+    if (!lutName) return
+    const cached = lutCacheRef.current.get(lutName)
+    if (cached) {
+      setActiveLut({ name: lutName, lut: cached })
+      return
+    }
+
+    let cancelled = false
+    fetch(`/api/luts/${lutName}`)
+      .then(async res => {
+        if (!res.ok) throw new Error(res.statusText)
+        const lut = parseCubeLut(await res.text())
+        lutCacheRef.current.set(lutName, lut)
+        if (!cancelled) setActiveLut({ name: lutName, lut })
+      })
+      .catch(err => console.error('Failed to load LUT:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [lutName])
+
+  // 在当前预览图上实时渲染高级调整，色调调整仍由 CSS filter 叠加在上面
+  useEffect(() => {
+    const img = imgRef.current
+    const canvas = adjustCanvasRef.current
+    if (!loaded || !isAdjusting || !img || !canvas || mode === 'crop') return
+
+    const frame = requestAnimationFrame(() => {
+      const ratio = Math.min(1, ADJUST_PREVIEW_SIZE / Math.max(img.naturalWidth, img.naturalHeight))
+      const width = Math.max(1, Math.round(img.naturalWidth * ratio))
+      const height = Math.max(1, Math.round(img.naturalHeight * ratio))
+      canvas.width = width
+      canvas.height = height
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) return
+
+      ctx.drawImage(img, 0, 0, width, height)
+      const imageData = ctx.getImageData(0, 0, width, height)
+      // 滤镜尚未下载完成时先不应用，下载后重新渲染
+      const lut = activeLut && activeLut.name === adjustments.lut?.name ? activeLut.lut : null
+      applyAdjustments(imageData.data, width, height, 4, { ...adjustments, lut: lut ? adjustments.lut : null }, lut)
+      ctx.putImageData(imageData, 0, 0)
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [loaded, isAdjusting, adjustments, activeLut, mode, previewUrl, displayUrl])
+
+  // 读取用户的编辑预设
+  useEffect(() => {
+    fetch('/api/user/presets')
+      .then(res => res.json())
+      .then(data => setPresets(data.presets || []))
+      .catch(err => console.error('Failed to fetch edit presets:', err))
+  }, [])
+
+  // 待保存的操作变化时由服务器重新渲染预览，色调调整仍由 CSS filter 实时显示
+  useEffect(() => {
+    if (pending.length === 0) {
+      setPreviewUrl(null)
+      return
+    }
+
+    let cancelled = false
+    let url: string | null = null
+    setIsPreviewing(true)
+    fetch(`/api/images/${imageId}/edit/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operations: pending }),
+    })
+      .then(async res => {
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({ error: '未知错误' }))
+          throw new Error(data.error || res.statusText)
+        }
+        return res.blob()
+      })
+      .then(blob => {
+        if (cancelled) return
+        url = URL.createObjectURL(blob)
+        setPreviewUrl(url)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Failed to render preview:', err)
+        alert('生成预览失败: ' + err.message)
+        // 撤销导致失败的最后一步
+        setPending(prev => prev.slice(0, -1))
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreviewing(false)
+      })
+
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [imageId, pending])
 
   // 实时应用色调调整
   useEffect(() => {
@@ -275,11 +621,40 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
   }
 
 
+  // 选择比例后生成居中的最大截图区域
+  const selectAspectRatio = (value: AspectRatio, nextPortrait = portrait) => {
+    setAspectRatio(value)
+    setPortrait(nextPortrait)
+    const container = cropContainerRef.current
+    const img = imgRef.current
+    if (value === 'free' || !container || !img || img.naturalWidth === 0) return
+
+    const [w, h] = value === 'original' ? [img.naturalWidth, img.naturalHeight] : value.split(':').map(Number)
+    const ratio = value !== 'original' && nextPortrait ? h / w : w / h
+    setCropArea(ratioArea(
+      { x: container.clientWidth / 2, y: container.clientHeight / 2 },
+      { width: container.clientWidth, height: container.clientHeight },
+      0,
+      0,
+      ratio,
+      container.clientWidth,
+      container.clientHeight
+    ))
+  }
+
   const handleCrop = () => {
-    if (!cropArea || cropArea.width === 0 || cropArea.height === 0) {
+    const hasArea = !!cropArea && cropArea.width > 0 && cropArea.height > 0
+    if (!hasArea && straighten === 0) {
       alert('请先选择截图区域')
       return
     }
+    // 只拉直不裁剪
+    if (!cropArea || !hasArea) {
+      addOperation({ type: 'straighten', angle: straighten })
+      setStraighten(0)
+      setMode('edit')
+      return
+    }
 
     const img = imgRef.current
     const container = cropContainerRef.current
@@ -302,32 +677,17 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
       const actualWidth = Math.round(cropArea.width * scaleX)
       const actualHeight = Math.round(cropArea.height * scaleY)
 
-      // 创建临时画布进行裁剪
-      const tempCanvas = document.createElement('canvas')
-      tempCanvas.width = actualWidth
-      tempCanvas.height = actualHeight
-      const ctx = tempCanvas.getContext('2d')
-
-      if (!ctx) {
-        alert('无法创建画布上下文')
-        return
+      // 裁剪区域按比例换算，由服务器从原图裁剪并重新渲染预览
+      // 拉直后的内接矩形与原图比例相同，裁剪区域的比例不受拉直影响
+      const crop: EditOperation = {
+        type: 'crop',
+        left: actualX / naturalWidth,
+        top: actualY / naturalHeight,
+        width: Math.min(actualWidth / naturalWidth, 1),
+        height: Math.min(actualHeight / naturalHeight, 1),
       }
-
-      // 从原图裁剪指定区域
-      ctx.drawImage(
-        img,
-        actualX,
-        actualY,
-        actualWidth,
-        actualHeight,
-        0,
-        0,
-        actualWidth,
-        actualHeight
-      )
-
-      // 保存裁剪后的图片数据
-      setCropData(tempCanvas.toDataURL('image/jpeg', 0.95))
+      addOperation(...(straighten !== 0 ? [{ type: 'straighten', angle: straighten } as EditOperation, crop] : [crop]))
+      setStraighten(0)
       setCropArea(null)
       setMode('edit')
     } catch (err) {
@@ -340,78 +700,158 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
     setCropArea(null)
   }
 
-  // 辅助函数：加载图片
-  const loadImage = (src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image()
-      img.crossOrigin = 'anonymous'
-      img.onload = () => resolve(img)
-      img.onerror = reject
-      img.src = src
-    })
+  const currentState = (): EditorState => ({ pending, brightness, contrast, saturation, adjustments })
+
+  const restoreState = (state: EditorState) => {
+    setPending(state.pending)
+    setAdjustments(state.adjustments)
+    setBrightness(state.brightness)
+    setContrast(state.contrast)
+    setSaturation(state.saturation)
   }
 
-  const saveEdit = async () => {
-    const img = imgRef.current
-    if (!img) {
-      alert('图片未加载')
-      return
+  // 在修改之前调用，记录修改前的状态；新的修改会清空重做记录
+  const recordHistory = () => {
+    setPast(prev => [...prev, currentState()].slice(-MAX_UNDO_STEPS))
+    setFuture([])
+  }
+
+  // 滑块用方向键调整时每一步都可以撤销
+  const recordSliderKey = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'PageUp', 'PageDown', 'Home', 'End'].includes(e.key)) {
+      recordHistory()
     }
+  }
 
-    try {
-      // 创建临时 canvas 来应用滤镜并导出
-      const tempCanvas = document.createElement('canvas')
-      let sourceImg: HTMLImageElement
+  // 跳过与当前状态相同的记录（例如拖动滑块后又回到原值）
+  const popDifferent = (stack: EditorState[], current: EditorState) => {
+    const rest = [...stack]
+    while (rest.length > 0) {
+      const state = rest.pop() as EditorState
+      if (!isSameState(state, current)) return { state, rest }
+    }
+    return { state: null, rest }
+  }
 
-      if (cropData) {
-        sourceImg = await loadImage(cropData)
-      } else {
-        // 重新加载原图以确保 crossOrigin 正确设置
-        sourceImg = await loadImage(img.src)
-      }
+  const undo = () => {
+    const current = currentState()
+    const { state, rest } = popDifferent(past, current)
+    setPast(rest)
+    if (!state) return
+    setFuture(prev => [...prev, current])
+    restoreState(state)
+  }
 
-      tempCanvas.width = sourceImg.naturalWidth || sourceImg.width
-      tempCanvas.height = sourceImg.naturalHeight || sourceImg.height
+  const redo = () => {
+    const current = currentState()
+    const { state, rest } = popDifferent(future, current)
+    setFuture(rest)
+    if (!state) return
+    setPast(prev => [...prev, current])
+    restoreState(state)
+  }
 
-      if (tempCanvas.width === 0 || tempCanvas.height === 0) {
-        alert('图片尺寸无效')
-        return
-      }
+  const addOperation = (...operations: EditOperation[]) => {
+    recordHistory()
+    setPending(prev => [...prev, ...operations])
+  }
 
-      const ctx = tempCanvas.getContext('2d')
-      if (!ctx) {
-        alert('无法创建画布上下文')
-        return
-      }
+  const updateAdjustments = (changes: Partial<Adjustments>) => {
+    setAdjustments(prev => ({ ...prev, ...changes }))
+  }
 
-      // 应用滤镜
-      ctx.filter = `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`
-      ctx.drawImage(sourceImg, 0, 0)
+  // 待保存的操作加上高级调整和色调调整，保存编辑和保存预设使用相同的顺序
+  const collectOperations = (): EditOperation[] => {
+    // 与预览的顺序一致：先裁剪和变换，再应用高级调整，最后依次调整亮度、对比度和饱和度
+    const operations: EditOperation[] = [...pending]
+    if (isAdjusting) operations.push({ type: 'adjust', ...adjustments })
+    if (brightness !== 100) operations.push({ type: 'brightness', value: brightness })
+    if (contrast !== 100) operations.push({ type: 'contrast', value: contrast })
+    if (saturation !== 100) operations.push({ type: 'saturation', value: saturation })
+    return operations
+  }
 
-      const blob: Blob | null = await new Promise<Blob | null>((resolve) =>
-        tempCanvas.toBlob((b) => resolve(b), 'image/jpeg', 0.92)
-      )
+  const savePreset = async () => {
+    const operations = collectOperations()
+    if (operations.length === 0) {
+      alert('没有可以保存为预设的更改')
+      return
+    }
+    const name = prompt('预设名称（同名预设会被覆盖）')?.trim()
+    if (!name) return
 
-      if (!blob) {
-        alert('无法生成图片数据，请检查浏览器是否支持')
-        return
+    try {
+      const res = await fetch('/api/user/presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, operations }),
+      })
+      const data = await res.json().catch(() => ({ error: '未知错误' }))
+      if (res.ok) {
+        setPresets(prev => [...prev.filter(preset => preset.name !== name), data.preset]
+          .sort((a, b) => a.name.localeCompare(b.name)))
+      } else {
+        alert('保存预设失败: ' + (data.error || res.statusText))
       }
+    } catch (err) {
+      console.error('保存预设失败:', err)
+      alert('保存预设失败')
+    }
+  }
 
-      const form = new FormData()
-      form.append('image', blob, 'edited.jpg')
-      form.append('saveAs', 'overwrite')
+  // 预设的操作按原顺序追加到待保存操作之后，由服务器渲染预览
+  const applyPreset = (preset: EditPreset) => {
+    recordHistory()
+    setPending(prev => [...prev, ...preset.operations])
+  }
 
-      // 构建 API URL
-      const apiUrl = `/api/images/${window.location.pathname.split('/').pop()}/edit`
+  const deletePreset = async (preset: EditPreset) => {
+    if (!confirm(`确认删除预设「${preset.name}」吗？`)) return
+    try {
+      const res = await fetch(`/api/user/presets/${preset.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        setPresets(prev => prev.filter(item => item.id !== preset.id))
+      } else {
+        const data = await res.json().catch(() => ({ error: '未知错误' }))
+        alert('删除预设失败: ' + (data.error || res.statusText))
+      }
+    } catch (err) {
+      console.error('删除预设失败:', err)
+      alert('删除预设失败')
+    }
+  }
 
-      const res = await fetch(apiUrl, {
+  const applyResize = () => {
+    const width = Number(resizeWidth)
+    const height = Number(resizeHeight)
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      alert('请输入有效的宽度和高度')
+      return
+    }
+    addOperation({ type: 'resize', width, height, fit: 'inside' })
+  }
+
+  // overwrite 覆盖当前图片；copy 另存为一张新图片，当前图片保持不变
+  const saveEdit = async (saveAs: 'overwrite' | 'copy' = 'overwrite') => {
+    const operations = collectOperations()
+    if (operations.length === 0) {
+      alert('没有需要保存的更改')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/images/${imageId}/edit`, {
         method: 'POST',
-        body: form,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operations, saveAs }),
       })
 
       if (res.ok) {
-        alert('保存成功')
-        onSaved && onSaved()
+        const data = await res.json()
+        if (saveAs === 'overwrite') setHistory(data.operations)
+        alert(saveAs === 'copy' ? '已另存为副本' : '保存成功')
+        onSaved && onSaved(data.image.id)
       } else {
         const data = await res.json().catch(() => ({ error: '未知错误' }))
         alert('保存失败: ' + (data.error || res.statusText))
@@ -419,20 +859,93 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
     } catch (err) {
       console.error('保存失败:', err)
       alert('保存失败: ' + (err instanceof Error ? err.message : '未知错误'))
+    } finally {
+      setIsSaving(false)
     }
   }
 
-  const resetAll = () => {
+  // 回退到编辑栈的第 step 步，0 表示恢复原图
+  const revertTo = async (step: number) => {
+    const message = step === 0 ? '确认恢复原图吗？所有编辑都会被撤销' : `确认回退到第 ${step} 步吗？之后的编辑会被撤销`
+    if (!confirm(message)) return
+
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/images/${imageId}/edit/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ step }),
+      })
+      const data = await res.json().catch(() => ({ error: '未知错误' }))
+      if (res.ok) {
+        setHistory(data.operations)
+        clearChanges()
+        // 编辑栈已变化，之前的撤销记录不再适用
+        setPast([])
+        setFuture([])
+        setVersion(Date.now())
+      } else {
+        alert('回退失败: ' + (data.error || res.statusText))
+      }
+    } catch (err) {
+      console.error('回退失败:', err)
+      alert('回退失败')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const clearChanges = () => {
+    setAdjustments(DEFAULT_ADJUSTMENTS)
+    setStraighten(0)
     setBrightness(100)
     setContrast(100)
     setSaturation(100)
-    setCropData(null)
+    setPending([])
+    setAngle(0)
     setCropArea(null)
     if (imgRef.current) {
       drawImageToCanvas()
     }
   }
 
+  // 重置所有更改，可以撤销
+  const resetAll = () => {
+    recordHistory()
+    clearChanges()
+  }
+
+  // 快捷键：Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做，C 裁剪，R 重置
+  // 监听器只注册一次，通过 ref 调用最新的处理函数
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>()
+  shortcutRef.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null
+    // 在文本框中输入时不处理快捷键
+    if (target && (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement ||
+      (target instanceof HTMLInputElement && target.type !== 'range'))) return
+    if (isSaving || e.altKey) return
+
+    const key = e.key.toLowerCase()
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z' && !e.shiftKey) undo()
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo()
+      else return
+    } else if (key === 'c' && !e.shiftKey) {
+      setMode('crop')
+    } else if (key === 'r' && !e.shiftKey) {
+      resetAll()
+    } else {
+      return
+    }
+    e.preventDefault()
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current && shortcutRef.current(e)
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
 
   return (
     <div className="space-y-4">
@@ -440,8 +953,14 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
         .crop-container {
           position: relative;
           display: inline-block;
+          overflow: hidden;
           user-select: none;
         }
+        .crop-guide {
+          position: absolute;
+          background: rgba(255, 255, 255, 0.6);
+          pointer-events: none;
+        }
         .crop-overlay {
           position: absolute;
           top: 0;
@@ -506,18 +1025,29 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                 )}
 
                 {/* 图片显示区域 */}
-                {mode === 'edit' ? (
-                  <img
-                    ref={imgRef}
-                    src={cropData || imageUrl}
-                    alt="编辑图片"
-                    crossOrigin="anonymous"
-                    className="max-w-full h-auto block mx-auto"
-                    style={{
-                      display: loaded ? 'block' : 'none',
-                      filter: `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`,
-                    }}
-                  />
+                {mode !== 'crop' ? (
+                  <>
+                    <img
+                      ref={imgRef}
+                      src={previewUrl || displayUrl}
+                      alt="编辑图片"
+                      crossOrigin="anonymous"
+                      className="max-w-full h-auto block mx-auto"
+                      style={{
+                        display: loaded && !isAdjusting ? 'block' : 'none',
+                        filter: `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`,
+                      }}
+                    />
+                    {/* 有高级调整时显示在画布上渲染的结果 */}
+                    <canvas
+                      ref={adjustCanvasRef}
+                      className="max-w-full h-auto block mx-auto"
+                      style={{
+                        display: loaded && isAdjusting ? 'block' : 'none',
+                        filter: `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`,
+                      }}
+                    />
+                  </>
                 ) : (
                   <div
                     ref={cropContainerRef}
@@ -532,11 +1062,15 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                   >
                     <img
                       ref={imgRef}
-                      src={cropData || imageUrl}
+                      src={previewUrl || displayUrl}
                       alt="裁剪图片"
                       crossOrigin="anonymous"
                       className="max-w-full h-auto block"
                       draggable={false}
+                      style={straighten !== 0 && naturalSize.width > 0 ? {
+                        // 旋转后放大到内接矩形填满容器
+                        transform: `rotate(${straighten}deg) scale(${1 / inscribedScale(naturalSize.width, naturalSize.height, straighten)})`,
+                      } : undefined}
                     />
                     {/* 截图区域 */}
                     {cropArea && cropArea.width > 0 && cropArea.height > 0 && (
@@ -553,6 +1087,15 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                         <div className="crop-size-info">
                           {Math.round(cropArea.width)} × {Math.round(cropArea.height)}
                         </div>
+                        {/* 三分线 */}
+                        {showGuides && (
+                          <>
+                            <div className="crop-guide" style={{ left: '33.333%', top: 0, bottom: 0, width: 1 }} />
+                            <div className="crop-guide" style={{ left: '66.667%', top: 0, bottom: 0, width: 1 }} />
+                            <div className="crop-guide" style={{ top: '33.333%', left: 0, right: 0, height: 1 }} />
+                            <div className="crop-guide" style={{ top: '66.667%', left: 0, right: 0, height: 1 }} />
+                          </>
+                        )}
                         {/* 8个拖拽点 */}
                         <div className="crop-handle nw" />
                         <div className="crop-handle n" />
@@ -583,12 +1126,20 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
             <CardContent>
               <Tabs
                 value={mode}
-                onValueChange={(v: string) => setMode(v as 'edit' | 'crop')}
+                onValueChange={(v: string) => setMode(v as EditorMode)}
               >
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className="grid w-full grid-cols-4">
                   <TabsTrigger value="edit" className="flex items-center gap-2">
                     <Palette className="h-4 w-4" />
-                    色调调整
+                    色调
+                  </TabsTrigger>
+                  <TabsTrigger value="adjust" className="flex items-center gap-2">
+                    <Aperture className="h-4 w-4" />
+                    高级
+                  </TabsTrigger>
+                  <TabsTrigger value="transform" className="flex items-center gap-2">
+                    <SlidersHorizontal className="h-4 w-4" />
+                    变换
                   </TabsTrigger>
                   <TabsTrigger value="crop" className="flex items-center gap-2">
                     <Crop className="h-4 w-4" />
@@ -607,6 +1158,8 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                         min="50"
                         max="150"
                         value={brightness}
+                        onPointerDown={recordHistory}
+                        onKeyDown={recordSliderKey}
                         onChange={(e) => setBrightness(Number(e.target.value))}
                         className="w-full"
                       />
@@ -625,6 +1178,8 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                         min="50"
                         max="150"
                         value={contrast}
+                        onPointerDown={recordHistory}
+                        onKeyDown={recordSliderKey}
                         onChange={(e) => setContrast(Number(e.target.value))}
                         className="w-full"
                       />
@@ -643,6 +1198,8 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                         min="0"
                         max="200"
                         value={saturation}
+                        onPointerDown={recordHistory}
+                        onKeyDown={recordSliderKey}
                         onChange={(e) => setSaturation(Number(e.target.value))}
                         className="w-full"
                       />
@@ -654,6 +1211,252 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                   </div>
                 </TabsContent>
 
+                {/* 高级调整在浏览器中实时预览，保存时由服务器按原图分辨率用同样的计算渲染 */}
+                <TabsContent value="adjust" className="mt-4 space-y-4">
+                  {ADJUST_SLIDERS.map(({ key, label, min, max, step }) => (
+                    <div key={key}>
+                      <label className="flex justify-between text-sm font-medium mb-2">
+                        <span>{label}: {adjustments[key]}</span>
+                        {adjustments[key] !== 0 && (
+                          <button
+                            type="button"
+                            className="text-xs text-gray-500 hover:underline"
+                            onClick={() => {
+                              recordHistory()
+                              updateAdjustments({ [key]: 0 })
+                            }}
+                          >
+                            还原
+                          </button>
+                        )}
+                      </label>
+                      <input
+                        type="range"
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={adjustments[key]}
+                        onPointerDown={recordHistory}
+                        onKeyDown={recordSliderKey}
+                        onChange={(e) => updateAdjustments({ [key]: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+                  ))}
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium">曲线</span>
+                      <div className="flex gap-1">
+                        {CURVE_CHANNELS.map(({ channel, label }) => (
+                          <Button
+                            key={channel}
+                            variant={curveChannel === channel ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => setCurveChannel(channel)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <CurveEditor
+                      points={adjustments.curves[curveChannel]}
+                      color={CURVE_CHANNELS.find(({ channel }) => channel === curveChannel)!.color}
+                      onBeforeChange={recordHistory}
+                      onChange={(points) => updateAdjustments({ curves: { ...adjustments.curves, [curveChannel]: points } })}
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>点击添加控制点，双击删除</span>
+                      {adjustments.curves[curveChannel] && (
+                        <button
+                          type="button"
+                          className="hover:underline"
+                          onClick={() => {
+                            recordHistory()
+                            updateAdjustments({ curves: { ...adjustments.curves, [curveChannel]: undefined } })
+                          }}
+                        >
+                          还原曲线
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">滤镜（LUT）</label>
+                    <Select
+                      value={adjustments.lut?.name || 'none'}
+                      onValueChange={(name: string) => {
+                        recordHistory()
+                        updateAdjustments({ lut: name === 'none' ? null : { name, intensity: adjustments.lut?.intensity ?? 100 } })
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">无</SelectItem>
+                        {luts.map(lut => (
+                          <SelectItem key={lut.name} value={lut.name}>{lut.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {adjustments.lut && (
+                      <div className="mt-2">
+                        <label className="block text-xs text-gray-500 mb-1">强度: {adjustments.lut.intensity}%</label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={adjustments.lut.intensity}
+                          onPointerDown={recordHistory}
+                          onKeyDown={recordSliderKey}
+                          onChange={(e) => {
+                            const intensity = Number(e.target.value)
+                            setAdjustments(prev => prev.lut ? { ...prev, lut: { ...prev.lut, intensity } } : prev)
+                          }}
+                          className="w-full"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      锐化（服务器渲染预览）: {sharpness}
+                    </label>
+                    <div className="flex gap-2 items-center">
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="5"
+                        step="0.5"
+                        value={sharpness}
+                        onChange={(e) => setSharpness(Number(e.target.value))}
+                        className="w-full"
+                      />
+                      <Button size="sm" onClick={() => addOperation({ type: 'sharpen', sigma: sharpness })}>应用</Button>
+                    </div>
+                  </div>
+
+                </TabsContent>
+
+                {/* 变换由服务器按原图分辨率渲染，这里显示的是低分辨率预览 */}
+                <TabsContent value="transform" className="mt-4 space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      旋转: {angle}°
+                    </label>
+                    <input
+                      type="range"
+                      min="-180"
+                      max="180"
+                      value={angle}
+                      onChange={(e) => setAngle(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex gap-2 mt-2">
+                      <Button variant="outline" size="sm" onClick={() => addOperation({ type: 'rotate', angle: -90 })}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => addOperation({ type: 'rotate', angle: 90 })}>
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        disabled={angle === 0}
+                        onClick={() => {
+                          addOperation({ type: 'rotate', angle })
+                          setAngle(0)
+                        }}
+                      >
+                        应用旋转
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="flex-1 flex items-center gap-2" onClick={() => addOperation({ type: 'flop' })}>
+                      <FlipHorizontal className="h-4 w-4" />
+                      水平翻转
+                    </Button>
+                    <Button variant="outline" className="flex-1 flex items-center gap-2" onClick={() => addOperation({ type: 'flip' })}>
+                      <FlipVertical className="h-4 w-4" />
+                      垂直翻转
+                    </Button>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">缩放（按原图分辨率，保持比例）</label>
+                    <div className="flex gap-2 items-center">
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder="宽"
+                        value={resizeWidth}
+                        onChange={(e) => setResizeWidth(e.target.value)}
+                        className="w-full rounded border px-2 py-1 text-sm"
+                      />
+                      <span className="text-gray-500">×</span>
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder="高"
+                        value={resizeHeight}
+                        onChange={(e) => setResizeHeight(e.target.value)}
+                        className="w-full rounded border px-2 py-1 text-sm"
+                      />
+                      <Button size="sm" onClick={applyResize}>应用</Button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Gamma: {gamma}
+                    </label>
+                    <div className="flex gap-2 items-center">
+                      <input
+                        type="range"
+                        min="0.2"
+                        max="3"
+                        step="0.1"
+                        value={gamma}
+                        onChange={(e) => setGamma(Number(e.target.value))}
+                        className="w-full"
+                      />
+                      <Button size="sm" disabled={gamma === 1} onClick={() => addOperation({ type: 'gamma', value: gamma })}>应用</Button>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="flex-1" onClick={() => addOperation({ type: 'grayscale' })}>
+                      黑白
+                    </Button>
+                    <Button variant="outline" className="flex-1" onClick={() => addOperation({ type: 'normalize' })}>
+                      自动色阶
+                    </Button>
+                  </div>
+
+                  {pending.length > 0 && (
+                    <div className="text-sm space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">待保存{isPreviewing ? '（预览生成中...）' : ''}</span>
+                        <Button variant="ghost" size="sm" onClick={undo}>
+                          撤销
+                        </Button>
+                      </div>
+                      <ol className="text-gray-600">
+                        {pending.map((operation, index) => (
+                          <li key={index}>{index + 1}. {describeOperation(operation)}</li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+                </TabsContent>
+
                 <TabsContent value="crop" className="mt-4 space-y-4">
                   <div className="text-sm text-gray-600 space-y-2">
                     <p>• 在图片上按住鼠标左键并拖拽选择截图区域</p>
@@ -662,6 +1465,117 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                     <p>• 选择完成后点击「确认裁剪」应用更改</p>
                   </div>
 
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium">比例</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2"
+                          disabled={aspectRatio === 'free' || aspectRatio === 'original' || aspectRatio === '1:1'}
+                          onClick={() => selectAspectRatio(aspectRatio, !portrait)}
+                        >
+                          {portrait ? '竖向' : '横向'}
+                        </Button>
+                        <Button
+                          variant={showGuides ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2"
+                          title="三分线"
+                          onClick={() => setShowGuides(prev => !prev)}
+                        >
+                          <Grid3x3 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-1">
+                      {ASPECT_RATIOS.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          variant={aspectRatio === value ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => selectAspectRatio(value)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="flex justify-between text-sm font-medium mb-2">
+                      <span>拉直: {straighten}°</span>
+                      {straighten !== 0 && (
+                        <button type="button" className="text-xs text-gray-500 hover:underline" onClick={() => setStraighten(0)}>
+                          还原
+                        </button>
+                      )}
+                    </label>
+                    <input
+                      type="range"
+                      min={-MAX_STRAIGHTEN_ANGLE}
+                      max={MAX_STRAIGHTEN_ANGLE}
+                      step="0.1"
+                      value={straighten}
+                      onChange={(e) => setStraighten(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">旋转后自动裁掉空白角，保持原比例</p>
+                  </div>
+
+                  {/* 旋转和翻转由服务器渲染预览，之前选择的截图区域会被清除 */}
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      title="向左旋转 90°"
+                      onClick={() => {
+                        addOperation({ type: 'rotate', angle: -90 })
+                        setCropArea(null)
+                      }}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      title="向右旋转 90°"
+                      onClick={() => {
+                        addOperation({ type: 'rotate', angle: 90 })
+                        setCropArea(null)
+                      }}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      title="水平翻转"
+                      onClick={() => {
+                        addOperation({ type: 'flop' })
+                        setCropArea(null)
+                      }}
+                    >
+                      <FlipHorizontal className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      title="垂直翻转"
+                      onClick={() => {
+                        addOperation({ type: 'flip' })
+                        setCropArea(null)
+                      }}
+                    >
+                      <FlipVertical className="h-4 w-4" />
+                    </Button>
+                  </div>
+
                   <div className="flex gap-2">
                     <Button
                       variant="outline"
@@ -675,7 +1589,7 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
                     <Button
                       onClick={handleCrop}
                       className="flex-1"
-                      disabled={!cropArea || cropArea.width === 0 || cropArea.height === 0}
+                      disabled={straighten === 0 && (!cropArea || cropArea.width === 0 || cropArea.height === 0)}
                     >
                       确认裁剪
                     </Button>
@@ -684,23 +1598,130 @@ export default function ImageEditor({ imageUrl, onSaved }: Props) {
               </Tabs>
 
               <div className="mt-6 flex flex-col gap-2">
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={undo}
+                    className="flex-1 flex items-center gap-2"
+                    disabled={past.length === 0}
+                    title="撤销 (Ctrl+Z)"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    撤销
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={redo}
+                    className="flex-1 flex items-center gap-2"
+                    disabled={future.length === 0}
+                    title="重做 (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 className="h-4 w-4" />
+                    重做
+                  </Button>
+                </div>
                 <Button
-                  onClick={saveEdit}
+                  onClick={() => saveEdit()}
                   className="w-full flex items-center gap-2"
+                  disabled={isSaving}
                 >
                   <Save className="h-4 w-4" />
-                  保存并覆盖
+                  {isSaving ? '保存中...' : '保存'}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => saveEdit('copy')}
+                  className="w-full flex items-center gap-2"
+                  disabled={isSaving}
+                >
+                  <Copy className="h-4 w-4" />
+                  另存为副本
                 </Button>
                 <Button
                   variant="outline"
                   onClick={resetAll}
                   className="w-full"
+                  title="重置 (R)"
                 >
                   重置所有更改
                 </Button>
+                <p className="text-xs text-gray-500">
+                  快捷键：Ctrl+Z 撤销，Ctrl+Shift+Z 重做，C 裁剪，R 重置
+                </p>
               </div>
             </CardContent>
           </Card>
+
+          {/* 编辑预设：保存当前更改，应用到其他图片 */}
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Bookmark className="h-4 w-4" />
+                编辑预设
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {presets.length === 0 ? (
+                <p className="text-sm text-gray-500">尚无预设，可以把当前更改保存为预设</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {presets.map(preset => (
+                    <li key={preset.id} className="flex items-center justify-between gap-2">
+                      <span className="truncate" title={preset.operations.map(describeOperation).join('，')}>
+                        {preset.name}
+                        <span className="text-gray-500">（{preset.operations.length} 步）</span>
+                      </span>
+                      <div className="flex gap-1 shrink-0">
+                        <Button variant="outline" size="sm" disabled={isSaving} onClick={() => applyPreset(preset)}>
+                          应用
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deletePreset(preset)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button variant="outline" className="w-full" onClick={savePreset}>
+                保存当前更改为预设
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* 编辑记录：原图始终保留，可以回退到任意一步 */}
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <History className="h-4 w-4" />
+                编辑记录
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-gray-500">尚未编辑，保存后原图会被保留</p>
+              ) : (
+                <ol className="space-y-2 text-sm">
+                  <li className="flex items-center justify-between">
+                    <span className="text-gray-500">原图</span>
+                    <Button variant="outline" size="sm" disabled={isSaving} onClick={() => revertTo(0)}>
+                      恢复原图
+                    </Button>
+                  </li>
+                  {history.map((operation, index) => (
+                    <li key={index} className="flex items-center justify-between">
+                      <span>{index + 1}. {describeOperation(operation)}</span>
+                      {index + 1 < history.length && (
+                        <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => revertTo(index + 1)}>
+                          回退到此步
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -0,0 +1,223 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Columns2, History, Loader2, SplitSquareHorizontal } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/components/ui/toast'
+
+interface ImageVersion {
+  id: string
+  mimeType: string
+  fileSize: number
+  width: number
+  height: number
+  editHistory: unknown[] | null
+  createdAt: string
+  isCurrent: boolean
+  author: { id: string; username: string; nickname?: string | null }
+}
+
+interface ImageVersionsProps {
+  imageId: string
+  // 恢复版本后重新加载图片
+  onRestored?: () => void
+}
+
+// 编辑栈为空的版本是首次编辑前的原图
+function versionLabel(version: ImageVersion, index: number, total: number): string {
+  const name = version.editHistory && version.editHistory.length > 0
+    ? `版本 ${total - index}（${version.editHistory.length} 步编辑）`
+    : '原图'
+  return `${name} · ${new Date(version.createdAt).toLocaleString()}`
+}
+
+export function ImageVersions({ imageId, onRestored }: ImageVersionsProps) {
+  const [versions, setVersions] = useState<ImageVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [leftId, setLeftId] = useState<string>('')
+  const [rightId, setRightId] = useState<string>('')
+  const [mode, setMode] = useState<'side' | 'slider'>('side')
+  const [split, setSplit] = useState(50)
+  const { toast } = useToast()
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/images/${imageId}/versions`)
+      const data = await res.json()
+      if (!res.ok) return
+      const list: ImageVersion[] = data.versions
+      setVersions(list)
+      // 默认对比最早的版本（通常是原图）和当前版本
+      const current = list.find(version => version.isCurrent) || list[0]
+      const earliest = list[list.length - 1]
+      setLeftId(prev => list.some(version => version.id === prev) ? prev : earliest?.id || '')
+      setRightId(prev => list.some(version => version.id === prev) ? prev : current?.id || '')
+    } catch (err) {
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [imageId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const restore = async (versionId: string) => {
+    if (!confirm('确认恢复到该版本？当前版本会保留在版本记录中')) return
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/images/${imageId}/versions/${versionId}/restore`, { method: 'POST' })
+      const data = await res.json()
+      if (res.ok) {
+        toast({ title: '已恢复到该版本', type: 'success' })
+        await fetchVersions()
+        onRestored && onRestored()
+      } else {
+        toast({ title: '恢复失败', description: data.error || '未知错误', type: 'error' })
+      }
+    } catch (err) {
+      console.error(err)
+      toast({ title: '恢复失败', type: 'error' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const remove = async (versionId: string) => {
+    if (!confirm('确认删除该版本？删除后无法恢复')) return
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/images/${imageId}/versions/${versionId}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (res.ok) {
+        toast({ title: '已删除版本', type: 'success' })
+        await fetchVersions()
+      } else {
+        toast({ title: '删除失败', description: data.error || '未知错误', type: 'error' })
+      }
+    } catch (err) {
+      console.error(err)
+      toast({ title: '删除失败', type: 'error' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        加载版本记录...
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground">尚无版本，保存编辑后会自动记录</p>
+  }
+
+  const fileUrl = (versionId: string) => `/api/images/${imageId}/versions/${versionId}/file?size=preview`
+  const renderPicker = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-72">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version, index) => (
+          <SelectItem key={version.id} value={version.id}>
+            {versionLabel(version, index, versions.length)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+  const left = versions.find(version => version.id === leftId)
+  const right = versions.find(version => version.id === rightId)
+
+  return (
+    <div className="space-y-4">
+      {/* 版本对比：并排或滑块 */}
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {renderPicker(leftId, setLeftId)}
+            {renderPicker(rightId, setRightId)}
+            <Button variant={mode === 'side' ? 'default' : 'outline'} size="sm" onClick={() => setMode('side')}>
+              <Columns2 className="h-4 w-4 mr-1" />
+              并排
+            </Button>
+            <Button variant={mode === 'slider' ? 'default' : 'outline'} size="sm" onClick={() => setMode('slider')}>
+              <SplitSquareHorizontal className="h-4 w-4 mr-1" />
+              滑块
+            </Button>
+          </div>
+
+          {left && right && (mode === 'side' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <img src={fileUrl(left.id)} alt="对比左侧版本" className="w-full h-auto rounded" />
+              <img src={fileUrl(right.id)} alt="对比右侧版本" className="w-full h-auto rounded" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {/* 右侧版本在下层，左侧版本按滑块位置裁剪后叠在上层 */}
+              <div className="relative select-none">
+                <img src={fileUrl(right.id)} alt="对比右侧版本" className="w-full h-auto rounded" />
+                <img
+                  src={fileUrl(left.id)}
+                  alt="对比左侧版本"
+                  className="absolute inset-0 w-full h-full object-contain rounded"
+                  style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${split}%` }} />
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={split}
+                onChange={(e) => setSplit(Number(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 版本列表 */}
+      <ol className="space-y-2 text-sm">
+        {versions.map((version, index) => (
+          <li key={version.id} className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <History className="h-4 w-4 text-muted-foreground" />
+              <span>{versionLabel(version, index, versions.length)}</span>
+              <span className="text-muted-foreground">
+                {version.width} × {version.height} · {version.author.nickname || version.author.username}
+              </span>
+              {version.isCurrent && <Badge variant="secondary">当前</Badge>}
+            </div>
+            {!version.isCurrent && (
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" disabled={busy} onClick={() => restore(version.id)}>
+                  恢复
+                </Button>
+                <Button variant="ghost" size="sm" disabled={busy} onClick={() => remove(version.id)}>
+                  删除
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Loader2, Search } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+
+type MetadataValue =
+  | string
+  | number
+  | boolean
+  | MetadataValue[]
+  | { [key: string]: MetadataValue }
+
+type ImageMetadata = Record<string, Record<string, MetadataValue>>
+
+interface NormalizedFields {
+  flash: string | null
+  whiteBalance: string | null
+  exposureProgram: string | null
+  meteringMode: string | null
+  exposureBias: number | null
+  lensSerialNumber: string | null
+  bodySerialNumber: string | null
+  artist: string | null
+  copyright: string | null
+  caption: string | null
+  keywords: string[] | null
+  rating: number | null
+}
+
+interface MetadataInspectorProps {
+  imageId: string
+}
+
+// 分组显示名称和顺序，未列出的分组（其他 XMP 命名空间）排在后面
+const GROUP_LABELS: Record<string, string> = {
+  ifd0: '基本信息 (IFD0)',
+  exif: '拍摄参数 (EXIF)',
+  gps: 'GPS',
+  interop: '互操作 (Interop)',
+  iptc: 'IPTC',
+  xmp: 'XMP',
+  dc: 'XMP Dublin Core',
+  photoshop: 'XMP Photoshop',
+  aux: 'XMP 附加信息',
+  icc: 'ICC 配置文件',
+  jfif: 'JFIF',
+  ihdr: 'PNG 头信息',
+}
+
+const GROUP_ORDER = Object.keys(GROUP_LABELS)
+
+const FIELD_LABELS: Array<[keyof NormalizedFields, string]> = [
+  ['flash', '闪光灯'],
+  ['whiteBalance', '白平衡'],
+  ['exposureProgram', '曝光程序'],
+  ['meteringMode', '测光模式'],
+  ['exposureBias', '曝光补偿'],
+  ['lensSerialNumber', '镜头序列号'],
+  ['bodySerialNumber', '机身序列号'],
+  ['artist', '作者'],
+  ['copyright', '版权'],
+  ['caption', '说明'],
+  ['rating', '星级'],
+]
+
+function formatValue(value: MetadataValue): string {
+  if (Array.isArray(value)) return value.map(formatValue).join(', ')
+  if (typeof value === 'object') {
+    // XMP 多语言值
+    if ('value' in value && typeof value.value !== 'object') return String(value.value)
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function formatField(key: keyof NormalizedFields, value: string | number): string {
+  if (key === 'exposureBias') return `${Number(value) > 0 ? '+' : ''}${value} EV`
+  if (key === 'rating') return Number(value) < 0 ? '拒绝' : `${value} 星`
+  return String(value)
+}
+
+/**
+ * 元数据检查器：常用字段摘要 + 按分组折叠的完整 EXIF / IPTC / XMP 标签，支持按标签名或值搜索
+ */
+export function MetadataInspector({ imageId }: MetadataInspectorProps) {
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(null)
+  const [fields, setFields] = useState<NormalizedFields | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    fetch(`/api/images/${imageId}/metadata`)
+      .then(async res => {
+        const data = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(data.error || '获取元数据失败')
+          return
+        }
+        setMetadata(data.metadata)
+        setFields(data.fields)
+      })
+      .catch(() => {
+        if (!cancelled) setError('获取元数据失败')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [imageId])
+
+  // 按搜索词过滤后的分组，每组内的标签按名称排序
+  const groups = useMemo(() => {
+    if (!metadata) return []
+    const keyword = query.trim().toLowerCase()
+
+    return Object.entries(metadata)
+      .sort(([a], [b]) => {
+        const indexA = GROUP_ORDER.indexOf(a)
+        const indexB = GROUP_ORDER.indexOf(b)
+        return (indexA < 0 ? GROUP_ORDER.length : indexA) - (indexB < 0 ? GROUP_ORDER.length : indexB)
+      })
+      .map(([group, tags]) => {
+        const entries = Object.entries(tags)
+          .map(([key, value]) => [key, formatValue(value)] as const)
+          .filter(([key, value]) =>
+            !keyword || key.toLowerCase().includes(keyword) || value.toLowerCase().includes(keyword)
+          )
+          .sort(([a], [b]) => a.localeCompare(b))
+        return { group, label: GROUP_LABELS[group] || `XMP ${group}`, entries }
+      })
+      .filter(({ entries }) => entries.length > 0)
+  }, [metadata, query])
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        正在读取元数据...
+      </div>
+    )
+  }
+
+  if (error) {
+    return <div className="text-sm text-destructive">{error}</div>
+  }
+
+  const summary = fields
+    ? FIELD_LABELS.filter(([key]) => fields[key] !== null && fields[key] !== undefined)
+    : []
+  const searching = query.trim().length > 0
+
+  return (
+    <div className="space-y-3">
+      {summary.length > 0 && (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-sm">
+          {summary.map(([key, label]) => (
+            <div key={key} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="break-words">{formatField(key, fields![key] as string | number)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {fields?.keywords && fields.keywords.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {fields.keywords.map(keyword => (
+            <Badge key={keyword} variant="secondary">{keyword}</Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="搜索标签名或值"
+          className="pl-8"
+        />
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          {searching ? '没有匹配的元数据' : '图片中没有元数据'}
+        </div>
+      ) : (
+        <div className="divide-y rounded border">
+          {groups.map(({ group, label, entries }) => {
+            // 搜索时展开所有匹配的分组
+            const open = searching || expanded[group]
+            return (
+              <div key={group}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium hover:bg-muted/50"
+                  onClick={() => setExpanded(prev => ({ ...prev, [group]: !prev[group] }))}
+                >
+                  <span className="flex items-center gap-1">
+                    {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    {label}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{entries.length}</span>
+                </button>
+                {open && (
+                  <dl className="grid grid-cols-[minmax(0,2fr),minmax(0,3fr)] gap-x-3 gap-y-1 px-3 pb-3 text-xs">
+                    {entries.map(([key, value]) => (
+                      <div key={key} className="contents">
+                        <dt className="truncate text-muted-foreground" title={key}>{key}</dt>
+                        <dd className="break-words font-mono">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { decode } from 'blurhash'
+import { cn } from '@/lib/utils'
+
+interface PlaceholderImageProps {
+  src: string
+  alt: string
+  blurHash?: string | null
+  dominantColor?: string | null
+  className?: string
+}
+
+const DECODE_SIZE = 32
+
+// 同一 BlurHash 只解码一次（分页、切换视图时复用）
+const decodedCache = new Map<string, string | null>()
+
+function blurHashToDataURL(blurHash: string): string | null {
+  if (decodedCache.has(blurHash)) return decodedCache.get(blurHash)!
+
+  let url: string | null = null
+  try {
+    const pixels = decode(blurHash, DECODE_SIZE, DECODE_SIZE)
+    const canvas = document.createElement('canvas')
+    canvas.width = DECODE_SIZE
+    canvas.height = DECODE_SIZE
+    const context = canvas.getContext('2d')
+    if (context) {
+      const imageData = context.createImageData(DECODE_SIZE, DECODE_SIZE)
+      imageData.data.set(pixels)
+      context.putImageData(imageData, 0, 0)
+      url = canvas.toDataURL()
+    }
+  } catch {
+    // 无效的 BlurHash 只显示主色调
+  }
+
+  decodedCache.set(blurHash, url)
+  return url
+}
+
+/**
+ * 带占位图的缩略图：加载完成前显示 BlurHash（没有时显示主色调），加载后淡入
+ * 父元素需要是定位元素（relative），占位图绝对定位覆盖在图片上方
+ */
+export function PlaceholderImage({ src, alt, blurHash, dominantColor, className }: PlaceholderImageProps) {
+  const imgRef = useRef<HTMLImageElement>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [placeholder, setPlaceholder] = useState<string | null>(null)
+
+  // canvas 只能在浏览器中使用，在 effect 里解码
+  useEffect(() => {
+    setPlaceholder(blurHash ? blurHashToDataURL(blurHash) : null)
+  }, [blurHash])
+
+  // 图片在水合前已从缓存加载完成时不会再触发 onLoad
+  useEffect(() => {
+    setLoaded(!!imgRef.current?.complete && imgRef.current.naturalWidth > 0)
+  }, [src])
+
+  const placeholderStyle = useMemo(() => ({
+    backgroundColor: dominantColor || undefined,
+    backgroundImage: placeholder ? `url(${placeholder})` : undefined,
+  }), [dominantColor, placeholder])
+
+  return (
+    <>
+      <img
+        ref={imgRef}
+        src={src}
+        alt={alt}
+        loading="lazy"
+        onLoad={() => setLoaded(true)}
+        onError={() => setLoaded(true)}
+        className={cn(className, 'transition-[opacity,transform] duration-300', loaded ? 'opacity-100' : 'opacity-0')}
+      />
+      <div
+        aria-hidden
+        className={cn(
+          'absolute inset-0 bg-cover bg-center pointer-events-none transition-opacity duration-300',
+          loaded ? 'opacity-0' : 'opacity-100'
+        )}
+        style={placeholderStyle}
+      />
+    </>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/components/ui/toast'
+
+export interface TakenAtImage {
+  id: string
+  originalName: string
+  title: string | null
+  takenAt: string | null
+}
+
+type CorrectionMode = 'shift' | 'set' | 'align'
+
+interface TakenAtDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  images: TakenAtImage[]
+  onCorrected?: (updated: Array<{ id: string; takenAt: string }>) => void
+}
+
+const imageName = (image: TakenAtImage) => image.title || image.originalName
+
+// 可选的拍摄地时区（相对 UTC 的分钟数）：整点和常见的半点 / 45 分时区
+const ZONE_OFFSETS = [
+  ...Array.from({ length: 27 }, (_, i) => (i - 12) * 60),
+  -210, 210, 270, 330, 345, 390, 570, 630,
+].sort((a, b) => a - b)
+
+/**
+ * 将分钟偏移格式化为 ISO 8601 形式（+08:00）
+ */
+function formatZoneOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+}
+
+const formatTakenAt = (value: string) => new Date(value).toLocaleString('zh-CN')
+
+/**
+ * 将秒数格式化为 “+1 天 2 小时 3 分钟” 形式
+ */
+function formatOffset(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '+'
+  let rest = Math.abs(seconds)
+  const parts: string[] = []
+  for (const [unit, size] of [['天', 86400], ['小时', 3600], ['分钟', 60], ['秒', 1]] as const) {
+    const value = Math.floor(rest / size)
+    rest -= value * size
+    if (value) parts.push(`${value} ${unit}`)
+  }
+  return parts.length ? `${sign}${parts.join(' ')}` : '0'
+}
+
+/**
+ * 批量校正拍摄时间：平移、设置为指定时间或以参考图片为准对齐
+ */
+export function TakenAtDialog({ open, onOpenChange, images, onCorrected }: TakenAtDialogProps) {
+  const [mode, setMode] = useState<CorrectionMode>('shift')
+  const [offset, setOffset] = useState({ days: '0', hours: '0', minutes: '0', seconds: '0' })
+  const [takenAt, setTakenAt] = useState('')
+  // 设置时间时所在的时区，默认为浏览器时区
+  const [setZone, setSetZone] = useState(String(-new Date().getTimezoneOffset()))
+  // 平移时可同时改为新的时区，keep 为保持不变
+  const [shiftZone, setShiftZone] = useState('keep')
+  const [sourceId, setSourceId] = useState('')
+  const [referenceId, setReferenceId] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const datedImages = images.filter(image => image.takenAt)
+
+  useEffect(() => {
+    if (!open) return
+    setOffset({ days: '0', hours: '0', minutes: '0', seconds: '0' })
+    setTakenAt('')
+    setSetZone(String(-new Date().getTimezoneOffset()))
+    setShiftZone('keep')
+    setSourceId('')
+    setReferenceId('')
+  }, [open])
+
+  const offsetSeconds =
+    (parseInt(offset.days) || 0) * 86400 +
+    (parseInt(offset.hours) || 0) * 3600 +
+    (parseInt(offset.minutes) || 0) * 60 +
+    (parseInt(offset.seconds) || 0)
+
+  const source = datedImages.find(image => image.id === sourceId)
+  const reference = datedImages.find(image => image.id === referenceId)
+  const alignOffset = source && reference && source.id !== reference.id
+    ? Math.round((new Date(reference.takenAt!).getTime() - new Date(source.takenAt!).getTime()) / 1000)
+    : null
+
+  const canSubmit = !isSaving && (
+    (mode === 'shift' && offsetSeconds !== 0) ||
+    (mode === 'set' && takenAt !== '') ||
+    (mode === 'align' && alignOffset !== null)
+  )
+
+  const submit = async () => {
+    const imageIds = images.map(image => image.id)
+    // datetime-local 的值是拍摄地的本地时间，加上所选时区的偏移
+    const localTime = takenAt.length === 16 ? `${takenAt}:00` : takenAt
+    const body =
+      mode === 'shift' ? { mode, imageIds, offsetSeconds, ...(shiftZone !== 'keep' && { takenAtOffset: Number(shiftZone) }) } :
+      mode === 'set' ? { mode, imageIds, takenAt: `${localTime}${formatZoneOffset(Number(setZone))}` } :
+      { mode, imageIds, sourceImageId: sourceId, referenceImageId: referenceId }
+
+    setIsSaving(true)
+    try {
+      const res = await fetch('/api/images/taken-at', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast({ title: '校正失败', description: data.error || '未知错误', type: 'error' })
+        return
+      }
+
+      toast({
+        title: `已校正 ${data.updated.length} 张图片的拍摄时间`,
+        description: data.skipped.length ? `${data.skipped.length} 张图片没有拍摄时间，已跳过` : undefined,
+        type: 'success',
+      })
+      onCorrected?.(data.updated)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Correct taken time error:', error)
+      toast({ title: '校正失败', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>校正拍摄时间</DialogTitle>
+          <DialogDescription>
+            已选择 {images.length} 张图片，校正后会重新生成年份、季节、时间段等时间标签，原图文件不变
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <Select value={mode} onValueChange={value => setMode(value as CorrectionMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="shift">按时间差平移</SelectItem>
+              <SelectItem value="set">设置为指定时间</SelectItem>
+              <SelectItem value="align">以参考图片为准对齐</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {mode === 'shift' && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-4 gap-2">
+                {([['days', '天'], ['hours', '小时'], ['minutes', '分钟'], ['seconds', '秒']] as const).map(([key, label]) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`offset-${key}`}>{label}</Label>
+                    <Input
+                      id={`offset-${key}`}
+                      type="number"
+                      value={offset[key]}
+                      onChange={e => setOffset(prev => ({ ...prev, [key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                负数表示提前，例如相机设置为 UTC 而实际在北京时间拍摄时填 8 小时。当前偏移：{formatOffset(offsetSeconds)}
+              </p>
+              <Label>拍摄地时区</Label>
+              <Select value={shiftZone} onValueChange={setShiftZone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep">保持不变</SelectItem>
+                  {ZONE_OFFSETS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>UTC{formatZoneOffset(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {mode === 'set' && (
+            <div className="space-y-1">
+              <Label htmlFor="taken-at">拍摄时间</Label>
+              <Input
+                id="taken-at"
+                type="datetime-local"
+                step={1}
+                value={takenAt}
+                onChange={e => setTakenAt(e.target.value)}
+              />
+              <Label>拍摄地时区</Label>
+              <Select value={setZone} onValueChange={setSetZone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ZONE_OFFSETS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>UTC{formatZoneOffset(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">所有选中的图片都会设置为这个时区的本地时间，时间标签按该时区生成</p>
+            </div>
+          )}
+
+          {mode === 'align' && (
+            datedImages.length < 2 ? (
+              <p className="text-sm text-muted-foreground">
+                至少需要选择两张有拍摄时间的图片：一张时间准确的参考图片（如手机拍摄），一张与它同一时刻拍摄的待校正图片
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label>参考图片（时间准确）</Label>
+                  <Select value={referenceId} onValueChange={setReferenceId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="选择参考图片" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {datedImages.map(image => (
+                        <SelectItem key={image.id} value={image.id}>
+                          {imageName(image)}（{formatTakenAt(image.takenAt!)}）
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>与参考图片同一时刻拍摄的图片</Label>
+                  <Select value={sourceId} onValueChange={setSourceId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="选择待校正图片" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {datedImages.filter(image => image.id !== referenceId).map(image => (
+                        <SelectItem key={image.id} value={image.id}>
+                          {imageName(image)}（{formatTakenAt(image.takenAt!)}）
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {alignOffset !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    除参考图片外的所有选中图片将平移 {formatOffset(alignOffset)}
+                  </p>
+                )}
+              </div>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>取消</Button>
+            <Button onClick={submit} disabled={!canSubmit}>
+              {isSaving ? '校正中...' : '校正'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TakenAtDialog
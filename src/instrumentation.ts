@@ -0,0 +1,9 @@
+/**
+ * 服务启动时执行：启动后台任务 worker，继续处理重启前未完成的任务
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobWorker } = await import('@/lib/jobs')
+    startJobWorker()
+  }
+}
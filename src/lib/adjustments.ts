@@ -0,0 +1,370 @@
+/**
+ * Image adjustments
+ * 曝光、白平衡、高光 / 阴影、曲线、LUT 滤镜和暗角的逐像素计算
+ * 不依赖 sharp 或 Node.js：编辑器在浏览器中用同一份代码实时预览，保存时服务器在 sharp 解码的像素上渲染，
+ * 两边的结果逐像素一致
+ */
+
+import { z } from 'zod'
+
+// 曲线控制点：[输入, 输出]，取值 0-255，输入必须递增
+const curvePointsSchema = z
+  .array(z.tuple([z.number().min(0).max(255), z.number().min(0).max(255)]))
+  .min(2)
+  .max(16)
+  .refine(points => points.every((point, i) => i === 0 || point[0] > points[i - 1][0]), '曲线控制点的输入必须递增')
+
+// LUT 名称对应 LUT 目录中的 .cube 文件名
+export const lutNameSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,63}$/, 'LUT 名称无效')
+
+export const adjustmentsSchema = z.object({
+  // 曝光补偿（档），在线性光空间中乘以 2^exposure
+  exposure: z.number().min(-5).max(5).default(0),
+  // 色温：正值偏暖（黄），负值偏冷（蓝）
+  temperature: z.number().min(-100).max(100).default(0),
+  // 色调：正值偏洋红，负值偏绿
+  tint: z.number().min(-100).max(100).default(0),
+  // 正值提亮，负值压暗；黑点和白点保持不变
+  highlights: z.number().min(-100).max(100).default(0),
+  shadows: z.number().min(-100).max(100).default(0),
+  // rgb 曲线作用于全部通道，之后再应用各通道的曲线
+  curves: z.object({
+    rgb: curvePointsSchema.optional(),
+    red: curvePointsSchema.optional(),
+    green: curvePointsSchema.optional(),
+    blue: curvePointsSchema.optional(),
+  }).default({}),
+  lut: z.object({
+    name: lutNameSchema,
+    // 与原色混合的比例，100 为完全应用
+    intensity: z.number().min(0).max(100).default(100),
+  }).nullable().default(null),
+  // 负值压暗四角，正值提亮四角
+  vignette: z.number().min(-100).max(100).default(0),
+})
+
+export type Adjustments = z.infer<typeof adjustmentsSchema>
+
+export type CurveChannel = keyof Adjustments['curves']
+
+export type CurvePoint = [number, number]
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  exposure: 0,
+  temperature: 0,
+  tint: 0,
+  highlights: 0,
+  shadows: 0,
+  curves: {},
+  lut: null,
+  vignette: 0,
+}
+
+/**
+ * 各项调整都是默认值时无需渲染
+ */
+export function isDefaultAdjustments(adjustments: Adjustments): boolean {
+  return adjustments.exposure === 0 &&
+    adjustments.temperature === 0 &&
+    adjustments.tint === 0 &&
+    adjustments.highlights === 0 &&
+    adjustments.shadows === 0 &&
+    Object.values(adjustments.curves).every(points => !points) &&
+    (!adjustments.lut || adjustments.lut.intensity === 0) &&
+    adjustments.vignette === 0
+}
+
+// ==================== .cube LUT ====================
+
+export interface CubeLut {
+  title: string | null
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  // 按 .cube 的顺序排列：红色变化最快，每个点 3 个值
+  table: Float32Array
+}
+
+export class CubeLutError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CubeLutError'
+  }
+}
+
+const MAX_LUT_SIZE = 128
+
+function parseTriple(parts: string[], line: string): [number, number, number] {
+  const values = parts.map(Number)
+  if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+    throw new CubeLutError(`无法解析 LUT 行: ${line}`)
+  }
+  return values as [number, number, number]
+}
+
+/**
+ * 解析 Adobe / Resolve 的 .cube 文件，只支持 3D LUT
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title: string | null = null
+  let size = 0
+  let domainMin: [number, number, number] = [0, 0, 0]
+  let domainMax: [number, number, number] = [1, 1, 1]
+  let table: Float32Array | null = null
+  let count = 0
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const parts = line.split(/\s+/)
+    const keyword = parts[0].toUpperCase()
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"(.*)"$/, '$1') || null
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new CubeLutError('不支持 1D LUT')
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(parts[1])
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new CubeLutError(`LUT 尺寸无效: ${parts[1]}`)
+      }
+      table = new Float32Array(size * size * size * 3)
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriple(parts.slice(1), line)
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriple(parts.slice(1), line)
+    } else if (/^[A-Z_]+$/.test(keyword)) {
+      // 其他关键字（如 LUT_3D_INPUT_RANGE）忽略
+      continue
+    } else {
+      if (!table) throw new CubeLutError('LUT 数据出现在 LUT_3D_SIZE 之前')
+      if (count >= table.length) throw new CubeLutError('LUT 数据多于声明的尺寸')
+      table.set(parseTriple(parts, line), count)
+      count += 3
+    }
+  }
+
+  if (!table) throw new CubeLutError('缺少 LUT_3D_SIZE')
+  if (count !== table.length) throw new CubeLutError('LUT 数据少于声明的尺寸')
+  if (domainMin.some((min, i) => min >= domainMax[i])) throw new CubeLutError('LUT 定义域无效')
+
+  return { title, size, domainMin, domainMax, table }
+}
+
+// ==================== 曲线 ====================
+
+/**
+ * 单调三次插值（Fritsch-Carlson），曲线不会在控制点之间过冲
+ * 返回 256 项的表，取值 0-1
+ */
+export function curveTable(points: CurvePoint[]): Float64Array {
+  const xs = points.map(point => point[0])
+  const ys = points.map(point => point[1])
+  const n = points.length
+
+  const slopes: number[] = []
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]))
+  }
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0]
+    if (i === n - 1) return slopes[n - 2]
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2
+  })
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      continue
+    }
+    const a = tangents[i] / slopes[i]
+    const b = tangents[i + 1] / slopes[i]
+    const h = a * a + b * b
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h)
+      tangents[i] = t * a * slopes[i]
+      tangents[i + 1] = t * b * slopes[i]
+    }
+  }
+
+  const table = new Float64Array(256)
+  let segment = 0
+  for (let x = 0; x < 256; x++) {
+    let y: number
+    // 第一个控制点之前和最后一个控制点之后保持水平
+    if (x <= xs[0]) {
+      y = ys[0]
+    } else if (x >= xs[n - 1]) {
+      y = ys[n - 1]
+    } else {
+      while (x > xs[segment + 1]) segment++
+      const dx = xs[segment + 1] - xs[segment]
+      const t = (x - xs[segment]) / dx
+      const t2 = t * t
+      const t3 = t2 * t
+      y = (2 * t3 - 3 * t2 + 1) * ys[segment] +
+        (t3 - 2 * t2 + t) * dx * tangents[segment] +
+        (-2 * t3 + 3 * t2) * ys[segment + 1] +
+        (t3 - t2) * dx * tangents[segment + 1]
+    }
+    table[x] = Math.min(1, Math.max(0, y / 255))
+  }
+  return table
+}
+
+// ==================== 逐像素渲染 ====================
+
+const SRGB_TABLE_SIZE = 4096
+
+const toLinear = new Float64Array(256)
+for (let i = 0; i < 256; i++) {
+  const v = i / 255
+  toLinear[i] = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+}
+
+const toSrgb = new Float64Array(SRGB_TABLE_SIZE + 1)
+for (let i = 0; i <= SRGB_TABLE_SIZE; i++) {
+  const v = i / SRGB_TABLE_SIZE
+  toSrgb[i] = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055
+}
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v)
+
+/**
+ * 高光 / 阴影的色调曲线：在 0 和 1 处不变，系数不超过 ±0.6 时保持单调
+ */
+function toneCurve(l: number, shadows: number, highlights: number): number {
+  return l + 0.6 * shadows * l * (1 - l) * (1 - l) + 0.6 * highlights * l * l * (1 - l)
+}
+
+/**
+ * 三线性插值查询 3D LUT，结果写入 out
+ */
+function sampleLut(lut: CubeLut, r: number, g: number, b: number, out: number[]): void {
+  const { size: n, table, domainMin, domainMax } = lut
+  const max = n - 1
+  const pr = clamp01((r - domainMin[0]) / (domainMax[0] - domainMin[0])) * max
+  const pg = clamp01((g - domainMin[1]) / (domainMax[1] - domainMin[1])) * max
+  const pb = clamp01((b - domainMin[2]) / (domainMax[2] - domainMin[2])) * max
+  const r0 = Math.min(Math.floor(pr), max - 1)
+  const g0 = Math.min(Math.floor(pg), max - 1)
+  const b0 = Math.min(Math.floor(pb), max - 1)
+  const fr = pr - r0
+  const fg = pg - g0
+  const fb = pb - b0
+
+  const strideG = n * 3
+  const strideB = n * n * 3
+  const base = r0 * 3 + g0 * strideG + b0 * strideB
+  for (let c = 0; c < 3; c++) {
+    const i = base + c
+    const c00 = table[i] + (table[i + 3] - table[i]) * fr
+    const c10 = table[i + strideG] + (table[i + strideG + 3] - table[i + strideG]) * fr
+    const c01 = table[i + strideB] + (table[i + strideB + 3] - table[i + strideB]) * fr
+    const c11 = table[i + strideG + strideB] + (table[i + strideG + strideB + 3] - table[i + strideG + strideB]) * fr
+    const c0 = c00 + (c10 - c00) * fg
+    const c1 = c01 + (c11 - c01) * fg
+    out[c] = c0 + (c1 - c0) * fb
+  }
+}
+
+/**
+ * 在 8 位 RGB / RGBA 像素上原地应用调整，alpha 通道保持不变
+ * 调用方需要提供 adjustments.lut 对应的 LUT
+ */
+export function applyAdjustments(
+  data: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  channels: number,
+  adjustments: Adjustments,
+  lut: CubeLut | null
+): void {
+  if (channels < 3) {
+    throw new Error('Adjustments require RGB pixels')
+  }
+
+  // 曝光和白平衡在线性光空间中按通道相乘
+  const gain = Math.pow(2, adjustments.exposure)
+  const temperature = adjustments.temperature / 100
+  const tint = adjustments.tint / 100
+  const linearGain = [
+    gain * (1 + 0.3 * temperature),
+    gain * (1 - 0.3 * tint),
+    gain * (1 - 0.3 * temperature),
+  ]
+  const useLinear = linearGain.some(value => value !== 1)
+
+  const shadows = adjustments.shadows / 100
+  const highlights = adjustments.highlights / 100
+  const useTone = shadows !== 0 || highlights !== 0
+
+  // rgb 曲线与各通道曲线合成为每个通道一张表
+  const { rgb, red, green, blue } = adjustments.curves
+  const useCurves = !!(rgb || red || green || blue)
+  const curves = [red, green, blue].map(channel => {
+    const master = rgb ? curveTable(rgb) : null
+    const own = channel ? curveTable(channel) : null
+    const table = new Float64Array(256)
+    for (let i = 0; i < 256; i++) {
+      const v = master ? master[i] : i / 255
+      table[i] = own ? own[Math.round(v * 255)] : v
+    }
+    return table
+  })
+
+  const intensity = adjustments.lut ? adjustments.lut.intensity / 100 : 0
+  const useLut = !!lut && intensity > 0
+
+  const vignette = adjustments.vignette / 100
+  const cx = width / 2
+  const cy = height / 2
+
+  const color = [0, 0, 0]
+  const graded = [0, 0, 0]
+  for (let y = 0; y < height; y++) {
+    const dy = (y + 0.5 - cy) / cy
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * channels
+      for (let c = 0; c < 3; c++) {
+        color[c] = useLinear
+          ? toSrgb[Math.round(clamp01(toLinear[data[offset + c]] * linearGain[c]) * SRGB_TABLE_SIZE)]
+          : data[offset + c] / 255
+      }
+
+      if (useTone) {
+        const l = 0.2126 * color[0] + 0.7152 * color[1] + 0.0722 * color[2]
+        if (l > 0) {
+          const ratio = toneCurve(l, shadows, highlights) / l
+          for (let c = 0; c < 3; c++) color[c] = clamp01(color[c] * ratio)
+        }
+      }
+
+      if (useCurves) {
+        for (let c = 0; c < 3; c++) color[c] = curves[c][Math.round(color[c] * 255)]
+      }
+
+      if (useLut && lut) {
+        sampleLut(lut, color[0], color[1], color[2], graded)
+        for (let c = 0; c < 3; c++) color[c] = clamp01(color[c] + (graded[c] - color[c]) * intensity)
+      }
+
+      if (vignette !== 0) {
+        // 椭圆距离：中心为 0，四角为 1；半径 0.4 以内不受影响
+        const dx = (x + 0.5 - cx) / cx
+        const distance = Math.sqrt((dx * dx + dy * dy) / 2)
+        const t = clamp01((distance - 0.4) / 0.6)
+        const weight = t * t * (3 - 2 * t)
+        for (let c = 0; c < 3; c++) {
+          color[c] = vignette < 0
+            ? color[c] * (1 + vignette * weight)
+            : color[c] + (1 - color[c]) * vignette * weight
+        }
+      }
+
+      for (let c = 0; c < 3; c++) {
+        data[offset + c] = Math.round(clamp01(color[c]) * 255)
+      }
+    }
+  }
+}
@@ -4,11 +4,13 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { StorageNotFoundError } from '@/lib/storage'
+import { getDisplayableForExport } from '@/lib/metadata-privacy'
 import { analyzeImage } from './doubao'
 import { TagType, AITaskStatus, Prisma } from '@prisma/client'
 
 // Configuration
-const MAX_RETRIES = parseInt(process.env.AI_RETRY_ATTEMPTS || '3')
+export const MAX_RETRIES = parseInt(process.env.AI_RETRY_ATTEMPTS || '3')
 
 /**
  * Queue an image for AI analysis (database-backed)
@@ -71,7 +73,9 @@ export async function processImageAnalysis(imageId: string, userId: string): Pro
       },
       select: {
         id: true,
-        originalImage: true,
+        originalKey: true,
+        previewKey: true,
+        mimeType: true,
         aiAnalyzed: true,
       },
     })
@@ -86,14 +90,19 @@ export async function processImageAnalysis(imageId: string, userId: string): Pro
       return true
     }
 
-    if (!image.originalImage) {
+    let imageBuffer: Buffer
+    try {
+      // Originals leave the server with metadata stripped per the user's privacy setting
+      imageBuffer = await getDisplayableForExport(image, userId)
+    } catch (error) {
+      if (!(error instanceof StorageNotFoundError)) throw error
       console.warn(`[AI Queue] Image ${imageId} has no image data`)
       await markTaskFailed(imageId, 'No image data')
       return false
     }
 
     // Analyze image
-    const result = await analyzeImage(image.originalImage)
+    const result = await analyzeImage(imageBuffer)
 
     if (result.confidence === 0) {
       throw new Error('AI analysis returned zero confidence')
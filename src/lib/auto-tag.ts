@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma'
+import { captureWallClock } from '@/lib/capture-time'
 
 export interface AutoTagOptions {
   exifData: any
@@ -8,6 +9,10 @@ export interface AutoTagOptions {
     aspectRatio: number
   }
   imageId: string
+  // 校正后的拍摄时间，优先于 EXIF 中的 DateTimeOriginal
+  takenAt?: Date | null
+  // 拍摄地相对 UTC 的偏移（分钟），时间标签按拍摄地本地时间生成
+  takenAtOffset?: number | null
 }
 
 export interface GeneratedTag {
@@ -50,25 +55,9 @@ export async function generateAutoTags(options: AutoTagOptions): Promise<Generat
   }
 
   // 4. 拍摄时间标签
-  if (exifData.DateTimeOriginal) {
-    const date = new Date(exifData.DateTimeOriginal)
-    const year = date.getFullYear()
-    const month = date.getMonth() + 1
-    const day = date.getDate()
-    const hour = date.getHours()
-    const dayOfWeek = date.getDay()
-    const season = getSeasonFromMonth(month)
-    const timeOfDay = getTimeOfDay(hour)
-    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6
-
-    tags.push(
-      { name: `${year}年`, type: 'AUTO_EXIF' },
-      { name: `${year}年${month}月`, type: 'AUTO_EXIF' },
-      { name: `${month}月${day}日`, type: 'AUTO_EXIF' },
-      { name: season, type: 'AUTO_EXIF' },
-      { name: timeOfDay, type: 'AUTO_EXIF' },
-      { name: isWeekend ? '周末' : '工作日', type: 'AUTO_EXIF' }
-    )
+  const takenAt = options.takenAt ?? (exifData.DateTimeOriginal ? new Date(exifData.DateTimeOriginal) : null)
+  if (takenAt && !isNaN(takenAt.getTime())) {
+    tags.push(...generateTimeTags(takenAt, options.takenAt ? options.takenAtOffset : null))
   }
 
   // 5. 焦距分类标签
@@ -109,14 +98,11 @@ export async function generateAutoTags(options: AutoTagOptions): Promise<Generat
 
   // 8. GPS位置标签（如果有经纬度信息）
   if (exifData.latitude && exifData.longitude) {
+    // 地点标签由后台地理编码任务生成 (generateLocationTags)
     tags.push({
       name: '已定位',
       type: 'AUTO_EXIF',
     })
-
-    // 通过反向地理编码获取地点信息
-    const locationTags = await getLocationTags(exifData.latitude, exifData.longitude)
-    tags.push(...locationTags)
   }
 
   // 9. 图片方向标签
@@ -149,6 +135,65 @@ export async function generateAutoTags(options: AutoTagOptions): Promise<Generat
   return tags
 }
 
+/**
+ * 根据拍摄时间生成年份、月份、日期、季节、时间段和周末 / 工作日标签
+ * 按拍摄地本地时间计算，偏移未知时使用服务器时区
+ */
+export function generateTimeTags(date: Date, offset?: number | null): GeneratedTag[] {
+  const { year, month, day, hour, dayOfWeek } = captureWallClock(date, offset)
+  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6
+
+  return [
+    { name: `${year}年`, type: 'AUTO_EXIF' },
+    { name: `${year}年${month}月`, type: 'AUTO_EXIF' },
+    { name: `${month}月${day}日`, type: 'AUTO_EXIF' },
+    { name: getSeasonFromMonth(month), type: 'AUTO_EXIF' },
+    { name: getTimeOfDay(hour), type: 'AUTO_EXIF' },
+    { name: isWeekend ? '周末' : '工作日', type: 'AUTO_EXIF' },
+  ]
+}
+
+// generateTimeTags 生成的标签名
+const TIME_TAG_PATTERN = /^(\d+年(\d+月)?|\d+月\d+日)$/
+const TIME_TAG_NAMES = [
+  '春季', '夏季', '秋季', '冬季',
+  '清晨', '上午', '中午', '下午', '傍晚', '夜晚', '深夜',
+  '周末', '工作日',
+]
+
+function isTimeTag(name: string): boolean {
+  return TIME_TAG_PATTERN.test(name) || TIME_TAG_NAMES.includes(name)
+}
+
+/**
+ * 拍摄时间校正后重新生成时间标签：移除图片原有的 AUTO_EXIF 时间标签，按新的拍摄时间关联
+ */
+export async function replaceTimeTags(
+  imageId: string,
+  takenAt: Date | null,
+  offset: number | null
+): Promise<void> {
+  const relations = await prisma.imageTag.findMany({
+    where: { imageId, tag: { type: 'AUTO_EXIF' } },
+    select: { tag: { select: { id: true, name: true } } },
+  })
+  const staleTagIds = relations.map(({ tag }) => tag).filter(tag => isTimeTag(tag.name)).map(tag => tag.id)
+
+  if (staleTagIds.length > 0) {
+    await prisma.imageTag.deleteMany({
+      where: { imageId, tagId: { in: staleTagIds } },
+    })
+    await prisma.tag.updateMany({
+      where: { id: { in: staleTagIds } },
+      data: { useCount: { decrement: 1 } },
+    })
+  }
+
+  if (takenAt) {
+    await saveAutoTags(imageId, generateTimeTags(takenAt, offset))
+  }
+}
+
 /**
  * 保存自动标签到数据库并关联到图片
  */
@@ -234,65 +279,60 @@ function getTimeOfDay(hour: number): string {
 
 /**
  * 通过反向地理编码获取地点标签
- * 使用 Nominatim (OpenStreetMap) 免费 API
+ * 使用 Nominatim (OpenStreetMap) 免费 API，请求失败时抛出异常，由地理编码任务重试
  */
-async function getLocationTags(latitude: number, longitude: number): Promise<GeneratedTag[]> {
+export async function generateLocationTags(latitude: number, longitude: number): Promise<GeneratedTag[]> {
   const tags: GeneratedTag[] = []
 
-  try {
-    // 使用 Nominatim 反向地理编码 API
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18&addressdetails=1&accept-language=zh-CN`,
-      {
-        headers: {
-          'User-Agent': 'PictureManagementSystem/1.0',
-        },
-      }
-    )
-
-    if (!response.ok) {
-      console.warn('反向地理编码请求失败:', response.status)
-      return tags
+  // 使用 Nominatim 反向地理编码 API
+  const response = await fetch(
+    `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18&addressdetails=1&accept-language=zh-CN`,
+    {
+      headers: {
+        'User-Agent': 'PictureManagementSystem/1.0',
+      },
     }
+  )
 
-    const data = await response.json()
-    const address = data.address
+  if (!response.ok) {
+    throw new Error(`反向地理编码请求失败: ${response.status}`)
+  }
 
-    if (address) {
-      // 国家
-      if (address.country) {
-        tags.push({ name: address.country, type: 'AUTO_EXIF' })
-      }
+  const data = await response.json()
+  const address = data.address
 
-      // 省/州
-      if (address.state || address.province) {
-        tags.push({ name: address.state || address.province, type: 'AUTO_EXIF' })
-      }
+  if (address) {
+    // 国家
+    if (address.country) {
+      tags.push({ name: address.country, type: 'AUTO_EXIF' })
+    }
 
-      // 城市
-      if (address.city || address.town || address.municipality) {
-        const city = address.city || address.town || address.municipality
-        tags.push({ name: city, type: 'AUTO_EXIF' })
-      }
+    // 省/州
+    if (address.state || address.province) {
+      tags.push({ name: address.state || address.province, type: 'AUTO_EXIF' })
+    }
 
-      // 区/县
-      if (address.district || address.county) {
-        tags.push({ name: address.district || address.county, type: 'AUTO_EXIF' })
-      }
+    // 城市
+    if (address.city || address.town || address.municipality) {
+      const city = address.city || address.town || address.municipality
+      tags.push({ name: city, type: 'AUTO_EXIF' })
+    }
 
-      // 街道/社区
-      if (address.suburb || address.neighbourhood) {
-        tags.push({ name: address.suburb || address.neighbourhood, type: 'AUTO_EXIF' })
-      }
+    // 区/县
+    if (address.district || address.county) {
+      tags.push({ name: address.district || address.county, type: 'AUTO_EXIF' })
+    }
 
-      // 具体地点名称（如景点、公园等）
-      if (address.tourism || address.amenity || address.leisure) {
-        const placeName = address.tourism || address.amenity || address.leisure
-        tags.push({ name: placeName, type: 'AUTO_EXIF' })
-      }
+    // 街道/社区
+    if (address.suburb || address.neighbourhood) {
+      tags.push({ name: address.suburb || address.neighbourhood, type: 'AUTO_EXIF' })
+    }
+
+    // 具体地点名称（如景点、公园等）
+    if (address.tourism || address.amenity || address.leisure) {
+      const placeName = address.tourism || address.amenity || address.leisure
+      tags.push({ name: placeName, type: 'AUTO_EXIF' })
     }
-  } catch (error) {
-    console.error('获取地点信息失败:', error)
   }
 
   return tags
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { captureWallClock, parseIsoOffset, parseOffsetTime, resolveCaptureTime } from '@/lib/capture-time'
+
+describe('parseOffsetTime', () => {
+  it('解析 EXIF 偏移', () => {
+    expect(parseOffsetTime('+08:00')).toBe(480)
+    expect(parseOffsetTime('-05:30')).toBe(-330)
+    expect(parseOffsetTime('+0545')).toBe(345)
+  })
+
+  it('格式无效或超出范围时返回 null', () => {
+    expect(parseOffsetTime(undefined)).toBeNull()
+    expect(parseOffsetTime('8:00')).toBeNull()
+    expect(parseOffsetTime('+15:00')).toBeNull()
+  })
+})
+
+describe('parseIsoOffset', () => {
+  it('解析 ISO 时间字符串末尾的偏移', () => {
+    expect(parseIsoOffset('2024-05-01T10:00:00Z')).toBe(0)
+    expect(parseIsoOffset('2024-05-01T10:00:00+08:00')).toBe(480)
+    expect(parseIsoOffset('2024-05-01T10:00:00.000-0330')).toBe(-210)
+  })
+
+  it('没有偏移时返回 null', () => {
+    expect(parseIsoOffset('2024-05-01T10:00:00')).toBeNull()
+    expect(parseIsoOffset('2024-05-01')).toBeNull()
+  })
+})
+
+describe('resolveCaptureTime', () => {
+  // EXIF 本地时间按服务器时区解析为 Date
+  const local = new Date(2024, 4, 1, 23, 30)
+
+  it('按 OffsetTimeOriginal 计算拍摄时刻', () => {
+    const { takenAt, takenAtOffset } = resolveCaptureTime(local, { OffsetTimeOriginal: '+08:00' }, null, null)
+    expect(takenAtOffset).toBe(480)
+    expect(takenAt?.toISOString()).toBe('2024-05-01T15:30:00.000Z')
+  })
+
+  it('没有偏移时按 GPS 位置推断', () => {
+    const { takenAtOffset } = resolveCaptureTime(local, {}, 31.23, 121.47)
+    expect(takenAtOffset).toBe(480)
+  })
+
+  it('偏移未知时保留原时间', () => {
+    expect(resolveCaptureTime(local, {}, null, null)).toEqual({ takenAt: local, takenAtOffset: null })
+  })
+})
+
+describe('captureWallClock', () => {
+  it('按拍摄地偏移计算本地日期和时间', () => {
+    const takenAt = new Date('2024-05-01T15:30:00Z')
+    expect(captureWallClock(takenAt, 480)).toEqual({ year: 2024, month: 5, day: 1, hour: 23, dayOfWeek: 3 })
+    expect(captureWallClock(takenAt, 600)).toEqual({ year: 2024, month: 5, day: 2, hour: 1, dayOfWeek: 4 })
+  })
+})
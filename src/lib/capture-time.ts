@@ -0,0 +1,149 @@
+/**
+ * Capture time
+ * EXIF 的 DateTimeOriginal 只记录拍摄地的本地时间，不带时区：
+ * 优先使用 OffsetTimeOriginal，其次按 GPS 位置查询离线时区边界数据推断偏移，
+ * 得到真实的拍摄时刻，并按拍摄地本地时间生成时间标签
+ */
+
+import tzlookup from '@photostructure/tz-lookup'
+
+export interface CaptureTime {
+  // 拍摄时刻；偏移未知时按服务器时区解释 EXIF 中的本地时间
+  takenAt: Date | null
+  // 拍摄地相对 UTC 的偏移（分钟）
+  takenAtOffset: number | null
+}
+
+export interface CaptureWallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  dayOfWeek: number
+}
+
+// 有效的 UTC 偏移范围：-12:00 ~ +14:00
+export const MIN_OFFSET = -12 * 60
+export const MAX_OFFSET = 14 * 60
+
+/**
+ * 解析 EXIF 2.31 的 OffsetTime 字段（"+08:00"、"-05:30"），无效时返回 null
+ */
+export function parseOffsetTime(value: unknown): number | null {
+  if (typeof value !== 'string') return null
+  const match = value.trim().match(/^([+-])(\d{2}):?(\d{2})$/)
+  if (!match) return null
+
+  const minutes = (parseInt(match[2]) * 60 + parseInt(match[3])) * (match[1] === '-' ? -1 : 1)
+  return minutes >= MIN_OFFSET && minutes <= MAX_OFFSET ? minutes : null
+}
+
+/**
+ * 解析 ISO 8601 时间字符串末尾的偏移（"Z"、"+08:00"），没有偏移或无效时返回 null
+ */
+export function parseIsoOffset(value: string): number | null {
+  const trimmed = value.trim()
+  if (/z$/i.test(trimmed)) return 0
+  const match = trimmed.match(/[+-]\d{2}:?\d{2}$/)
+  return match ? parseOffsetTime(match[0]) : null
+}
+
+/**
+ * IANA 时区在某一时刻相对 UTC 的偏移（分钟）
+ */
+function zoneOffsetAt(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant))
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0')
+
+  const local = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'))
+  return Math.round((local - Math.floor(instant / 1000) * 1000) / 60000)
+}
+
+/**
+ * 按 GPS 坐标推断拍摄地在该本地时间的偏移（考虑夏令时），坐标无效时返回 null
+ */
+export function inferOffsetFromGps(latitude: number, longitude: number, wallClock: Date): number | null {
+  try {
+    const timeZone = tzlookup(latitude, longitude)
+    // 本地时间当作 UTC 得到近似时刻，再按该时刻的偏移修正一次，夏令时切换附近也能取到正确的偏移
+    const approximate = wallClock.getTime()
+    const offset = zoneOffsetAt(timeZone, approximate)
+    return zoneOffsetAt(timeZone, approximate - offset * 60000)
+  } catch (error) {
+    console.warn('Failed to infer time zone from GPS:', { latitude, longitude, error })
+    return null
+  }
+}
+
+/**
+ * exifr 按服务器时区解析 DateTimeOriginal，取回拍摄地的本地时间（以 UTC 字段表示）
+ */
+function toWallClock(date: Date): Date {
+  return new Date(Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  ))
+}
+
+/**
+ * 根据 EXIF 中的本地拍摄时间、OffsetTimeOriginal 和 GPS 坐标计算拍摄时刻和偏移
+ */
+export function resolveCaptureTime(
+  takenAt: Date | null,
+  exifData: { OffsetTimeOriginal?: unknown; OffsetTime?: unknown },
+  latitude: number | null,
+  longitude: number | null
+): CaptureTime {
+  if (!takenAt) return { takenAt: null, takenAtOffset: null }
+
+  const wallClock = toWallClock(takenAt)
+  // 部分相机只写入 OffsetTime（对应 DateTime），与 DateTimeOriginal 通常相同
+  let offset = parseOffsetTime(exifData.OffsetTimeOriginal) ?? parseOffsetTime(exifData.OffsetTime)
+  if (offset === null && latitude !== null && longitude !== null) {
+    offset = inferOffsetFromGps(latitude, longitude, wallClock)
+  }
+
+  if (offset === null) return { takenAt, takenAtOffset: null }
+  return {
+    takenAt: new Date(wallClock.getTime() - offset * 60000),
+    takenAtOffset: offset,
+  }
+}
+
+/**
+ * 拍摄地的本地日期和时间，偏移未知时使用服务器时区
+ */
+export function captureWallClock(takenAt: Date, offset: number | null | undefined): CaptureWallClock {
+  if (offset === null || offset === undefined) {
+    return {
+      year: takenAt.getFullYear(),
+      month: takenAt.getMonth() + 1,
+      day: takenAt.getDate(),
+      hour: takenAt.getHours(),
+      dayOfWeek: takenAt.getDay(),
+    }
+  }
+
+  const local = new Date(takenAt.getTime() + offset * 60000)
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    dayOfWeek: local.getUTCDay(),
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import sharp from 'sharp'
+import { embedPngIccProfile, readIccDescription } from '@/lib/color-profile'
+import { pngChunk, readPng } from '@/lib/image-containers'
+
+const image = () => sharp({ create: { width: 8, height: 6, channels: 3, background: '#3c3' } })
+
+describe('embedPngIccProfile', () => {
+  it('在 IHDR 之后插入 iCCP 块，sharp 可以读出相同的配置文件', async () => {
+    const icc = (await image().jpeg().withIccProfile('p3').toBuffer().then(buffer => sharp(buffer).metadata())).icc!
+    expect(readIccDescription(icc)).toMatch(/P3/)
+
+    const output = embedPngIccProfile(await image().png().toBuffer(), icc)
+    const chunks = readPng(output)!
+    expect(chunks.map(({ type }) => type).slice(0, 2)).toEqual(['IHDR', 'iCCP'])
+    // 块 CRC 与重新计算的结果一致，libpng 不会因为 CRC 错误丢弃配置文件
+    expect(pngChunk('iCCP', Buffer.from(chunks[1].data))).toEqual(chunks[1].raw)
+
+    const metadata = await sharp(output).metadata()
+    expect(metadata.icc).toEqual(icc)
+    expect(metadata.width).toBe(8)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Color profiles
+ * 读取原图嵌入的 ICC 配置文件信息；缩略图和预览统一转换为 sRGB，原图下载时原样保留配置文件
+ */
+
+import zlib from 'zlib'
+import sharp from 'sharp'
+import { pngChunk } from '@/lib/image-containers'
+
+export interface ColorProfileInfo {
+  // ICC 配置文件描述，如 Display P3、Adobe RGB (1998)；未嵌入时为 null
+  iccProfileName: string | null
+  // 颜色模型（sharp 的命名）：srgb / cmyk / b-w 等，DNG 上传时未解码为 null
+  colorSpace: string | null
+}
+
+// HEIF nclx 颜色信息中 Display P3 (SMPTE EG 432-1) 的 colour_primaries 取值
+const NCLX_PRIMARIES_P3 = 12
+
+// 配置文件没有 desc 标签时记录的名称
+const UNNAMED_PROFILE = 'ICC'
+
+const ICC_COLOR_SPACES: Record<string, string> = {
+  'RGB ': 'srgb',
+  'CMYK': 'cmyk',
+  'GRAY': 'b-w',
+  'Lab ': 'lab',
+}
+
+function decodeUtf16BE(data: Buffer): string {
+  const swapped = Buffer.from(data)
+  swapped.swap16()
+  return swapped.toString('utf16le')
+}
+
+function cleanDescription(value: string): string | null {
+  const text = value.replace(/\0/g, '').trim()
+  return text ? text.slice(0, 100) : null
+}
+
+/**
+ * 读取 ICC 配置文件的描述 (desc 标签)，同时支持 v2 的 desc 类型和 v4 的 mluc 类型
+ */
+export function readIccDescription(icc: Buffer): string | null {
+  try {
+    if (icc.length < 132) return null
+
+    const tagCount = icc.readUInt32BE(128)
+    for (let i = 0; i < tagCount; i++) {
+      const entry = 132 + i * 12
+      if (entry + 12 > icc.length) return null
+      if (icc.toString('ascii', entry, entry + 4) !== 'desc') continue
+
+      const offset = icc.readUInt32BE(entry + 4)
+      const size = icc.readUInt32BE(entry + 8)
+      const tag = icc.subarray(offset, offset + size)
+      const type = tag.toString('ascii', 0, 4)
+
+      if (type === 'desc') {
+        const length = tag.readUInt32BE(8)
+        return cleanDescription(tag.toString('latin1', 12, 12 + length))
+      }
+      if (type === 'mluc' && tag.readUInt32BE(8) > 0) {
+        // 取第一条本地化记录
+        const length = tag.readUInt32BE(20)
+        const start = tag.readUInt32BE(24)
+        return cleanDescription(decodeUtf16BE(tag.subarray(start, start + length)))
+      }
+      return null
+    }
+  } catch {
+    // 配置文件损坏时当作没有描述
+  }
+  return null
+}
+
+/**
+ * ICC 配置文件头中声明的颜色模型
+ */
+function readIccColorSpace(icc: Buffer): string | null {
+  if (icc.length < 20) return null
+  return ICC_COLOR_SPACES[icc.toString('ascii', 16, 20)] || null
+}
+
+/**
+ * 读取 HEIF 容器 colr 盒中的颜色信息：嵌入的 ICC 配置文件 (prof)，或是否声明为 Display P3 (nclx)
+ */
+export function readHeifColor(buffer: Buffer): { icc: Buffer | null; displayP3: boolean } {
+  const prof = buffer.indexOf('colrprof', 0, 'ascii')
+  if (prof >= 4) {
+    const size = buffer.readUInt32BE(prof - 4)
+    const icc = buffer.subarray(prof + 8, prof - 4 + size)
+    return { icc, displayP3: /P3/i.test(readIccDescription(icc) || '') }
+  }
+
+  const nclx = buffer.indexOf('colrnclx', 0, 'ascii')
+  if (nclx >= 0 && nclx + 10 <= buffer.length) {
+    return { icc: null, displayP3: buffer.readUInt16BE(nclx + 8) === NCLX_PRIMARIES_P3 }
+  }
+
+  return { icc: null, displayP3: false }
+}
+
+/**
+ * 根据嵌入的 ICC 配置文件和 sharp 识别的颜色模型得出原图的颜色配置信息
+ */
+export function describeColorProfile(
+  icc: Buffer | null | undefined,
+  colorSpace?: string | null
+): ColorProfileInfo {
+  return {
+    iccProfileName: icc ? readIccDescription(icc) || UNNAMED_PROFILE : null,
+    colorSpace: colorSpace || (icc ? readIccColorSpace(icc) : null) || 'srgb',
+  }
+}
+
+/**
+ * HEIC / HEIF 的颜色配置信息（sharp 无法读取 HEVC 编码的文件，直接解析容器）
+ */
+export function describeHeifColorProfile(buffer: Buffer): ColorProfileInfo {
+  const { icc, displayP3 } = readHeifColor(buffer)
+  const info = describeColorProfile(icc)
+  if (!icc && displayP3) {
+    info.iccProfileName = 'Display P3'
+  }
+  return info
+}
+
+// sharp 内置的 Display P3 配置文件，进程内只生成一次
+let displayP3Profile: Promise<Buffer> | undefined
+
+function getDisplayP3Profile(): Promise<Buffer> {
+  displayP3Profile ??= sharp({ create: { width: 1, height: 1, channels: 3, background: '#000000' } })
+    .withIccProfile('p3')
+    .png()
+    .toBuffer()
+    .then(async data => (await sharp(data).metadata()).icc!)
+  return displayP3Profile
+}
+
+/**
+ * HEIC / HEIF 解码后像素对应的 ICC 配置文件：嵌入的配置文件，或 nclx 声明为 P3 时使用 Display P3
+ */
+export async function getHeifIccProfile(buffer: Buffer): Promise<Buffer | null> {
+  const { icc, displayP3 } = readHeifColor(buffer)
+  if (icc) return icc
+  return displayP3 ? getDisplayP3Profile() : null
+}
+
+/**
+ * 在 sharp 输出的 PNG 中插入 iCCP 块，使后续处理按该配置文件解释像素（不改变像素值）
+ */
+export function embedPngIccProfile(png: Buffer, icc: Buffer): Buffer {
+  // 配置文件名称 + 结束符 + 压缩方式 (0 = deflate)
+  const chunk = pngChunk('iCCP', Buffer.concat([Buffer.from('icc\0\0', 'latin1'), zlib.deflateSync(icc)]))
+
+  // iCCP 必须位于 IHDR 之后：8 字节签名 + 25 字节 IHDR 块
+  const ihdrEnd = 8 + 25
+  return Buffer.concat([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)])
+}
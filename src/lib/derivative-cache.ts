@@ -0,0 +1,131 @@
+/**
+ * Derivative disk cache
+ * 按需生成的图片衍生文件的磁盘缓存，总大小超过上限时按 LRU 淘汰
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024 // 512MB
+
+export class DerivativeCache {
+  private readonly dir: string
+  private readonly maxBytes: number
+  // Map 保持插入顺序：越靠前越久未使用
+  private readonly entries = new Map<string, number>()
+  private totalBytes = 0
+  private ready: Promise<void> | null = null
+
+  constructor(dir: string, maxBytes: number) {
+    this.dir = path.resolve(dir)
+    this.maxBytes = maxBytes
+  }
+
+  /**
+   * 启动时扫描缓存目录，按修改时间恢复 LRU 顺序
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await fs.mkdir(this.dir, { recursive: true })
+        const names = await fs.readdir(this.dir)
+        const files = await Promise.all(names
+          .filter(name => !name.endsWith('.tmp'))
+          .map(async name => {
+            const stat = await fs.stat(path.join(this.dir, name)).catch(() => null)
+            return stat?.isFile() ? { name, size: stat.size, mtime: stat.mtimeMs } : null
+          }))
+
+        files
+          .filter((file): file is { name: string; size: number; mtime: number } => !!file)
+          .sort((a, b) => a.mtime - b.mtime)
+          .forEach(file => {
+            this.entries.set(file.name, file.size)
+            this.totalBytes += file.size
+          })
+
+        await this.evict()
+      })()
+    }
+    return this.ready
+  }
+
+  private filePath(key: string): string {
+    if (!/^[a-f0-9]+$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`)
+    }
+    return path.join(this.dir, key)
+  }
+
+  private touch(key: string, size: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, size)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    await this.init()
+    if (!this.entries.has(key)) return null
+
+    const target = this.filePath(key)
+    try {
+      const data = await fs.readFile(target)
+      this.touch(key, data.length)
+      // 更新修改时间，重启后仍能恢复访问顺序
+      const now = new Date()
+      fs.utimes(target, now, now).catch(() => {})
+      return data
+    } catch {
+      // 文件被外部删除
+      this.totalBytes -= this.entries.get(key) ?? 0
+      this.entries.delete(key)
+      return null
+    }
+  }
+
+  async set(key: string, data: Buffer): Promise<void> {
+    await this.init()
+    // 单个文件超过上限时不缓存
+    if (data.length > this.maxBytes) return
+
+    const target = this.filePath(key)
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tmp, data)
+    await fs.rename(tmp, target)
+
+    this.totalBytes -= this.entries.get(key) ?? 0
+    this.touch(key, data.length)
+    this.totalBytes += data.length
+
+    await this.evict()
+  }
+
+  /**
+   * 淘汰最久未使用的文件，直到总大小不超过上限
+   */
+  private async evict(): Promise<void> {
+    for (const [key, size] of Array.from(this.entries)) {
+      if (this.totalBytes <= this.maxBytes) break
+      this.entries.delete(key)
+      this.totalBytes -= size
+      await fs.unlink(this.filePath(key)).catch(() => {})
+    }
+  }
+}
+
+const globalForCache = globalThis as unknown as {
+  derivativeCache: DerivativeCache | undefined
+}
+
+/**
+ * 获取衍生文件缓存（进程内单例）
+ */
+export function getDerivativeCache(): DerivativeCache {
+  if (!globalForCache.derivativeCache) {
+    globalForCache.derivativeCache = new DerivativeCache(
+      process.env.DERIVATIVE_CACHE_DIR || path.join(os.tmpdir(), 'pms-derivatives'),
+      parseInt(process.env.DERIVATIVE_CACHE_MAX_BYTES || '') || DEFAULT_MAX_BYTES
+    )
+  }
+  return globalForCache.derivativeCache
+}
@@ -0,0 +1,146 @@
+/**
+ * Duplicate detection
+ * 精确重复（SHA-256 内容哈希相同）与近似重复（感知哈希 dHash 汉明距离小）检测
+ */
+
+import sharp from 'sharp'
+
+// 汉明距离不超过该值的两张图片视为近似重复（64 位 dHash）
+export const NEAR_DUPLICATE_THRESHOLD = 10
+
+export interface HashedImage {
+  id: string
+  contentHash: string | null
+  perceptualHash: string | null
+}
+
+export interface NearDuplicate {
+  id: string
+  distance: number
+  exact: boolean
+}
+
+/**
+ * 计算 64 位差值哈希 (dHash)，返回 16 位十六进制字符串
+ * 缩放为 9x8 灰度图后比较每行相邻像素的亮度
+ */
+export async function computePerceptualHash(imageBuffer: Buffer): Promise<string> {
+  const pixels = await sharp(imageBuffer)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col]
+      const right = pixels[row * 9 + col + 1]
+      nibble = (nibble << 1) | (left > right ? 1 : 0)
+      if (col % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+function popcount32(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555)
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333)
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+/**
+ * 两个 dHash 的汉明距离
+ */
+export function hammingDistance(a: string, b: string): number {
+  return (
+    popcount32(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount32(parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16))
+  )
+}
+
+/**
+ * 在候选图片中查找与给定哈希近似的图片，按距离排序
+ */
+export function findNearDuplicates(
+  target: { contentHash: string; perceptualHash: string | null },
+  candidates: HashedImage[],
+  threshold: number = NEAR_DUPLICATE_THRESHOLD
+): NearDuplicate[] {
+  const matches: NearDuplicate[] = []
+
+  for (const candidate of candidates) {
+    if (candidate.contentHash === target.contentHash) {
+      matches.push({ id: candidate.id, distance: 0, exact: true })
+      continue
+    }
+    if (!target.perceptualHash || !candidate.perceptualHash) continue
+
+    const distance = hammingDistance(target.perceptualHash, candidate.perceptualHash)
+    if (distance <= threshold) {
+      matches.push({ id: candidate.id, distance, exact: false })
+    }
+  }
+
+  return matches.sort((a, b) => a.distance - b.distance)
+}
+
+/**
+ * 将相似图片聚类（并查集），只返回包含两张及以上图片的簇
+ */
+export function clusterBySimilarity(
+  images: HashedImage[],
+  threshold: number = NEAR_DUPLICATE_THRESHOLD
+): string[][] {
+  const parent = images.map((_, index) => index)
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  const union = (a: number, b: number) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent[rootB] = rootA
+  }
+
+  // 内容哈希相同的图片直接合并
+  const byContent = new Map<string, number>()
+  images.forEach((image, index) => {
+    if (!image.contentHash) return
+    const existing = byContent.get(image.contentHash)
+    if (existing === undefined) {
+      byContent.set(image.contentHash, index)
+    } else {
+      union(existing, index)
+    }
+  })
+
+  for (let i = 0; i < images.length; i++) {
+    const hashA = images[i].perceptualHash
+    if (!hashA) continue
+    for (let j = i + 1; j < images.length; j++) {
+      const hashB = images[j].perceptualHash
+      if (hashB && hammingDistance(hashA, hashB) <= threshold) {
+        union(i, j)
+      }
+    }
+  }
+
+  const clusters = new Map<number, string[]>()
+  images.forEach((image, index) => {
+    const root = find(index)
+    clusters.set(root, [...(clusters.get(root) || []), image.id])
+  })
+
+  return Array.from(clusters.values()).filter(cluster => cluster.length > 1)
+}
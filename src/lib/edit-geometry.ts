@@ -0,0 +1,20 @@
+/**
+ * Edit geometry
+ * 拉直的几何计算，编辑器的实时预览和服务器渲染共用
+ */
+
+// 拉直允许的最大角度
+export const MAX_STRAIGHTEN_ANGLE = 45
+
+/**
+ * 图片旋转 angle 度后，与原图比例相同、不含空白角的最大居中矩形相对原图的缩放比例
+ */
+export function inscribedScale(width: number, height: number, angle: number): number {
+  const radians = (Math.abs(angle) * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return Math.min(
+    width / (width * cos + height * sin),
+    height / (width * sin + height * cos)
+  )
+}
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import sharp from 'sharp'
+import { copyExifToEdited } from '@/lib/edit-metadata'
+import { readExifBlock, TAG_EXIF_IFD, TAG_ORIENTATION, TiffEditor } from '@/lib/metadata-privacy'
+
+// 这里只测试文件处理，不连接数据库
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const TAG_MAKE = 0x010f
+const TAG_GPS_IFD = 0x8825
+const TAG_PIXEL_X_DIMENSION = 0xa002
+const TAG_PIXEL_Y_DIMENSION = 0xa003
+
+// 原图 8x6，方向 6（顺时针旋转 90 度显示）
+function source(): Promise<Buffer> {
+  return sharp({ create: { width: 8, height: 6, channels: 3, background: '#33c' } })
+    .withMetadata({ orientation: 6 })
+    .withExif({
+      IFD0: { Make: 'TestCam' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '31/1 14/1 2/1', GPSLongitudeRef: 'E', GPSLongitude: '121/1 28/1 30/1' },
+    })
+    .jpeg()
+    .toBuffer()
+}
+
+// 编辑结果按方向旋转为 6x8，sharp 重新编码后不带 EXIF
+function edited(format: 'jpeg' | 'png' | 'webp'): Promise<Buffer> {
+  return sharp({ create: { width: 6, height: 8, channels: 3, background: '#c33' } }).toFormat(format).toBuffer()
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe.each([
+  { format: 'jpeg', mimeType: 'image/jpeg' },
+  { format: 'png', mimeType: 'image/png' },
+  { format: 'webp', mimeType: 'image/webp' },
+] as const)('copyExifToEdited ($mimeType)', ({ format, mimeType }) => {
+  it('编辑结果带有原图的 EXIF 和 GPS，方向和尺寸已更新', async () => {
+    const original = await source()
+    const sourceExif = new TiffEditor(readExifBlock(original, 'image/jpeg')!)
+    expect(sourceExif.value(sourceExif.find(sourceExif.firstIfd, TAG_ORIENTATION)!)).toBe(6)
+
+    const output = await edited(format)
+    expect(readExifBlock(output, mimeType)).toBeNull()
+
+    const warn = vi.spyOn(console, 'warn')
+    const result = copyExifToEdited(original, 'image/jpeg', output, mimeType, 6, 8)
+    expect(warn).not.toHaveBeenCalled()
+
+    const exif = readExifBlock(result, mimeType)
+    expect(exif).not.toBeNull()
+    const editor = new TiffEditor(exif!)
+    const ifd0 = editor.firstIfd
+    expect(editor.find(ifd0, TAG_MAKE)).toBeDefined()
+    expect(editor.find(ifd0, TAG_GPS_IFD)).toBeDefined()
+    expect(editor.value(editor.find(ifd0, TAG_ORIENTATION)!)).toBe(1)
+    expect(editor.nextIfd(ifd0)).toBe(0)
+
+    const exifIfd = editor.value(editor.find(ifd0, TAG_EXIF_IFD)!)
+    expect(editor.value(editor.find(exifIfd, TAG_PIXEL_X_DIMENSION)!)).toBe(6)
+    expect(editor.value(editor.find(exifIfd, TAG_PIXEL_Y_DIMENSION)!)).toBe(8)
+
+    // 解码器能读取写入的 EXIF，且不会再按方向旋转
+    const metadata = await sharp(result).metadata()
+    expect(metadata.exif).toBeDefined()
+    expect(metadata.orientation).toBe(1)
+    expect([metadata.width, metadata.height]).toEqual([6, 8])
+  })
+
+  it('原图没有 EXIF 时原样返回', async () => {
+    const original = await edited('jpeg')
+    const output = await edited(format)
+    expect(copyExifToEdited(original, 'image/jpeg', output, mimeType, 6, 8)).toBe(output)
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Edited image metadata
+ * 编辑结果由像素重新编码，不带原图的 EXIF；这里把原图的 EXIF（相机、拍摄时间、GPS 等）写回编辑结果，
+ * 方向重置为 1（像素已经按方向旋转），图像尺寸改为编辑后的尺寸，并移除已经过时的 EXIF 缩略图
+ * 原图为 JPEG / PNG / WebP / HEIC 时复制；TIFF / DNG 的 EXIF 不能单独取出，编辑结果不带 EXIF
+ */
+
+import {
+  isJpegExif,
+  JPEG_APP0,
+  JPEG_APP1,
+  JPEG_EXIF_HEADER,
+  jpegSegment,
+  MAX_JPEG_SEGMENT_DATA,
+  pngChunk,
+  readJpeg,
+  readPng,
+  readWebp,
+  riffChunk,
+  VP8X_EXIF,
+  writeJpeg,
+  writePng,
+  writeWebp,
+} from '@/lib/image-containers'
+import { readExifBlock, TiffEditor, TAG_EXIF_IFD, TAG_ORIENTATION } from '@/lib/metadata-privacy'
+import { createVp8x } from '@/lib/embed-metadata'
+
+const TAG_IMAGE_WIDTH = 0x0100
+const TAG_IMAGE_LENGTH = 0x0101
+const TAG_PIXEL_X_DIMENSION = 0xa002
+const TAG_PIXEL_Y_DIMENSION = 0xa003
+
+/**
+ * 按编辑结果改写 EXIF：方向、尺寸和缩略图，原地修改
+ */
+function updateExif(tiff: Buffer, width: number, height: number): void {
+  const editor = new TiffEditor(tiff)
+  const ifd0 = editor.firstIfd
+
+  const orientation = editor.find(ifd0, TAG_ORIENTATION)
+  if (orientation) editor.setValue(orientation, 1)
+
+  const dimensions: Array<[number, number, number]> = [[ifd0, TAG_IMAGE_WIDTH, width], [ifd0, TAG_IMAGE_LENGTH, height]]
+  const exifPointer = editor.find(ifd0, TAG_EXIF_IFD)
+  if (exifPointer) {
+    const exifIfd = editor.value(exifPointer)
+    dimensions.push([exifIfd, TAG_PIXEL_X_DIMENSION, width], [exifIfd, TAG_PIXEL_Y_DIMENSION, height])
+  }
+  for (const [ifd, tag, value] of dimensions) {
+    const entry = editor.find(ifd, tag)
+    if (!entry) continue
+    // SHORT 放不下时移除该条目
+    if (entry.type === 3 && value > 0xffff) editor.removeEntries(ifd, candidate => candidate === tag)
+    else editor.setValue(entry, value)
+  }
+
+  // IFD1 为 EXIF 缩略图，是编辑前的画面
+  const ifd1 = editor.nextIfd(ifd0)
+  if (ifd1) {
+    editor.clearIfd(ifd1, new Set([ifd0]))
+    editor.setNextIfd(ifd0, 0)
+  }
+}
+
+function embedJpeg(buffer: Buffer, tiff: Buffer): Buffer | null {
+  const jpeg = readJpeg(buffer)
+  const data = Buffer.concat([Buffer.from(JPEG_EXIF_HEADER, 'latin1'), tiff])
+  if (!jpeg || data.length > MAX_JPEG_SEGMENT_DATA) return null
+
+  const segments = jpeg.segments.filter(segment => !isJpegExif(segment))
+  // EXIF 段紧跟在 JFIF (APP0) 之后
+  const insertAt = segments[0]?.type === JPEG_APP0 ? 1 : 0
+  const raw = segments.map(segment => segment.raw)
+  raw.splice(insertAt, 0, jpegSegment(JPEG_APP1, data))
+  return writeJpeg(raw, jpeg.imageData, jpeg.trailer)
+}
+
+function embedPng(buffer: Buffer, tiff: Buffer): Buffer | null {
+  const png = readPng(buffer)
+  if (!png) return null
+
+  const chunks = png.filter(chunk => chunk.type !== 'eXIf')
+  // eXIf 块必须位于图像数据之前
+  const idatIndex = chunks.findIndex(chunk => chunk.type === 'IDAT')
+  if (idatIndex < 0) return null
+  const raw = chunks.map(chunk => chunk.raw)
+  raw.splice(idatIndex, 0, pngChunk('eXIf', tiff))
+  return writePng(raw)
+}
+
+function embedWebp(buffer: Buffer, tiff: Buffer): Buffer | null {
+  const webp = readWebp(buffer)
+  if (!webp || webp.length === 0) return null
+
+  const vp8x = webp[0].type === 'VP8X' ? Buffer.from(webp[0].data) : createVp8x(webp[0])
+  if (!vp8x) return null
+  vp8x[0] |= VP8X_EXIF
+
+  const chunks = webp.filter(chunk => chunk.type !== 'VP8X' && chunk.type !== 'EXIF')
+  // 扩展格式中 EXIF 块位于图像数据之后、XMP 块之前
+  const xmpIndex = chunks.findIndex(chunk => chunk.type === 'XMP ')
+  const raw = chunks.map(chunk => chunk.raw)
+  raw.splice(xmpIndex < 0 ? raw.length : xmpIndex, 0, riffChunk('EXIF', tiff))
+  return writeWebp([riffChunk('VP8X', vp8x), ...raw])
+}
+
+/**
+ * 把原图的 EXIF 写入编辑结果，原图没有 EXIF 或无法处理时原样返回编辑结果
+ */
+export function copyExifToEdited(
+  source: Buffer,
+  sourceMimeType: string,
+  output: Buffer,
+  outputMimeType: string,
+  width: number,
+  height: number
+): Buffer {
+  try {
+    const tiff = readExifBlock(source, sourceMimeType)
+    if (!tiff) return output
+    updateExif(tiff, width, height)
+
+    const result = outputMimeType === 'image/jpeg'
+      ? embedJpeg(output, tiff)
+      : outputMimeType === 'image/png'
+        ? embedPng(output, tiff)
+        : outputMimeType === 'image/webp' ? embedWebp(output, tiff) : null
+    return result || output
+  } catch (error) {
+    console.warn('Copying EXIF to edited image failed:', error)
+    return output
+  }
+}
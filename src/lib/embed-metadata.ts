@@ -0,0 +1,359 @@
+/**
+ * Embedded download metadata
+ * 下载原图时把标题、描述、星级和标签写入文件的 IPTC / XMP 字段，只替换元数据段，不重新编码像素
+ * 支持 JPEG（IPTC + XMP）、PNG（XMP iTXt 块）和 WebP（XMP 块），其他格式原样返回
+ */
+
+import { prisma } from '@/lib/prisma'
+import { mergeXmpPacket, SidecarSource } from '@/lib/xmp-sidecar'
+import {
+  ContainerChunk,
+  isJpegPhotoshop,
+  isJpegXmp,
+  JPEG_APP0,
+  JPEG_APP1,
+  JPEG_APP13,
+  JPEG_XMP_NAMESPACE,
+  jpegSegment,
+  MAX_JPEG_SEGMENT_DATA,
+  PHOTOSHOP_SIGNATURE,
+  pngXmpChunk,
+  readJpeg,
+  readPng,
+  readPngXmp,
+  readWebp,
+  riffChunk,
+  VP8X_ALPHA,
+  VP8X_XMP,
+  writeJpeg,
+  writePng,
+  writeWebp,
+} from '@/lib/image-containers'
+
+const EMBEDDABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Photoshop 图像资源：IPTC-NAA 记录和它的 MD5 摘要（内容变化后旧摘要失效，直接移除）
+const RESOURCE_IPTC = 0x0404
+const RESOURCE_IPTC_DIGEST = 0x0425
+
+// IPTC IIM 数据集 (record:dataset) 及字节长度上限
+const IPTC_CODED_CHARACTER_SET = [1, 90] as const
+const IPTC_RECORD_VERSION = [2, 0] as const
+const IPTC_OBJECT_NAME = [2, 5] as const
+const IPTC_KEYWORDS = [2, 25] as const
+const IPTC_CAPTION = [2, 120] as const
+const IPTC_REPLACED = [IPTC_CODED_CHARACTER_SET, IPTC_RECORD_VERSION, IPTC_OBJECT_NAME, IPTC_KEYWORDS, IPTC_CAPTION]
+// ESC % G：声明 UTF-8 编码
+const UTF8_CHARACTER_SET = Buffer.from([0x1b, 0x25, 0x47])
+
+interface IptcDataset {
+  record: number
+  dataset: number
+  data: Buffer
+}
+
+/**
+ * 是否支持为该格式写入元数据
+ */
+export function canEmbedMetadata(mimeType: string): boolean {
+  return EMBEDDABLE_MIME_TYPES.includes(mimeType)
+}
+
+/**
+ * 读取下载原图时要写入的元数据
+ * embed 为请求参数（true / false），未指定时使用用户设置；不需要写入时返回 null
+ * 系统没有分享功能，因此只有用户和请求两级配置
+ */
+export async function loadEmbeddedMetadata(
+  imageId: string,
+  userId: string,
+  embed: string | null
+): Promise<SidecarSource | null> {
+  if (embed === 'false') return null
+  if (embed !== 'true') {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { embedMetadataOnDownload: true },
+    })
+    if (!user?.embedMetadataOnDownload) return null
+  }
+
+  const image = await prisma.image.findUnique({
+    where: { id: imageId },
+    select: {
+      title: true,
+      description: true,
+      rating: true,
+      tags: {
+        select: {
+          tag: { select: { name: true } },
+        },
+      },
+    },
+  })
+  if (!image) return null
+
+  return {
+    title: image.title,
+    description: image.description,
+    rating: image.rating,
+    // 拍摄时间已在 EXIF 中，不重复写入
+    takenAt: null,
+    keywords: image.tags.map(({ tag }) => tag.name),
+  }
+}
+
+/**
+ * 将元数据写入图片文件，格式不支持或文件结构无法识别时返回 null
+ */
+export function embedImageMetadata(buffer: Buffer, mimeType: string, source: SidecarSource): Buffer | null {
+  try {
+    switch (mimeType) {
+      case 'image/jpeg':
+        return embedJpeg(buffer, source)
+      case 'image/png':
+        return embedPng(buffer, source)
+      case 'image/webp':
+        return embedWebp(buffer, source)
+      default:
+        return null
+    }
+  } catch (error) {
+    console.warn('Metadata embedding failed:', error)
+    return null
+  }
+}
+
+// ==================== IPTC ====================
+
+/**
+ * 按字节截断 UTF-8 文本，不截断多字节字符
+ */
+function utf8(value: string, maxBytes: number): Buffer {
+  const data = Buffer.from(value, 'utf8')
+  if (data.length <= maxBytes) return data
+  let end = maxBytes
+  while (end > 0 && (data[end] & 0xc0) === 0x80) end--
+  return data.subarray(0, end)
+}
+
+function parseIptc(data: Buffer): IptcDataset[] {
+  const datasets: IptcDataset[] = []
+  let offset = 0
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1]
+    const dataset = data[offset + 2]
+    let length = data.readUInt16BE(offset + 3)
+    offset += 5
+    // 扩展长度：低 15 位为长度字段本身的字节数
+    if (length & 0x8000) {
+      const size = length & 0x7fff
+      if (size > 4 || offset + size > data.length) break
+      length = data.readUIntBE(offset, size)
+      offset += size
+    }
+    datasets.push({ record, dataset, data: data.subarray(offset, offset + length) })
+    offset += length
+  }
+  return datasets
+}
+
+function encodeIptcDataset({ record, dataset, data }: IptcDataset): Buffer {
+  const header = Buffer.from([0x1c, record, dataset, 0, 0])
+  header.writeUInt16BE(data.length, 3)
+  return Buffer.concat([header, data])
+}
+
+/**
+ * 生成 IPTC-NAA 记录：保留原有的其他数据集（作者、版权等），替换标题、说明和关键词
+ */
+function buildIptc(existing: Buffer | null, source: SidecarSource): Buffer {
+  const kept = (existing ? parseIptc(existing) : []).filter(item =>
+    !IPTC_REPLACED.some(([record, dataset]) => item.record === record && item.dataset === dataset)
+  )
+
+  const datasets: IptcDataset[] = [
+    { record: 1, dataset: IPTC_CODED_CHARACTER_SET[1], data: UTF8_CHARACTER_SET },
+    ...kept.filter(item => item.record === 1),
+    { record: 2, dataset: IPTC_RECORD_VERSION[1], data: Buffer.from([0, 4]) },
+  ]
+  if (source.title) {
+    datasets.push({ record: 2, dataset: IPTC_OBJECT_NAME[1], data: utf8(source.title, 64) })
+  }
+  for (const keyword of source.keywords) {
+    datasets.push({ record: 2, dataset: IPTC_KEYWORDS[1], data: utf8(keyword, 64) })
+  }
+  if (source.description) {
+    datasets.push({ record: 2, dataset: IPTC_CAPTION[1], data: utf8(source.description, 2000) })
+  }
+  datasets.push(...kept.filter(item => item.record !== 1))
+
+  return Buffer.concat(datasets.map(encodeIptcDataset))
+}
+
+/**
+ * 替换 Photoshop 图像资源块 (APP13) 中的 IPTC 记录，其他资源原样保留
+ */
+function buildPhotoshopResources(existing: Buffer | null, source: SidecarSource): Buffer {
+  const resources: Buffer[] = []
+  let iptc: Buffer | null = null
+
+  let offset = 0
+  while (existing && offset + 12 <= existing.length && existing.toString('ascii', offset, offset + 4) === '8BIM') {
+    const id = existing.readUInt16BE(offset + 4)
+    // 资源名称为 Pascal 字符串，补齐到偶数长度
+    const nameLength = existing[offset + 6]
+    const nameSize = (nameLength + 2) & ~1
+    const sizeOffset = offset + 6 + nameSize
+    if (sizeOffset + 4 > existing.length) break
+    const size = existing.readUInt32BE(sizeOffset)
+    const end = sizeOffset + 4 + size + (size & 1)
+
+    if (id === RESOURCE_IPTC) {
+      iptc = existing.subarray(sizeOffset + 4, sizeOffset + 4 + size)
+    } else if (id !== RESOURCE_IPTC_DIGEST) {
+      resources.push(existing.subarray(offset, Math.min(end, existing.length)))
+    }
+    offset = end
+  }
+
+  const data = buildIptc(iptc, source)
+  const header = Buffer.alloc(12)
+  header.write('8BIM', 0, 'ascii')
+  header.writeUInt16BE(RESOURCE_IPTC, 4)
+  // 空名称：长度 0 + 1 字节填充
+  header.writeUInt32BE(data.length, 8)
+  resources.push(header, data, Buffer.alloc(data.length & 1))
+
+  return Buffer.concat(resources)
+}
+
+// ==================== JPEG ====================
+
+function embedJpeg(buffer: Buffer, source: SidecarSource): Buffer | null {
+  const jpeg = readJpeg(buffer)
+  if (!jpeg) return null
+
+  const kept: Buffer[] = []
+  let xmp: string | null = null
+  let photoshop: Buffer | null = null
+  // 新的段插入在 APP0 (JFIF) / APP1 (EXIF) 之后
+  let insertAt = 0
+
+  for (const segment of jpeg.segments) {
+    if (isJpegXmp(segment)) {
+      xmp = segment.data.subarray(JPEG_XMP_NAMESPACE.length).toString('utf8')
+    } else if (isJpegPhotoshop(segment)) {
+      // 超过单段长度的资源块会拆分到多个 APP13 段，按顺序拼接
+      photoshop = Buffer.concat([photoshop || Buffer.alloc(0), segment.data.subarray(PHOTOSHOP_SIGNATURE.length)])
+    } else {
+      kept.push(segment.raw)
+      if (segment.type === JPEG_APP0 || segment.type === JPEG_APP1) insertAt = kept.length
+    }
+  }
+
+  let packet = Buffer.from(mergeXmpPacket(xmp, source), 'utf8')
+  if (packet.length + JPEG_XMP_NAMESPACE.length > MAX_JPEG_SEGMENT_DATA) {
+    // 合并后超出单段长度时只写入这里管理的属性
+    packet = Buffer.from(mergeXmpPacket(null, source), 'utf8')
+  }
+  const xmpSegment = jpegSegment(JPEG_APP1, Buffer.concat([Buffer.from(JPEG_XMP_NAMESPACE, 'latin1'), packet]))
+
+  const resources = buildPhotoshopResources(photoshop, source)
+  const chunkSize = MAX_JPEG_SEGMENT_DATA - PHOTOSHOP_SIGNATURE.length
+  const photoshopSegments: Buffer[] = []
+  for (let start = 0; start < resources.length; start += chunkSize) {
+    photoshopSegments.push(jpegSegment(JPEG_APP13, Buffer.concat([
+      Buffer.from(PHOTOSHOP_SIGNATURE, 'latin1'),
+      resources.subarray(start, start + chunkSize),
+    ])))
+  }
+
+  kept.splice(insertAt, 0, xmpSegment, ...photoshopSegments)
+  return writeJpeg(kept, jpeg.imageData, jpeg.trailer)
+}
+
+// ==================== PNG ====================
+
+function embedPng(buffer: Buffer, source: SidecarSource): Buffer | null {
+  const png = readPng(buffer)
+  if (!png) return null
+
+  const chunks: Buffer[] = []
+  let xmp: string | null = null
+  let idatIndex = -1
+
+  for (const chunk of png) {
+    const existing = readPngXmp(chunk)
+    if (existing !== null) {
+      xmp = existing
+    } else {
+      if (chunk.type === 'IDAT' && idatIndex < 0) idatIndex = chunks.length
+      chunks.push(chunk.raw)
+    }
+  }
+  if (idatIndex < 0) return null
+
+  // XMP 块放在图像数据之前，读取时无需扫描整个文件
+  chunks.splice(idatIndex, 0, pngXmpChunk(mergeXmpPacket(xmp, source)))
+  return writePng(chunks)
+}
+
+// ==================== WebP ====================
+
+/**
+ * 为简单格式（只有 VP8 / VP8L 块）的 WebP 生成扩展格式头，画布尺寸从图像数据中读取
+ */
+export function createVp8x({ type, data }: ContainerChunk): Buffer | null {
+  let width: number
+  let height: number
+  let alpha = false
+
+  if (type === 'VP8 ') {
+    // 关键帧起始码之后为 14 位宽高
+    if (data.length < 10 || data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) return null
+    width = data.readUInt16LE(6) & 0x3fff
+    height = data.readUInt16LE(8) & 0x3fff
+  } else if (type === 'VP8L') {
+    if (data.length < 5 || data[0] !== 0x2f) return null
+    const bits = data.readUInt32LE(1)
+    width = (bits & 0x3fff) + 1
+    height = ((bits >> 14) & 0x3fff) + 1
+    alpha = ((bits >> 28) & 1) === 1
+  } else {
+    return null
+  }
+
+  const vp8x = Buffer.alloc(10)
+  vp8x[0] = alpha ? VP8X_ALPHA : 0
+  vp8x.writeUIntLE(width - 1, 4, 3)
+  vp8x.writeUIntLE(height - 1, 7, 3)
+  return vp8x
+}
+
+function embedWebp(buffer: Buffer, source: SidecarSource): Buffer | null {
+  const webp = readWebp(buffer)
+  if (!webp || webp.length === 0) return null
+
+  const vp8x = webp[0].type === 'VP8X' ? Buffer.from(webp[0].data) : createVp8x(webp[0])
+  if (!vp8x) return null
+
+  const chunks: Buffer[] = []
+  let xmp: string | null = null
+  for (const chunk of webp) {
+    if (chunk.type === 'VP8X') continue
+    if (chunk.type === 'XMP ') {
+      xmp = chunk.data.toString('utf8')
+    } else {
+      chunks.push(chunk.raw)
+    }
+  }
+
+  vp8x[0] |= VP8X_XMP
+  return writeWebp([
+    riffChunk('VP8X', vp8x),
+    ...chunks,
+    // 扩展格式中 XMP 块位于图像数据之后
+    riffChunk('XMP ', Buffer.from(mergeXmpPacket(xmp, source), 'utf8')),
+  ])
+}
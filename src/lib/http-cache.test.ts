@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { buildETag, isNotModified, isRangeValid, parseRange } from '@/lib/http-cache'
+
+describe('parseRange', () => {
+  it('没有 Range 头时返回 null', () => {
+    expect(parseRange(null, 1000)).toBeNull()
+    expect(parseRange('', 1000)).toBeNull()
+  })
+
+  it('解析起止范围', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 })
+    expect(parseRange(' bytes=100-199 ', 1000)).toEqual({ start: 100, end: 199 })
+  })
+
+  it('省略结束位置时读到末尾', () => {
+    expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 })
+  })
+
+  it('结束位置超出内容长度时截断', () => {
+    expect(parseRange('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 })
+  })
+
+  it('后缀范围返回最后 N 个字节', () => {
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 })
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 })
+  })
+
+  it('起始位置超出内容长度或后缀为 0 时无法满足', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable')
+    expect(parseRange('bytes=2000-3000', 1000)).toBe('unsatisfiable')
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable')
+  })
+
+  it('无法识别、多段或结束小于起始的范围被忽略', () => {
+    expect(parseRange('bytes=-', 1000)).toBeNull()
+    expect(parseRange('items=0-10', 1000)).toBeNull()
+    expect(parseRange('bytes=0-10,20-30', 1000)).toBeNull()
+    expect(parseRange('bytes=50-10', 1000)).toBeNull()
+  })
+})
+
+describe('isRangeValid', () => {
+  const etag = buildETag('a'.repeat(64))
+  const lastModified = new Date('2024-05-01T12:34:56.789Z')
+
+  it('没有 If-Range 时允许范围请求', () => {
+    expect(isRangeValid(new Headers(), etag, lastModified)).toBe(true)
+  })
+
+  it('强 ETag 相同时允许，不同或弱 ETag 时返回完整内容', () => {
+    expect(isRangeValid(new Headers({ 'if-range': etag }), etag, lastModified)).toBe(true)
+    expect(isRangeValid(new Headers({ 'if-range': '"other"' }), etag, lastModified)).toBe(false)
+    expect(isRangeValid(new Headers({ 'if-range': `W/${etag}` }), etag, lastModified)).toBe(false)
+  })
+
+  it('HTTP 日期按秒精度比较', () => {
+    const date = lastModified.toUTCString()
+    expect(isRangeValid(new Headers({ 'if-range': date }), etag, lastModified)).toBe(true)
+    expect(isRangeValid(new Headers({ 'if-range': new Date('2024-04-01').toUTCString() }), etag, lastModified)).toBe(false)
+    expect(isRangeValid(new Headers({ 'if-range': 'not a date' }), etag, lastModified)).toBe(false)
+  })
+})
+
+describe('isNotModified', () => {
+  const etag = buildETag('b'.repeat(64), 'medium')
+  const lastModified = new Date('2024-05-01T12:34:56.789Z')
+
+  it('If-None-Match 支持列表、* 和弱 ETag', () => {
+    expect(isNotModified(new Headers({ 'if-none-match': `"x", W/${etag}` }), etag, lastModified)).toBe(true)
+    expect(isNotModified(new Headers({ 'if-none-match': '*' }), etag, lastModified)).toBe(true)
+    expect(isNotModified(new Headers({ 'if-none-match': '"x"' }), etag, lastModified)).toBe(false)
+  })
+
+  it('If-None-Match 存在时忽略 If-Modified-Since', () => {
+    const headers = new Headers({
+      'if-none-match': '"x"',
+      'if-modified-since': lastModified.toUTCString(),
+    })
+    expect(isNotModified(headers, etag, lastModified)).toBe(false)
+  })
+
+  it('If-Modified-Since 不早于修改时间时返回 304', () => {
+    expect(isNotModified(new Headers({ 'if-modified-since': lastModified.toUTCString() }), etag, lastModified)).toBe(true)
+    expect(isNotModified(new Headers({ 'if-modified-since': 'Mon, 01 Apr 2024 00:00:00 GMT' }), etag, lastModified)).toBe(false)
+  })
+})
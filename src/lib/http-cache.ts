@@ -0,0 +1,108 @@
+/**
+ * HTTP 缓存与范围请求工具
+ * 用于图片文件接口的 ETag / 条件请求 (304) / Range (206) 处理
+ */
+
+import { createHash } from 'crypto'
+
+export type ByteRange = { start: number; end: number }
+
+/**
+ * 计算 SHA-256 十六进制摘要
+ */
+export function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * 由内容哈希和表示形式（尺寸、格式等）生成强 ETag
+ */
+export function buildETag(contentHash: string, variant?: string): string {
+  const tag = variant ? sha256Hex(`${contentHash}:${variant}`).slice(0, 32) : contentHash.slice(0, 32)
+  return `"${tag}"`
+}
+
+/**
+ * 判断 If-None-Match 是否命中给定 ETag（支持列表和 *，按弱比较处理 W/ 前缀）
+ */
+function matchesETag(header: string, etag: string): boolean {
+  if (header.trim() === '*') return true
+  return header
+    .split(',')
+    .map(value => value.trim().replace(/^W\//, ''))
+    .includes(etag)
+}
+
+/**
+ * 根据条件请求头判断是否可以返回 304
+ * If-None-Match 存在时优先使用，忽略 If-Modified-Since（RFC 9110 13.2.2）
+ */
+export function isNotModified(headers: Headers, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    return matchesETag(ifNoneMatch, etag)
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    // HTTP 日期精度为秒
+    if (!isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * 判断 If-Range 是否允许按 Range 返回部分内容
+ * If-Range 只接受强 ETag 或 HTTP 日期
+ */
+export function isRangeValid(headers: Headers, etag: string, lastModified: Date): boolean {
+  const ifRange = headers.get('if-range')
+  if (!ifRange) return true
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag
+  }
+
+  const date = Date.parse(ifRange)
+  return !isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 === date
+}
+
+/**
+ * 解析 Range 请求头（只支持单个 bytes 范围）
+ * - null: 没有 Range 头，或格式无法识别 / 多段范围，应返回完整内容
+ * - 'unsatisfiable': 范围超出内容长度，应返回 416
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match) return null
+
+  const [, startText, endText] = match
+  if (!startText && !endText) return null
+
+  let start: number
+  let end: number
+
+  if (!startText) {
+    // 后缀范围 bytes=-500：最后 500 个字节
+    const suffix = parseInt(endText, 10)
+    if (suffix === 0) return 'unsatisfiable'
+    start = Math.max(0, size - suffix)
+    end = size - 1
+  } else {
+    start = parseInt(startText, 10)
+    const last = endText ? parseInt(endText, 10) : Infinity
+    // last < first 属于无效范围，按规范忽略 Range 头
+    if (last < start) return null
+    end = Math.min(last, size - 1)
+  }
+
+  if (start >= size) return 'unsatisfiable'
+
+  return { start, end }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import sharp from 'sharp'
+import {
+  crc32,
+  isJpegExif,
+  JPEG_COM,
+  jpegSegment,
+  pngChunk,
+  pngXmpChunk,
+  readJpeg,
+  readPng,
+  readPngXmp,
+  readWebp,
+  riffChunk,
+  writeJpeg,
+  writePng,
+  writeWebp,
+} from '@/lib/image-containers'
+
+function encode(format: 'jpeg' | 'png' | 'webp'): Promise<Buffer> {
+  return sharp({ create: { width: 8, height: 6, channels: 3, background: '#c33' } })
+    .withExif({ IFD0: { Make: 'TestCam' } })
+    .toFormat(format)
+    .toBuffer()
+}
+
+describe('crc32', () => {
+  it('与标准 CRC-32 校验值一致', () => {
+    expect(crc32(Buffer.alloc(0))).toBe(0)
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+    expect(crc32(Buffer.from('IEND'))).toBe(0xae426082)
+  })
+
+  it('多个 Buffer 与拼接后的结果相同', () => {
+    expect(crc32(Buffer.from('1234'), Buffer.from('56789'))).toBe(crc32(Buffer.from('123456789')))
+  })
+})
+
+describe('JPEG', () => {
+  it('读取后原样写回与原文件相同', async () => {
+    const buffer = await encode('jpeg')
+    const jpeg = readJpeg(buffer)!
+    expect(jpeg.segments.some(isJpegExif)).toBe(true)
+    expect(writeJpeg(jpeg.segments.map(segment => segment.raw), jpeg.imageData, jpeg.trailer)).toEqual(buffer)
+  })
+
+  it('保留 EOI 之后的附加数据', async () => {
+    const trailer = Buffer.from([0xff, 0xd8, 0xff, 0xd9])
+    const jpeg = readJpeg(Buffer.concat([await encode('jpeg'), trailer]))!
+    expect(jpeg.trailer).toEqual(trailer)
+  })
+
+  it('插入的段可以被读取，图片仍可解码', async () => {
+    const jpeg = readJpeg(await encode('jpeg'))!
+    const comment = jpegSegment(JPEG_COM, Buffer.from('hello'))
+    const output = writeJpeg([...jpeg.segments.map(segment => segment.raw), comment], jpeg.imageData)
+
+    const segment = readJpeg(output)!.segments.find(({ type }) => type === JPEG_COM)
+    expect(segment?.data.toString()).toBe('hello')
+    expect((await sharp(output).metadata()).width).toBe(8)
+  })
+
+  it('不是 JPEG 时返回 null', async () => {
+    expect(readJpeg(await encode('png'))).toBeNull()
+  })
+})
+
+describe('PNG', () => {
+  it('读取后原样写回与原文件相同，重新生成的块与原块相同', async () => {
+    const buffer = await encode('png')
+    const chunks = readPng(buffer)!
+    expect(chunks.map(({ type }) => type)).toContain('eXIf')
+    expect(writePng(chunks.map(chunk => chunk.raw))).toEqual(buffer)
+    for (const chunk of chunks) {
+      expect(pngChunk(chunk.type, Buffer.from(chunk.data))).toEqual(chunk.raw)
+    }
+  })
+
+  it('XMP 块写入后可以读回，图片仍可解码', async () => {
+    const packet = '<x:xmpmeta xmlns:x="adobe:ns:meta/">标题</x:xmpmeta>'
+    const [ihdr, ...rest] = readPng(await encode('png'))!
+    const output = writePng([ihdr.raw, pngXmpChunk(packet), ...rest.map(chunk => chunk.raw)])
+
+    const xmp = readPng(output)!.map(readPngXmp).find(text => text !== null)
+    expect(xmp).toBe(packet)
+    expect((await sharp(output).metadata()).width).toBe(8)
+  })
+
+  it('块长度超出文件时返回 null', async () => {
+    const buffer = await encode('png')
+    expect(readPng(buffer.subarray(0, buffer.length - 20))).toBeNull()
+    expect(readPng(await encode('jpeg'))).toBeNull()
+  })
+})
+
+describe('WebP', () => {
+  it('读取后原样写回与原文件相同', async () => {
+    const buffer = await encode('webp')
+    const chunks = readWebp(buffer)!
+    expect(chunks.map(({ type }) => type)).toEqual(expect.arrayContaining(['VP8X', 'EXIF']))
+    expect(writeWebp(chunks.map(chunk => chunk.raw))).toEqual(buffer)
+  })
+
+  it('奇数长度的块补齐到偶数长度', async () => {
+    const chunk = riffChunk('XMP ', Buffer.from('abc'))
+    expect(chunk.length).toBe(12)
+    expect(chunk.readUInt32LE(4)).toBe(3)
+
+    const output = writeWebp([...readWebp(await encode('webp'))!.map(({ raw }) => raw), chunk])
+    expect(readWebp(output)!.at(-1)?.data.toString()).toBe('abc')
+    expect((await sharp(output).metadata()).width).toBe(8)
+  })
+
+  it('不是 WebP 时返回 null', async () => {
+    expect(readWebp(await encode('png'))).toBeNull()
+  })
+})
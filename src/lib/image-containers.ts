@@ -0,0 +1,269 @@
+/**
+ * Image containers
+ * JPEG 段、PNG 块和 WebP (RIFF) 块的读取与写入，用于只修改元数据而不重新编码像素
+ */
+
+import zlib from 'zlib'
+
+export interface ContainerChunk {
+  // JPEG 为标记字节的十六进制（如 e1），PNG / WebP 为块类型
+  type: string
+  // 块内容（不含头部）
+  data: Buffer
+  // 包含头部的完整字节，原样写回时使用
+  raw: Buffer
+}
+
+export interface JpegStructure {
+  // SOS 之前的段
+  segments: ContainerChunk[]
+  // 从 SOS 开始的压缩数据，直到主图像的 EOI（含）
+  imageData: Buffer
+  // 主图像 EOI 之后的数据，如 MPF 附加图像（HDR 增益图、深度图等）
+  trailer: Buffer
+}
+
+// ==================== JPEG ====================
+
+export const JPEG_APP0 = 'e0'
+export const JPEG_APP1 = 'e1'
+export const JPEG_APP2 = 'e2'
+export const JPEG_APP13 = 'ed'
+export const JPEG_COM = 'fe'
+
+// 段长度字段为 2 字节（含自身）
+export const MAX_JPEG_SEGMENT_DATA = 0xffff - 2
+
+export const JPEG_EXIF_HEADER = 'Exif\0\0'
+export const JPEG_XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+export const JPEG_EXTENDED_XMP_NAMESPACE = 'http://ns.adobe.com/xmp/extension/\0'
+export const PHOTOSHOP_SIGNATURE = 'Photoshop 3.0\0'
+
+function hasPrefix(segment: ContainerChunk, type: string, prefix: string): boolean {
+  return segment.type === type && segment.data.toString('latin1', 0, prefix.length) === prefix
+}
+
+export function isJpegExif(segment: ContainerChunk): boolean {
+  return hasPrefix(segment, JPEG_APP1, JPEG_EXIF_HEADER)
+}
+
+export function isJpegXmp(segment: ContainerChunk): boolean {
+  return hasPrefix(segment, JPEG_APP1, JPEG_XMP_NAMESPACE)
+}
+
+export function isJpegExtendedXmp(segment: ContainerChunk): boolean {
+  return hasPrefix(segment, JPEG_APP1, JPEG_EXTENDED_XMP_NAMESPACE)
+}
+
+export function isJpegPhotoshop(segment: ContainerChunk): boolean {
+  return hasPrefix(segment, JPEG_APP13, PHOTOSHOP_SIGNATURE)
+}
+
+// APP2 中的多图格式索引 (Multi-Picture Format)，指向 EOI 之后的附加图像
+export function isJpegMpf(segment: ContainerChunk): boolean {
+  return hasPrefix(segment, JPEG_APP2, 'MPF\0')
+}
+
+/**
+ * 拆分 JPEG 的元数据段和图像数据，不是 JPEG 或结构损坏时返回 null
+ */
+export function readJpeg(buffer: Buffer): JpegStructure | null {
+  if (buffer[0] !== 0xff || buffer[1] !== 0xd8) return null
+
+  const segments: ContainerChunk[] = []
+  let offset = 2
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null
+    const marker = buffer[offset + 1]
+    // 段之间允许填充的 0xff
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0xda) break
+
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2)
+    if (end > buffer.length) return null
+    segments.push({
+      type: marker.toString(16),
+      data: buffer.subarray(offset + 4, end),
+      raw: buffer.subarray(offset, end),
+    })
+    offset = end
+  }
+
+  // 跳过压缩数据（0xff 后为 0x00 填充或 RST 标记），渐进式 JPEG 各扫描之间的段按长度跳过，直到主图像的 EOI
+  let end = offset
+  while (end + 1 < buffer.length) {
+    if (buffer[end] !== 0xff) {
+      end++
+      continue
+    }
+    const marker = buffer[end + 1]
+    if (marker === 0xd9) {
+      end += 2
+      break
+    }
+    if (marker === 0x00 || marker === 0xff || (marker >= 0xd0 && marker <= 0xd7)) {
+      end += marker === 0xff ? 1 : 2
+      continue
+    }
+    if (end + 4 > buffer.length) return null
+    end += 2 + buffer.readUInt16BE(end + 2)
+  }
+  end = Math.min(end, buffer.length)
+
+  return {
+    segments,
+    imageData: buffer.subarray(offset, end),
+    trailer: buffer.subarray(end),
+  }
+}
+
+/**
+ * 生成 JPEG 段，data 不能超过 65533 字节
+ */
+export function jpegSegment(type: string, data: Buffer): Buffer {
+  const header = Buffer.from([0xff, parseInt(type, 16), 0, 0])
+  header.writeUInt16BE(data.length + 2, 2)
+  return Buffer.concat([header, data])
+}
+
+/**
+ * 按 SOI + 段 + 图像数据 + 附加数据重新拼接 JPEG
+ */
+export function writeJpeg(segments: Buffer[], imageData: Buffer, trailer?: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), ...segments, imageData, ...(trailer ? [trailer] : [])])
+}
+
+// ==================== PNG ====================
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/**
+ * 读取 PNG 的全部块（到 IEND 为止），不是 PNG 时返回 null
+ */
+export function readPng(buffer: Buffer): ContainerChunk[] | null {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return null
+
+  const chunks: ContainerChunk[] = []
+  let offset = 8
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+    const end = offset + 12 + length
+    if (end > buffer.length) return null
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length), raw: buffer.subarray(offset, end) })
+    offset = end
+    if (type === 'IEND') break
+  }
+  return chunks
+}
+
+// PNG 块校验用的 CRC-32 表（zlib.crc32 要求 Node.js 20.15+，生产镜像为 Node.js 18）
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(...buffers: Buffer[]): number {
+  let crc = 0xffffffff
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i++) {
+      crc = CRC32_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8)
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export function pngChunk(type: string, data: Buffer): Buffer {
+  const typeBuffer = Buffer.from(type, 'ascii')
+  const chunk = Buffer.alloc(12 + data.length)
+  chunk.writeUInt32BE(data.length, 0)
+  typeBuffer.copy(chunk, 4)
+  data.copy(chunk, 8)
+  chunk.writeUInt32BE(crc32(typeBuffer, data), 8 + data.length)
+  return chunk
+}
+
+export function writePng(chunks: Buffer[]): Buffer {
+  return Buffer.concat([PNG_SIGNATURE, ...chunks])
+}
+
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+
+/**
+ * 读取 XMP iTXt 块的文本，不是 XMP 块时返回 null
+ */
+export function readPngXmp({ type, data }: ContainerChunk): string | null {
+  if (type !== 'iTXt') return null
+  const keywordEnd = data.indexOf(0)
+  if (keywordEnd < 0 || data.toString('latin1', 0, keywordEnd) !== PNG_XMP_KEYWORD) return null
+
+  const compressed = data[keywordEnd + 1] === 1
+  // 跳过语言标记和翻译后的关键词
+  const languageEnd = data.indexOf(0, keywordEnd + 3)
+  const translatedEnd = data.indexOf(0, languageEnd + 1)
+  const text = data.subarray(translatedEnd + 1)
+  return (compressed ? zlib.inflateSync(text) : text).toString('utf8')
+}
+
+/**
+ * 生成未压缩的 XMP iTXt 块
+ */
+export function pngXmpChunk(packet: string): Buffer {
+  // 关键词 + 结束符 + 未压缩标记 + 压缩方式 + 空语言标记 + 空翻译关键词
+  return pngChunk('iTXt', Buffer.concat([
+    Buffer.from(`${PNG_XMP_KEYWORD}\0\0\0\0\0`, 'latin1'),
+    Buffer.from(packet, 'utf8'),
+  ]))
+}
+
+// ==================== WebP ====================
+
+// VP8X 扩展格式头的标志位
+export const VP8X_XMP = 0x04
+export const VP8X_EXIF = 0x08
+export const VP8X_ALPHA = 0x10
+
+/**
+ * 读取 WebP 的全部 RIFF 块，不是 WebP 时返回 null
+ */
+export function readWebp(buffer: Buffer): ContainerChunk[] | null {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WEBP') return null
+
+  const chunks: ContainerChunk[] = []
+  let offset = 12
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('ascii', offset, offset + 4)
+    const size = buffer.readUInt32LE(offset + 4)
+    if (offset + 8 + size > buffer.length) return null
+    // 块内容补齐到偶数长度
+    const end = Math.min(offset + 8 + size + (size & 1), buffer.length)
+    chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + size), raw: buffer.subarray(offset, end) })
+    offset = end
+  }
+  return chunks
+}
+
+export function riffChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8)
+  header.write(type, 0, 'ascii')
+  header.writeUInt32LE(data.length, 4)
+  return Buffer.concat([header, data, Buffer.alloc(data.length & 1)])
+}
+
+export function writeWebp(chunks: Buffer[]): Buffer {
+  const body = Buffer.concat([Buffer.from('WEBP', 'ascii'), ...chunks])
+  const header = Buffer.alloc(8)
+  header.write('RIFF', 0, 'ascii')
+  header.writeUInt32LE(body.length, 4)
+  return Buffer.concat([header, body])
+}
@@ -0,0 +1,189 @@
+/**
+ * On-demand image derivatives
+ * 根据 w / h / fit / format / quality 参数用 sharp 生成衍生图片，并协商 WebP / AVIF
+ */
+
+import sharp from 'sharp'
+import { getDerivativeCache } from '@/lib/derivative-cache'
+import { sha256Hex } from '@/lib/http-cache'
+
+// 允许的宽高白名单，限制可生成的衍生文件数量，防止任意尺寸请求耗尽 CPU 和磁盘
+export const ALLOWED_DIMENSIONS = [
+  64, 96, 128, 150, 200, 256, 320, 400, 480, 640, 800, 960, 1080, 1280, 1600, 1920, 2560,
+]
+
+const ALLOWED_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const
+const ALLOWED_FORMATS = ['jpeg', 'webp', 'avif', 'png'] as const
+
+const MIN_QUALITY = 30
+const MAX_QUALITY = 95
+const DEFAULT_QUALITY = 80
+
+export type DerivativeFit = typeof ALLOWED_FITS[number]
+export type DerivativeFormat = typeof ALLOWED_FORMATS[number]
+
+export interface DerivativeOptions {
+  width: number | null
+  height: number | null
+  fit: DerivativeFit
+  format: DerivativeFormat
+  quality: number
+  // format 由 Accept 头协商得出时为 true，响应需要 Vary: Accept
+  negotiated: boolean
+}
+
+const DERIVATIVE_PARAMS = ['w', 'h', 'fit', 'format', 'quality']
+
+/**
+ * 请求是否带有衍生图片参数
+ */
+export function hasDerivativeParams(searchParams: URLSearchParams): boolean {
+  return DERIVATIVE_PARAMS.some(name => searchParams.has(name))
+}
+
+/**
+ * 根据 Accept 头选择客户端支持的最优格式：AVIF > WebP > JPEG
+ */
+export function negotiateFormat(accept: string | null): DerivativeFormat {
+  const value = accept || ''
+  if (value.includes('image/avif')) return 'avif'
+  if (value.includes('image/webp')) return 'webp'
+  return 'jpeg'
+}
+
+function parseDimension(value: string | null): number | null | 'invalid' {
+  if (value === null) return null
+  const dimension = Number(value)
+  return ALLOWED_DIMENSIONS.includes(dimension) ? dimension : 'invalid'
+}
+
+/**
+ * 解析并校验衍生图片参数
+ */
+export function parseDerivativeOptions(
+  searchParams: URLSearchParams,
+  accept: string | null
+): { options?: DerivativeOptions; error?: string } {
+  const width = parseDimension(searchParams.get('w'))
+  const height = parseDimension(searchParams.get('h'))
+  if (width === 'invalid' || height === 'invalid') {
+    return { error: `w 和 h 只能取以下值: ${ALLOWED_DIMENSIONS.join(', ')}` }
+  }
+
+  const fit = (searchParams.get('fit') || 'inside') as DerivativeFit
+  if (!ALLOWED_FITS.includes(fit)) {
+    return { error: `fit 只能取以下值: ${ALLOWED_FITS.join(', ')}` }
+  }
+
+  const formatParam = searchParams.get('format') || 'auto'
+  const negotiated = formatParam === 'auto'
+  const format = negotiated
+    ? negotiateFormat(accept)
+    : (formatParam === 'jpg' ? 'jpeg' : formatParam) as DerivativeFormat
+  if (!ALLOWED_FORMATS.includes(format)) {
+    return { error: `format 只能取以下值: auto, ${ALLOWED_FORMATS.join(', ')}` }
+  }
+
+  // 质量按 5 取整，减少缓存变体数量
+  const qualityParam = searchParams.get('quality')
+  let quality = DEFAULT_QUALITY
+  if (qualityParam !== null) {
+    const parsed = Number(qualityParam)
+    if (!Number.isFinite(parsed)) {
+      return { error: 'quality 必须是数字' }
+    }
+    quality = Math.min(MAX_QUALITY, Math.max(MIN_QUALITY, Math.round(parsed / 5) * 5))
+  }
+
+  return {
+    options: { width, height, fit, format, quality, negotiated },
+  }
+}
+
+/**
+ * 与预生成缩略图同规格的衍生图片参数
+ * 缩略图由后台任务生成，任务完成前文件接口用它临时从全尺寸图片生成
+ */
+export function thumbnailDerivativeOptions(size: string): DerivativeOptions {
+  const base = { format: 'jpeg' as const, quality: DEFAULT_QUALITY, negotiated: false }
+  switch (size) {
+    case 'small':
+      return { ...base, width: 150, height: 150, fit: 'cover' }
+    case 'large':
+    case 'animated':
+      return { ...base, width: 800, height: 800, fit: 'inside' }
+    case 'medium':
+    default:
+      return { ...base, width: 400, height: 400, fit: 'cover' }
+  }
+}
+
+/**
+ * 衍生图片的变体描述，用于缓存 key 和 ETag
+ */
+export function describeDerivative(options: DerivativeOptions): string {
+  return `${options.width ?? 'auto'}x${options.height ?? 'auto'}:${options.fit}:${options.format}:q${options.quality}`
+}
+
+async function renderDerivative(source: Buffer, options: DerivativeOptions): Promise<Buffer> {
+  // 与预生成缩略图一致，转换到 sRGB 并嵌入 sRGB 配置文件
+  let pipeline = sharp(source).rotate().withIccProfile('srgb')
+
+  if (options.width || options.height) {
+    pipeline = pipeline.resize({
+      width: options.width ?? undefined,
+      height: options.height ?? undefined,
+      fit: options.fit,
+      withoutEnlargement: true,
+    })
+  }
+
+  switch (options.format) {
+    case 'webp':
+      return pipeline.webp({ quality: options.quality }).toBuffer()
+    case 'avif':
+      return pipeline.avif({ quality: options.quality }).toBuffer()
+    case 'png':
+      return pipeline.png({ compressionLevel: 9 }).toBuffer()
+    case 'jpeg':
+    default:
+      return pipeline.jpeg({ quality: options.quality, progressive: true, mozjpeg: true }).toBuffer()
+  }
+}
+
+// 同一衍生图片的并发请求共享一次生成
+const inflight = new Map<string, Promise<Buffer>>()
+
+/**
+ * 获取衍生图片：优先读取磁盘缓存，未命中时生成并写入缓存
+ * sourceKey 为原图的存储 key（每次编辑都会更换），保证编辑后不会命中旧缓存
+ */
+export async function getDerivative(
+  sourceKey: string,
+  loadSource: () => Promise<Buffer>,
+  options: DerivativeOptions
+): Promise<Buffer> {
+  const cacheKey = sha256Hex(`${sourceKey}:${describeDerivative(options)}`)
+  const cache = getDerivativeCache()
+
+  const cached = await cache.get(cacheKey)
+  if (cached) return cached
+
+  const pending = inflight.get(cacheKey)
+  if (pending) return pending
+
+  const task = (async () => {
+    const output = await renderDerivative(await loadSource(), options)
+    await cache.set(cacheKey, output).catch(error => {
+      console.error('[Derivatives] Failed to write cache:', error)
+    })
+    return output
+  })()
+
+  inflight.set(cacheKey, task)
+  try {
+    return await task
+  } finally {
+    inflight.delete(cacheKey)
+  }
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import sharp from 'sharp'
+
+const { findUnique, get } = vi.hoisted(() => ({ findUnique: vi.fn(), get: vi.fn() }))
+
+// 这里只测试渲染，不连接数据库和存储
+vi.mock('@/lib/prisma', () => ({ prisma: { image: { findUnique } } }))
+vi.mock('@/lib/storage', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/storage')>(),
+  getStorage: () => ({ get }),
+}))
+
+import { editStackSchema, readEditStack, renderEditPreview, renderEdits } from '@/lib/image-edits'
+import { inscribedScale } from '@/lib/edit-geometry'
+
+// 60x20 的灰色 PNG，编辑结果同样输出无损的 PNG
+function source(width = 60, height = 20): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 200, b: 200 } } })
+    .png()
+    .toBuffer()
+}
+
+async function render(operations: unknown[], input?: Buffer) {
+  const { buffer, mimeType } = await renderEdits(input ?? await source(), 'image/png', editStackSchema.parse(operations))
+  expect(mimeType).toBe('image/png')
+  const { data, info } = await sharp(buffer).raw().toBuffer({ resolveWithObject: true })
+  return { size: [info.width, info.height], pixel: data[0] }
+}
+
+// 8 位取整的误差
+function expectLevel(actual: number, expected: number) {
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(1)
+}
+
+describe('readEditStack', () => {
+  it('格式不正确时视为未编辑', () => {
+    expect(readEditStack(null)).toEqual([])
+    expect(readEditStack([{ type: 'unknown' }])).toEqual([])
+    expect(readEditStack([{ type: 'flip' }, { type: 'brightness', value: 120 }]))
+      .toEqual([{ type: 'flip' }, { type: 'brightness', value: 120 }])
+  })
+})
+
+describe('renderEdits', () => {
+  it('按编辑栈的顺序应用几何操作', async () => {
+    const crop = { type: 'crop', left: 0, top: 0, width: 0.5, height: 1 }
+    const rotate = { type: 'rotate', angle: 90 }
+    expect((await render([crop, rotate])).size).toEqual([20, 30])
+    expect((await render([rotate, crop])).size).toEqual([10, 60])
+  })
+
+  it('按编辑栈的顺序应用颜色调整', async () => {
+    const brightness = { type: 'brightness', value: 50 }
+    const contrast = { type: 'contrast', value: 200 }
+    // 200 * 0.5 = 100，再以 127.5 为中心放大两倍
+    expectLevel((await render([brightness, contrast])).pixel, 72.5)
+    // 200 放大后超出 255，再减半
+    expectLevel((await render([contrast, brightness])).pixel, 127.5)
+  })
+
+  it('gamma 在其他操作之间按顺序应用', async () => {
+    const brightness = { type: 'brightness', value: 50 }
+    const gamma = { type: 'gamma', value: 2 }
+    expectLevel((await render([brightness, gamma])).pixel, 255 * Math.sqrt(100 / 255))
+    expectLevel((await render([gamma, brightness])).pixel, (255 * Math.sqrt(200 / 255)) / 2)
+  })
+
+  it('调整在其他操作之间按顺序应用', async () => {
+    const brightness = { type: 'brightness', value: 50 }
+    // 反相曲线
+    const adjust = { type: 'adjust', curves: { rgb: [[0, 255], [255, 0]] } }
+    expectLevel((await render([brightness, adjust])).pixel, 255 - 100)
+    expectLevel((await render([adjust, brightness])).pixel, (255 - 200) / 2)
+  })
+
+  it('拉直在裁剪之前或之后按当时的尺寸计算内接矩形', async () => {
+    const crop = { type: 'crop', left: 0, top: 0, width: 0.5, height: 1 }
+    const straighten = { type: 'straighten', angle: 10 }
+
+    const scale = inscribedScale(60, 20, 10)
+    const straightened = [Math.floor(60 * scale), Math.floor(20 * scale)]
+    expect((await render([straighten, crop])).size).toEqual([Math.round(straightened[0] * 0.5), straightened[1]])
+
+    const cropScale = inscribedScale(30, 20, 10)
+    expect((await render([crop, straighten])).size).toEqual([Math.floor(30 * cropScale), Math.floor(20 * cropScale)])
+  })
+
+  it('缩放使用原图分辨率下的像素', async () => {
+    expect((await render([{ type: 'resize', width: 30, height: 30, fit: 'fill' }])).size).toEqual([30, 30])
+    expect((await render([{ type: 'resize', width: 30, height: 30 }])).size).toEqual([30, 10])
+  })
+})
+
+describe('renderEditPreview', () => {
+  beforeEach(async () => {
+    findUnique.mockResolvedValue({ mimeType: 'image/png', sourceMimeType: 'image/png', originalKey: 'edited', sourceKey: 'source' })
+    get.mockResolvedValue(await source(400, 200))
+  })
+
+  async function preview(operations: unknown[], maxSize: number) {
+    const { buffer, mimeType } = await renderEditPreview('image-1', 'user-1', editStackSchema.parse(operations), maxSize)
+    expect(mimeType).toBe('image/webp')
+    const { width, height } = await sharp(buffer).metadata()
+    return [width, height]
+  }
+
+  it('从原图渲染，先缩小到预览尺寸以内', async () => {
+    expect(await preview([], 100)).toEqual([100, 50])
+    expect(get).toHaveBeenCalledWith('source')
+  })
+
+  it('裁剪比例与分辨率无关，缩放尺寸按预览比例缩小', async () => {
+    expect(await preview([{ type: 'crop', left: 0, top: 0, width: 0.5, height: 1 }], 100)).toEqual([50, 50])
+    expect(await preview([{ type: 'resize', width: 200, height: 100, fit: 'fill' }], 100)).toEqual([50, 25])
+  })
+
+  it('原图小于预览尺寸时不放大', async () => {
+    expect(await preview([{ type: 'resize', width: 200, height: 100, fit: 'fill' }], 1000)).toEqual([200, 100])
+  })
+})
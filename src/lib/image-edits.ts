@@ -0,0 +1,702 @@
+/**
+ * Non-destructive image edits
+ * 编辑以操作列表（编辑栈）保存在 editHistory 中，原图保留在 sourceKey，
+ * 每次保存或回退都由 sharp 从原图按顺序重新渲染，结果作为新的 originalKey
+ */
+
+import sharp from 'sharp'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { decodeSource, parseExifData, processImage, readExif, ProcessedImage } from '@/lib/image-utils'
+import { copyExifToEdited } from '@/lib/edit-metadata'
+import {
+  getStorage,
+  saveOriginalImage,
+  saveProcessedImage,
+  saveImageThumbnails,
+  deleteImageFiles,
+  imageStorageKeySelect,
+  ImageStorageKeys,
+} from '@/lib/storage'
+import { createImageVersion, deleteUnreferencedFiles } from '@/lib/image-versions'
+import { adjustmentsSchema, applyAdjustments } from '@/lib/adjustments'
+import { loadLut } from '@/lib/luts'
+import { inscribedScale, MAX_STRAIGHTEN_ANGLE } from '@/lib/edit-geometry'
+
+// 编辑栈的最大长度
+export const MAX_EDIT_OPERATIONS = 100
+
+// 缩放操作允许的最大边长
+export const MAX_RESIZE_DIMENSION = 16384
+
+// 预览图的默认最大边长
+export const DEFAULT_PREVIEW_SIZE = 1024
+
+// 编辑结果的格式：JPEG / PNG / WebP 保持原格式，其他格式（HEIC、TIFF、DNG 等）输出 JPEG，GIF 输出 PNG
+const EDIT_OUTPUT_FORMATS: Record<string, 'jpeg' | 'png' | 'webp'> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'png',
+}
+
+// 另存为副本时从来源图片复制的字段：标题、描述以及 EXIF / IPTC / XMP 元数据
+const copiedFieldsSelect = {
+  originalName: true,
+  title: true,
+  description: true,
+  takenAt: true,
+  takenAtOffset: true,
+  cameraModel: true,
+  cameraMake: true,
+  lensModel: true,
+  focalLength: true,
+  aperture: true,
+  shutterSpeed: true,
+  iso: true,
+  latitude: true,
+  longitude: true,
+  altitude: true,
+  gpsTimestamp: true,
+  software: true,
+  flash: true,
+  whiteBalance: true,
+  exposureProgram: true,
+  meteringMode: true,
+  exposureBias: true,
+  lensSerialNumber: true,
+  bodySerialNumber: true,
+  artist: true,
+  copyright: true,
+  caption: true,
+  keywords: true,
+  rating: true,
+  metadata: true,
+} as const
+
+// 调整类操作的取值为百分比，100 表示不变，与编辑器中 CSS filter 的取值一致
+const percentSchema = z.number().min(0).max(300)
+// 裁剪区域为相对于当前图片宽高的比例（0-1），与原图分辨率无关
+const fractionSchema = z.number().min(0).max(1)
+// 缩放的目标尺寸为原图分辨率下的像素，预览时按比例缩小
+const dimensionSchema = z.number().int().min(1).max(MAX_RESIZE_DIMENSION)
+
+export const editOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('crop'),
+    left: fractionSchema,
+    top: fractionSchema,
+    width: fractionSchema.refine(value => value > 0, '裁剪宽度必须大于 0'),
+    height: fractionSchema.refine(value => value > 0, '裁剪高度必须大于 0'),
+  }),
+  // 顺时针旋转任意角度，非直角时画布扩大，空白处为白色（有透明通道时为透明）
+  z.object({
+    type: z.literal('rotate'),
+    angle: z.number().min(-360).max(360).refine(value => value !== 0, '旋转角度不能为 0'),
+  }),
+  // 小角度旋转后裁剪为与原图比例相同、不含空白角的最大矩形
+  z.object({
+    type: z.literal('straighten'),
+    angle: z.number().min(-MAX_STRAIGHTEN_ANGLE).max(MAX_STRAIGHTEN_ANGLE).refine(value => value !== 0, '拉直角度不能为 0'),
+  }),
+  z.object({ type: z.literal('flip') }),
+  z.object({ type: z.literal('flop') }),
+  // inside 保持比例缩放到框内，cover 保持比例填满后居中裁剪，fill 拉伸到指定尺寸
+  z.object({
+    type: z.literal('resize'),
+    width: dimensionSchema,
+    height: dimensionSchema,
+    fit: z.enum(['inside', 'cover', 'fill']).default('inside'),
+  }),
+  z.object({ type: z.literal('brightness'), value: percentSchema }),
+  z.object({ type: z.literal('contrast'), value: percentSchema }),
+  z.object({ type: z.literal('saturation'), value: percentSchema }),
+  // 锐化半径（高斯模糊的 sigma，原图分辨率下的像素）
+  z.object({ type: z.literal('sharpen'), sigma: z.number().min(0.3).max(10) }),
+  z.object({ type: z.literal('grayscale') }),
+  // 大于 1 提亮中间调，小于 1 压暗中间调
+  z.object({ type: z.literal('gamma'), value: z.number().min(0.1).max(10) }),
+  // 拉伸直方图，使最暗处为黑、最亮处为白
+  z.object({ type: z.literal('normalize') }),
+  // 曝光、白平衡、高光 / 阴影、曲线、LUT 滤镜和暗角，与编辑器的实时预览使用同一份计算
+  adjustmentsSchema.extend({ type: z.literal('adjust') }),
+])
+
+export const editStackSchema = z.array(editOperationSchema).max(MAX_EDIT_OPERATIONS)
+
+export type EditOperation = z.infer<typeof editOperationSchema>
+
+export class EditStackError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EditStackError'
+  }
+}
+
+/**
+ * 读取图片已保存的编辑栈，旧数据或格式不正确时视为未编辑
+ */
+export function readEditStack(editHistory: Prisma.JsonValue | null): EditOperation[] {
+  const parsed = editStackSchema.safeParse(editHistory)
+  return parsed.success ? parsed.data : []
+}
+
+interface RawImage {
+  data: Buffer
+  info: sharp.OutputInfo
+}
+
+/**
+ * 与 CSS saturate() 相同的颜色矩阵
+ */
+function saturationMatrix(amount: number): number[][] {
+  return [
+    [0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount],
+    [0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount],
+    [0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount],
+  ]
+}
+
+/**
+ * 按通道生成 linear 参数，alpha 通道保持不变
+ */
+function perChannel(info: sharp.OutputInfo, color: number, alpha: number): number[] {
+  return Array.from({ length: info.channels }, (_, i) => (info.channels === 4 && i === 3 ? alpha : color))
+}
+
+/**
+ * 按 gamma 值逐像素映射颜色通道，alpha 通道保持不变
+ */
+function applyGamma(current: RawImage, gamma: number): RawImage {
+  const lut = Buffer.alloc(256)
+  for (let i = 0; i < 256; i++) {
+    lut[i] = Math.round(255 * Math.pow(i / 255, 1 / gamma))
+  }
+
+  const { channels } = current.info
+  const hasAlpha = channels === 2 || channels === 4
+  const data = Buffer.from(current.data)
+  for (let i = 0; i < data.length; i++) {
+    if (hasAlpha && i % channels === channels - 1) continue
+    data[i] = lut[data[i]]
+  }
+  return { data, info: current.info }
+}
+
+/**
+ * 逐像素应用调整，灰度图先转为 RGB
+ */
+async function applyAdjustOperation(
+  current: RawImage,
+  operation: Extract<EditOperation, { type: 'adjust' }>
+): Promise<RawImage> {
+  const lut = operation.lut ? await loadLut(operation.lut.name) : null
+  if (operation.lut && !lut) {
+    throw new EditStackError(`滤镜不存在: ${operation.lut.name}`)
+  }
+
+  const { info } = current
+  const rgb: RawImage = info.channels >= 3
+    ? { data: Buffer.from(current.data), info }
+    : await sharp(current.data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+      .toColourspace('srgb')
+      .raw({ depth: 'uchar' })
+      .toBuffer({ resolveWithObject: true })
+
+  applyAdjustments(rgb.data, rgb.info.width, rgb.info.height, rgb.info.channels, operation, lut)
+  return rgb
+}
+
+/**
+ * 旋转后从扩大的画布中央取出内接矩形
+ */
+async function applyStraighten(current: RawImage, angle: number): Promise<RawImage> {
+  const { info } = current
+  const rotated = await sharp(current.data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .rotate(angle)
+    .raw({ depth: 'uchar' })
+    .toBuffer({ resolveWithObject: true })
+
+  const scale = inscribedScale(info.width, info.height, angle)
+  const width = Math.max(1, Math.min(Math.floor(info.width * scale), rotated.info.width))
+  const height = Math.max(1, Math.min(Math.floor(info.height * scale), rotated.info.height))
+  return sharp(rotated.data, {
+    raw: { width: rotated.info.width, height: rotated.info.height, channels: rotated.info.channels },
+  })
+    .extract({
+      left: Math.floor((rotated.info.width - width) / 2),
+      top: Math.floor((rotated.info.height - height) / 2),
+      width,
+      height,
+    })
+    .raw({ depth: 'uchar' })
+    .toBuffer({ resolveWithObject: true })
+}
+
+/**
+ * scale 为当前渲染分辨率与原图分辨率之比，以像素为单位的参数按比例换算
+ */
+function applyOperation(image: sharp.Sharp, operation: EditOperation, info: sharp.OutputInfo, scale: number): sharp.Sharp {
+  switch (operation.type) {
+    case 'crop': {
+      const left = Math.min(Math.round(operation.left * info.width), info.width - 1)
+      const top = Math.min(Math.round(operation.top * info.height), info.height - 1)
+      return image.extract({
+        left,
+        top,
+        width: Math.max(1, Math.min(Math.round(operation.width * info.width), info.width - left)),
+        height: Math.max(1, Math.min(Math.round(operation.height * info.height), info.height - top)),
+      })
+    }
+    case 'rotate':
+      return image.rotate(operation.angle, {
+        background: { r: 255, g: 255, b: 255, alpha: info.channels === 4 ? 0 : 1 },
+      })
+    case 'flip':
+      return image.flip()
+    case 'flop':
+      return image.flop()
+    case 'resize':
+      return image.resize({
+        width: Math.max(1, Math.round(operation.width * scale)),
+        height: Math.max(1, Math.round(operation.height * scale)),
+        fit: operation.fit,
+      })
+    case 'brightness': {
+      // CSS brightness(): 各通道乘以系数
+      const factor = operation.value / 100
+      return image.linear(perChannel(info, factor, 1), perChannel(info, 0, 0))
+    }
+    case 'contrast': {
+      // CSS contrast(): 以中间灰为中心缩放
+      const factor = operation.value / 100
+      return image.linear(perChannel(info, factor, 1), perChannel(info, 127.5 * (1 - factor), 0))
+    }
+    case 'saturation':
+      return image.recomb(saturationMatrix(operation.value / 100) as sharp.Matrix3x3)
+    case 'sharpen':
+      return image.sharpen({ sigma: Math.max(0.3, operation.sigma * scale) })
+    case 'grayscale':
+      // 与 CSS grayscale() 相同，保留三个颜色通道以便后续操作
+      return image.recomb(saturationMatrix(0) as sharp.Matrix3x3)
+    case 'normalize':
+      return image.normalize()
+    case 'gamma':
+    case 'adjust':
+    case 'straighten':
+      // gamma、调整和拉直在 renderRaw 中单独处理
+      return image
+  }
+}
+
+/**
+ * 从原图按顺序应用编辑操作，返回 8 位 sRGB 像素
+ * maxSize 用于预览：先把原图缩小到该边长以内，以像素为单位的参数按同样比例缩小
+ */
+async function renderRaw(
+  source: Buffer,
+  sourceMimeType: string,
+  operations: EditOperation[],
+  maxSize?: number
+): Promise<RawImage> {
+  const { decoded } = await decodeSource(source, sourceMimeType)
+
+  // 先按 EXIF 方向旋转，编辑器中看到的就是旋转后的图片
+  let current: RawImage = await sharp(decoded)
+    .rotate()
+    .raw({ depth: 'uchar' })
+    .toBuffer({ resolveWithObject: true })
+
+  let scale = 1
+  if (maxSize && Math.max(current.info.width, current.info.height) > maxSize) {
+    const fullWidth = current.info.width
+    current = await sharp(current.data, { raw: current.info })
+      .resize({ width: maxSize, height: maxSize, fit: 'inside' })
+      .raw({ depth: 'uchar' })
+      .toBuffer({ resolveWithObject: true })
+    scale = current.info.width / fullWidth
+  }
+
+  for (const operation of operations) {
+    if (operation.type === 'gamma') {
+      current = applyGamma(current, operation.value)
+      continue
+    }
+    if (operation.type === 'adjust') {
+      current = await applyAdjustOperation(current, operation)
+      continue
+    }
+    if (operation.type === 'straighten') {
+      current = await applyStraighten(current, operation.angle)
+      continue
+    }
+
+    const { info } = current
+    const input = sharp(current.data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    })
+    current = await applyOperation(input, operation, info, scale)
+      .raw({ depth: 'uchar' })
+      .toBuffer({ resolveWithObject: true })
+  }
+
+  return current
+}
+
+function rawToSharp(current: RawImage): sharp.Sharp {
+  return sharp(current.data, {
+    raw: { width: current.info.width, height: current.info.height, channels: current.info.channels },
+  }).withIccProfile('srgb')
+}
+
+/**
+ * 从原图按顺序应用编辑操作，输出完整分辨率的结果
+ * 每一步都在 8 位 sRGB 像素上进行，中间结果不经过有损编码，与编辑器中 CSS filter 的效果一致
+ * 原图的 EXIF 写回结果，方向为 1，尺寸为编辑后的尺寸
+ */
+export async function renderEdits(
+  source: Buffer,
+  sourceMimeType: string,
+  operations: EditOperation[]
+): Promise<{ buffer: Buffer; mimeType: string }> {
+  const current = await renderRaw(source, sourceMimeType, operations)
+
+  const format = EDIT_OUTPUT_FORMATS[sourceMimeType] || 'jpeg'
+  const output = rawToSharp(current)
+
+  const buffer = format === 'jpeg'
+    ? await output.jpeg({ quality: 92 }).toBuffer()
+    : format === 'png'
+      ? await output.png().toBuffer()
+      : await output.webp({ quality: 92 }).toBuffer()
+  const mimeType = `image/${format}`
+
+  return {
+    buffer: copyExifToEdited(source, sourceMimeType, buffer, mimeType, current.info.width, current.info.height),
+    mimeType,
+  }
+}
+
+/**
+ * 原图 EXIF 中的方向，恢复原图时写回图片表
+ */
+async function readSourceOrientation(source: Buffer): Promise<number | null> {
+  return parseExifData(await readExif(source)).orientation
+}
+
+/**
+ * 渲染编辑预览：从原图按 operations 渲染缩小后的 WebP，不写入存储
+ */
+export async function renderEditPreview(
+  imageId: string,
+  userId: string,
+  operations: EditOperation[],
+  maxSize = DEFAULT_PREVIEW_SIZE
+): Promise<{ buffer: Buffer; mimeType: string }> {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId, userId },
+    select: { mimeType: true, sourceMimeType: true, originalKey: true, sourceKey: true },
+  })
+  if (!image) {
+    throw new EditStackError('图片不存在')
+  }
+
+  const source = await getStorage().get(image.sourceKey || image.originalKey)
+  const current = await renderRaw(source, image.sourceMimeType || image.mimeType, operations, maxSize)
+  const buffer = await rawToSharp(current).webp({ quality: 80 }).toBuffer()
+
+  return { buffer, mimeType: 'image/webp' }
+}
+
+/**
+ * 图片表中随文件内容变化的字段
+ */
+function processedImageFields(processed: ProcessedImage) {
+  return {
+    mimeType: processed.metadata.mimeType,
+    fileSize: processed.metadata.fileSize,
+    contentHash: processed.metadata.contentHash,
+    perceptualHash: processed.metadata.perceptualHash,
+    blurHash: processed.metadata.blurHash,
+    dominantColor: processed.metadata.dominantColor,
+    isAnimated: processed.metadata.isAnimated,
+    pageCount: processed.metadata.pageCount,
+    duration: processed.metadata.duration,
+    iccProfileName: processed.metadata.iccProfileName,
+    colorSpace: processed.metadata.colorSpace,
+    width: processed.metadata.width,
+    height: processed.metadata.height,
+    aspectRatio: processed.metadata.aspectRatio,
+  }
+}
+
+// 替换图片内容时需要读取的当前状态
+const currentImageSelect = {
+  id: true,
+  mimeType: true,
+  fileSize: true,
+  width: true,
+  height: true,
+  sourceMimeType: true,
+  editHistory: true,
+  ...imageStorageKeySelect,
+} as const
+
+type CurrentImage = Prisma.ImageGetPayload<{ select: typeof currentImageSelect }>
+
+/**
+ * 替换图片内容之前确保当前内容已保存为版本
+ * 首次编辑前的原图以空编辑栈保存，之后可以与编辑结果对比或恢复
+ */
+async function ensureCurrentVersion(image: CurrentImage, userId: string) {
+  if (!image.originalKey) return
+
+  const existing = await prisma.imageVersion.findFirst({
+    where: { imageId: image.id, originalKey: image.originalKey },
+    select: { id: true },
+  })
+  if (existing) return
+
+  // 上传后缩略图任务尚未完成时缩略图 key 为空，先同步生成，版本不能引用不存在的文件
+  const keys = image.thumbnailSmallKey
+    ? image
+    : {
+        ...image,
+        ...await saveImageThumbnails(
+          userId,
+          image.originalKey,
+          await processImage(await getStorage().get(image.originalKey), image.mimeType)
+        ),
+      }
+
+  await createImageVersion(image.id, userId, keys, {
+    mimeType: image.mimeType,
+    fileSize: image.fileSize,
+    width: image.width,
+    height: image.height,
+    editHistory: image.sourceKey ? readEditStack(image.editHistory) : [],
+  })
+}
+
+/**
+ * 将图片的编辑栈替换为 operations，并从原图重新渲染
+ * operations 为空时恢复原图；首次编辑时当前的 originalKey 成为保留的原图
+ */
+export async function saveEditStack(imageId: string, userId: string, operations: EditOperation[]) {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId, userId },
+    select: currentImageSelect,
+  })
+  if (!image) {
+    throw new EditStackError('图片不存在')
+  }
+
+  // 未编辑过的图片无需恢复
+  if (operations.length === 0 && !image.sourceKey) {
+    return prisma.image.findUniqueOrThrow({ where: { id: imageId } })
+  }
+
+  const sourceKey = image.sourceKey || image.originalKey
+  const sourceMimeType = image.sourceMimeType || image.mimeType
+  const source = await getStorage().get(sourceKey)
+
+  await ensureCurrentVersion(image, userId)
+
+  let data: Prisma.ImageUpdateInput
+  if (operations.length === 0) {
+    // 恢复原图：重新生成原图的缩略图，不再保留编辑栈
+    const processed = await processImage(source, sourceMimeType)
+    const thumbnailKeys = await saveImageThumbnails(userId, sourceKey, processed)
+    data = {
+      ...processedImageFields(processed),
+      ...thumbnailKeys,
+      originalKey: sourceKey,
+      orientation: await readSourceOrientation(source),
+      sourceKey: null,
+      sourceMimeType: null,
+      isEdited: false,
+      editHistory: Prisma.DbNull,
+    }
+  } else {
+    const rendered = await renderEdits(source, sourceMimeType, operations)
+    const processed = await processImage(rendered.buffer, rendered.mimeType)
+    const storageKeys = await saveProcessedImage(userId, processed)
+    await createImageVersion(imageId, userId, storageKeys, {
+      mimeType: processed.metadata.mimeType,
+      fileSize: processed.metadata.fileSize,
+      width: processed.metadata.width,
+      height: processed.metadata.height,
+      editHistory: operations,
+    })
+    data = {
+      ...processedImageFields(processed),
+      ...storageKeys,
+      // 编辑结果的像素已经按方向旋转
+      orientation: 1,
+      sourceKey,
+      sourceMimeType,
+      isEdited: true,
+      editHistory: operations,
+    }
+  }
+
+  const updated = await prisma.image.update({
+    where: { id: imageId },
+    data,
+  })
+
+  // 新文件已经生效；上一次的结果由版本持有，只删除没有版本引用的文件
+  await deleteUnreferencedFiles(imageId, image)
+
+  return updated
+}
+
+/**
+ * 恢复到某个版本：图片改为使用该版本的文件和编辑栈，不重新渲染
+ */
+export async function restoreImageVersion(imageId: string, userId: string, versionId: string) {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId, userId },
+    select: currentImageSelect,
+  })
+  const version = await prisma.imageVersion.findFirst({
+    where: { id: versionId, imageId },
+  })
+  if (!image || !version) {
+    throw new EditStackError('版本不存在')
+  }
+
+  if (version.originalKey === image.originalKey) {
+    return prisma.image.findUniqueOrThrow({ where: { id: imageId } })
+  }
+
+  await ensureCurrentVersion(image, userId)
+
+  // 版本只保存了文件，哈希、颜色等字段从该版本的文件重新计算
+  const versionFile = await getStorage().get(version.originalKey)
+  const processed = await processImage(versionFile, version.mimeType)
+  const operations = readEditStack(version.editHistory)
+
+  // 早期的版本可能在缩略图生成前保存，缩略图 key 为空，恢复时补全
+  let versionKeys: Omit<ImageStorageKeys, 'originalKey' | 'sourceKey'> = version
+  if (!version.thumbnailSmallKey) {
+    versionKeys = await saveImageThumbnails(userId, version.originalKey, processed)
+    await prisma.imageVersion.update({ where: { id: version.id }, data: versionKeys })
+  }
+
+  const updated = await prisma.image.update({
+    where: { id: imageId },
+    data: {
+      ...processedImageFields(processed),
+      originalKey: version.originalKey,
+      previewKey: versionKeys.previewKey,
+      thumbnailSmallKey: versionKeys.thumbnailSmallKey,
+      thumbnailMediumKey: versionKeys.thumbnailMediumKey,
+      thumbnailLargeKey: versionKeys.thumbnailLargeKey,
+      animatedKey: versionKeys.animatedKey,
+      ...(operations.length === 0
+        ? {
+            orientation: await readSourceOrientation(versionFile),
+            sourceKey: null,
+            sourceMimeType: null,
+            isEdited: false,
+            editHistory: Prisma.DbNull,
+          }
+        : {
+            orientation: 1,
+            sourceKey: image.sourceKey || image.originalKey,
+            sourceMimeType: image.sourceMimeType || image.mimeType,
+            isEdited: true,
+            editHistory: operations,
+          }),
+    },
+  })
+
+  await deleteUnreferencedFiles(imageId, image)
+
+  return updated
+}
+
+/**
+ * 另存为副本：来源图片的编辑栈加上 operations 渲染为一张新图片，来源图片保持不变
+ * 副本复制标题、描述、元数据、标签和相册，并保留一份原图，之后可以独立回退
+ */
+export async function saveEditStackAsCopy(imageId: string, userId: string, operations: EditOperation[]) {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId, userId },
+    select: {
+      id: true,
+      mimeType: true,
+      sourceMimeType: true,
+      ...copiedFieldsSelect,
+      ...imageStorageKeySelect,
+      tags: { select: { tagId: true } },
+      albums: { select: { albumId: true } },
+    },
+  })
+  if (!image) {
+    throw new EditStackError('图片不存在')
+  }
+
+  const sourceMimeType = image.sourceMimeType || image.mimeType
+  const source = await getStorage().get(image.sourceKey || image.originalKey)
+
+  const rendered = await renderEdits(source, sourceMimeType, operations)
+  const processed = await processImage(rendered.buffer, rendered.mimeType)
+  const storageKeys = await saveProcessedImage(userId, processed)
+  // 副本单独保存一份原图，删除来源图片后仍然可以回退
+  const { originalKey: sourceKey } = await saveOriginalImage(userId, source, sourceMimeType)
+
+  const {
+    id, mimeType: _mimeType, sourceMimeType: _sourceMimeType, tags, albums,
+    originalKey: _originalKey, previewKey: _previewKey, thumbnailSmallKey: _small,
+    thumbnailMediumKey: _medium, thumbnailLargeKey: _large, animatedKey: _animated, sourceKey: _sourceKey,
+    keywords, metadata, ...copiedFields
+  } = image
+
+  const timestamp = Date.now()
+  const randomStr = Math.random().toString(36).substring(2, 8)
+
+  const copy = await prisma.image.create({
+    data: {
+      ...copiedFields,
+      ...processedImageFields(processed),
+      ...storageKeys,
+      // JSON 列写入 undefined 表示保持为空
+      keywords: keywords ?? undefined,
+      metadata: metadata ?? undefined,
+      orientation: 1,
+      userId,
+      filename: `${timestamp}_${randomStr}_${image.originalName}`,
+      sourceKey,
+      sourceMimeType,
+      isEdited: true,
+      editHistory: operations,
+      editedFromId: id,
+      tags: { create: tags.map(({ tagId }) => ({ tagId })) },
+      albums: { create: albums.map(({ albumId }) => ({ albumId })) },
+    },
+  }).catch(async (dbError) => {
+    // 数据库写入失败时清理已写入存储的文件
+    await deleteImageFiles({ ...storageKeys, sourceKey })
+    throw dbError
+  })
+
+  await createImageVersion(copy.id, userId, storageKeys, {
+    mimeType: processed.metadata.mimeType,
+    fileSize: processed.metadata.fileSize,
+    width: processed.metadata.width,
+    height: processed.metadata.height,
+    editHistory: operations,
+  })
+
+  if (tags.length > 0) {
+    await prisma.tag.updateMany({
+      where: { id: { in: tags.map(({ tagId }) => tagId) } },
+      data: { useCount: { increment: 1 } },
+    })
+  }
+
+  return copy
+}
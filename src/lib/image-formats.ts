@@ -0,0 +1,87 @@
+/**
+ * 支持上传的图片格式和 XMP 附属文件
+ * 不依赖 sharp，可同时在上传页面（客户端）和上传接口中使用
+ */
+
+// MIME 类型 -> 文件扩展名
+export const SUPPORTED_IMAGE_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/png': ['png'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'image/heic': ['heic'],
+  'image/heif': ['heif', 'hif'],
+  'image/tiff': ['tif', 'tiff'],
+  'image/x-adobe-dng': ['dng'],
+}
+
+// 浏览器可以直接显示的格式，其余格式需要生成 JPEG 预览
+export const BROWSER_DISPLAYABLE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+
+// 浏览器对部分格式给出的非标准 MIME 类型
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/dng': 'image/x-adobe-dng',
+  'image/heic-sequence': 'image/heic',
+  'image/heif-sequence': 'image/heif',
+}
+
+// <input accept> 使用的格式列表（HEIC / DNG 在部分浏览器中没有 MIME 类型，需要列出扩展名）
+export const IMAGE_ACCEPT = [
+  ...Object.keys(SUPPORTED_IMAGE_TYPES),
+  ...Object.values(SUPPORTED_IMAGE_TYPES).flat().map(ext => `.${ext}`),
+].join(',')
+
+/**
+ * 根据浏览器提供的 MIME 类型和文件名解析图片格式，不支持时返回 null
+ * 浏览器对 HEIC / DNG 经常给出空类型或 application/octet-stream，此时按扩展名判断
+ */
+export function resolveImageMimeType(filename: string, declaredType: string): string | null {
+  const normalized = MIME_ALIASES[declaredType] || declaredType
+  if (SUPPORTED_IMAGE_TYPES[normalized]) return normalized
+
+  const extension = filename.split('.').pop()?.toLowerCase() || ''
+  for (const [mimeType, extensions] of Object.entries(SUPPORTED_IMAGE_TYPES)) {
+    if (extensions.includes(extension)) return mimeType
+  }
+
+  return null
+}
+
+/**
+ * 是否为浏览器可以直接显示的格式
+ */
+export function isBrowserDisplayable(mimeType: string): boolean {
+  return BROWSER_DISPLAYABLE_TYPES.includes(mimeType)
+}
+
+// 上传大小上限：普通图片 10MB，TIFF / DNG 50MB
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024
+export const MAX_RAW_UPLOAD_SIZE = 50 * 1024 * 1024
+const RAW_TYPES = ['image/tiff', 'image/x-adobe-dng']
+
+/**
+ * 指定格式允许上传的最大字节数
+ */
+export function getMaxUploadSize(mimeType: string): number {
+  return RAW_TYPES.includes(mimeType) ? MAX_RAW_UPLOAD_SIZE : MAX_UPLOAD_SIZE
+}
+
+// XMP 附属文件（Lightroom / darktable 写出的 .xmp）大小上限
+export const MAX_SIDECAR_SIZE = 1024 * 1024
+
+/**
+ * 是否为 XMP 附属文件
+ */
+export function isXmpSidecar(filename: string): boolean {
+  return /\.xmp$/i.test(filename)
+}
+
+/**
+ * 查找图片对应的 XMP 附属文件
+ * darktable 命名为 IMG_0001.jpg.xmp，Lightroom 命名为 IMG_0001.xmp；sidecars 以小写文件名为 key
+ */
+export function findSidecarFor<T>(imageName: string, sidecars: Map<string, T>): T | undefined {
+  const name = imageName.toLowerCase()
+  return sidecars.get(`${name}.xmp`) ?? sidecars.get(`${name.replace(/\.[^.]+$/, '')}.xmp`)
+}
@@ -1,104 +1,374 @@
 import sharp from 'sharp'
 import exifr from 'exifr'
+import heicDecode from 'heic-decode'
+import dcraw from 'dcraw'
+import { sha256Hex } from '@/lib/http-cache'
+import { isBrowserDisplayable } from '@/lib/image-formats'
+import { computePerceptualHash } from '@/lib/duplicates'
+import { computePlaceholder } from '@/lib/placeholder'
+import { resolveCaptureTime } from '@/lib/capture-time'
+import {
+  ColorProfileInfo,
+  describeColorProfile,
+  describeHeifColorProfile,
+  embedPngIccProfile,
+  getHeifIccProfile,
+} from '@/lib/color-profile'
 
 export interface ProcessedImage {
   originalImage: Buffer
+  // 浏览器无法直接显示的格式（HEIC / TIFF / DNG）生成的全尺寸 JPEG 预览，保留原图的 ICC 配置文件
+  preview: Buffer | null
   thumbnailSmall: Buffer
   thumbnailMedium: Buffer
   thumbnailLarge: Buffer
+  // GIF / WebP 动图生成的动画 WebP 预览，静态缩略图取第一帧作为封面
+  animatedThumbnail: Buffer | null
   metadata: {
     width: number
     height: number
     mimeType: string
     fileSize: number
     aspectRatio: number
-  }
+    contentHash: string
+    perceptualHash: string
+    blurHash: string
+    dominantColor: string
+  } & AnimationInfo & ColorProfileInfo
+  exifData: any
+}
+
+// 上传时的轻量检查结果（不生成缩略图）
+export interface InspectedImage {
+  metadata: {
+    width: number
+    height: number
+    mimeType: string
+    fileSize: number
+    aspectRatio: number
+    contentHash: string
+    // 以下字段 HEIC / DNG 需要完整解码才能计算，由缩略图任务补全
+    perceptualHash: string | null
+    blurHash: string | null
+    dominantColor: string | null
+  } & AnimationInfo & ColorProfileInfo
   exifData: any
 }
 
+// 动图信息，静态图片的帧数和时长为 null
+export interface AnimationInfo {
+  isAnimated: boolean
+  pageCount: number | null
+  // 单次播放时长（毫秒）
+  duration: number | null
+}
+
+// 保留动画的格式；多页 TIFF、HEIF 图像序列只取第一页
+const ANIMATED_FORMATS = ['gif', 'webp']
+
+const NOT_ANIMATED: AnimationInfo = { isAnimated: false, pageCount: null, duration: null }
+
+// HEIF 容器中使用 HEVC 编码的 brand（sharp 预编译版本只能解码 AVIF）
+const HEVC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1']
+const AVIF_BRANDS = ['avif', 'avis']
+
+/**
+ * 读取 ISO BMFF (HEIF / AVIF) 文件的 brand 列表
+ */
+function readHeifBrands(buffer: Buffer): string[] {
+  if (buffer.length < 16 || buffer.toString('ascii', 4, 8) !== 'ftyp') return []
+
+  const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length)
+  const brands = [buffer.toString('ascii', 8, 12)]
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(buffer.toString('ascii', offset, offset + 4))
+  }
+  return brands
+}
+
+/**
+ * 解码 HEVC 编码的 HEIC / HEIF 为 sharp 可读的 PNG
+ * 解码出的像素不带颜色信息，写回原图的 ICC 配置文件（iPhone 为 Display P3），否则会被当作 sRGB 处理
+ */
+async function decodeHeic(buffer: Buffer): Promise<Buffer> {
+  const { width, height, data } = await heicDecode({ buffer })
+  const png = await sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+    raw: { width, height, channels: 4 },
+  })
+    .png({ compressionLevel: 1 })
+    .toBuffer()
+
+  const icc = await getHeifIccProfile(buffer)
+  return icc ? embedPngIccProfile(png, icc) : png
+}
+
+/**
+ * 解码 DNG：优先使用内嵌的全尺寸 JPEG 预览，没有时完整解码 RAW 数据
+ */
+async function decodeDng(buffer: Buffer): Promise<Buffer> {
+  const thumbnail = dcraw(buffer, { extractThumbnail: true })
+  if (thumbnail instanceof Uint8Array && thumbnail[0] === 0xff && thumbnail[1] === 0xd8) {
+    // 内嵌预览不带方向信息，写入 DNG 的 Orientation 以便后续 .rotate() 修正方向
+    const orientation = await exifr.orientation(buffer).catch(() => undefined)
+    return orientation && orientation > 1
+      ? sharp(thumbnail).withMetadata({ orientation }).toBuffer()
+      : Buffer.from(thumbnail)
+  }
+
+  const tiff = dcraw(buffer, { exportAsTiff: true, useCameraWhiteBalance: true })
+  if (tiff instanceof Uint8Array) {
+    return Buffer.from(tiff)
+  }
+
+  throw new Error('DNG 解码失败')
+}
+
+/**
+ * 需要先解码才能交给 sharp 处理的格式（HEVC 编码的 HEIC / HEIF、DNG），返回其 MIME 类型
+ * sharp 可以直接读取的格式返回 null
+ */
+function detectDecodeRequiredType(imageBuffer: Buffer, sourceMimeType?: string): string | null {
+  const brands = readHeifBrands(imageBuffer)
+  if (brands.some(brand => HEVC_BRANDS.includes(brand)) && !AVIF_BRANDS.includes(brands[0])) {
+    return brands[0] === 'mif1' || brands[0] === 'msf1' ? 'image/heif' : 'image/heic'
+  }
+
+  if (sourceMimeType === 'image/x-adobe-dng') {
+    return sourceMimeType
+  }
+
+  return null
+}
+
+/**
+ * 将上传的原始文件转换为 sharp 可以处理的数据，并确定原图的 MIME 类型
+ */
+export async function decodeSource(
+  imageBuffer: Buffer,
+  sourceMimeType?: string
+): Promise<{ decoded: Buffer; mimeType: string | null }> {
+  const mimeType = detectDecodeRequiredType(imageBuffer, sourceMimeType)
+  if (mimeType === 'image/x-adobe-dng') {
+    return { decoded: await decodeDng(imageBuffer), mimeType }
+  }
+  if (mimeType) {
+    return { decoded: await decodeHeic(imageBuffer), mimeType }
+  }
+
+  // 其他格式 sharp 可以直接读取，MIME 类型由 sharp 识别的格式决定
+  return { decoded: imageBuffer, mimeType: null }
+}
+
+/**
+ * 根据 sharp 元数据判断是否为动图，并读取帧数和各帧延迟之和
+ */
+function readAnimation(metadata: sharp.Metadata): AnimationInfo {
+  const pages = metadata.pages || 1
+  if (pages < 2 || !ANIMATED_FORMATS.includes(metadata.format || '')) {
+    return NOT_ANIMATED
+  }
+
+  const duration = (metadata.delay || []).reduce((total, delay) => total + delay, 0)
+  return {
+    isAnimated: true,
+    pageCount: pages,
+    duration: duration || null,
+  }
+}
+
+/**
+ * 读取原始文件中的 EXIF 数据（增强版：双重解析策略）
+ */
+export async function readExif(imageBuffer: Buffer): Promise<any> {
+  try {
+    // 优先尝试完整EXIF解析
+    return await exifr.parse(imageBuffer, {
+      pick: [
+        'DateTimeOriginal',
+        'OffsetTimeOriginal',
+        'OffsetTime',
+        'Make',
+        'Model',
+        'LensModel',
+        'FocalLength',
+        'FNumber',
+        'ExposureTime',
+        'ISO',
+        'latitude',
+        'longitude',
+        'GPSAltitude',
+        'GPSDateStamp',
+        'GPSTimeStamp',
+        'Software',
+        'Orientation',
+      ],
+    }) || {}
+  } catch (fullExifError) {
+    console.warn('Full EXIF parsing failed, trying GPS only:', fullExifError)
+    try {
+      // 备用：只解析GPS数据
+      const gpsData = await exifr.gps(imageBuffer)
+      console.log('[EXIF] Successfully parsed GPS data only')
+      return gpsData ? { ...gpsData } : {}
+    } catch (gpsError) {
+      console.warn('GPS parsing also failed:', gpsError)
+      return {}
+    }
+  }
+}
+
+/**
+ * 上传时的轻量检查：只读取格式、尺寸和 EXIF，不解码全图、不生成缩略图
+ * 缩略图、预览以及 HEIC / DNG 的尺寸由后台缩略图任务调用 processImage 生成
+ */
+export async function inspectImage(
+  imageBuffer: Buffer,
+  sourceMimeType?: string
+): Promise<InspectedImage> {
+  const decodeRequiredType = detectDecodeRequiredType(imageBuffer, sourceMimeType)
+
+  let width = 0
+  let height = 0
+  let mimeType = decodeRequiredType
+  let perceptualHash: string | null = null
+  let placeholder: { blurHash: string | null; dominantColor: string | null } = {
+    blurHash: null,
+    dominantColor: null,
+  }
+  let animation = NOT_ANIMATED
+  // HEIC 直接读取容器中的颜色信息，DNG 由缩略图任务解码后补全
+  let colorProfile: ColorProfileInfo = { iccProfileName: null, colorSpace: null }
+  if (decodeRequiredType === 'image/heic' || decodeRequiredType === 'image/heif') {
+    colorProfile = describeHeifColorProfile(imageBuffer)
+  }
+
+  if (!decodeRequiredType) {
+    try {
+      // 只读取文件头，与 processImage 记录的宽高一致
+      const metadata = await sharp(imageBuffer).metadata()
+      width = metadata.width || 0
+      height = metadata.height || 0
+      mimeType = `image/${metadata.format || 'jpeg'}`
+      animation = readAnimation(metadata)
+      colorProfile = describeColorProfile(metadata.icc, metadata.space)
+      perceptualHash = await computePerceptualHash(imageBuffer)
+      placeholder = await computePlaceholder(imageBuffer)
+    } catch (error) {
+      console.error('Error inspecting image:', error)
+      throw new Error('图片处理失败')
+    }
+  }
+
+  return {
+    metadata: {
+      width,
+      height,
+      mimeType: mimeType!,
+      fileSize: imageBuffer.length,
+      aspectRatio: width && height ? width / height : 0,
+      contentHash: sha256Hex(imageBuffer),
+      perceptualHash,
+      ...placeholder,
+      ...animation,
+      ...colorProfile,
+    },
+    exifData: await readExif(imageBuffer),
+  }
+}
+
 export async function processImage(
-  imageBuffer: Buffer
+  imageBuffer: Buffer,
+  sourceMimeType?: string
 ): Promise<ProcessedImage> {
   try {
+    // HEIC / DNG 先解码为 sharp 可读的数据，原图仍保持原样保存
+    const { decoded, mimeType: decodedMimeType } = await decodeSource(imageBuffer, sourceMimeType)
+
     // 获取图片元数据（应用旋转后的）
-    const metadata = await sharp(imageBuffer).rotate().metadata()
+    const metadata = await sharp(decoded).rotate().metadata()
+    const mimeType = decodedMimeType || `image/${metadata.format || 'jpeg'}`
 
-    // 解析 EXIF 数据（增强版：双重解析策略）
-    let exifData: any = {}
-    try {
-      // 优先尝试完整EXIF解析
-      exifData = await exifr.parse(imageBuffer, {
-        pick: [
-          'DateTimeOriginal',
-          'Make',
-          'Model',
-          'LensModel',
-          'FocalLength',
-          'FNumber',
-          'ExposureTime',
-          'ISO',
-          'latitude',
-          'longitude',
-          'GPSAltitude',
-          'GPSDateStamp',
-          'GPSTimeStamp',
-          'Software',
-          'Orientation',
-        ],
-      }) || {}
-    } catch (fullExifError) {
-      console.warn('Full EXIF parsing failed, trying GPS only:', fullExifError)
-      try {
-        // 备用：只解析GPS数据
-        const gpsData = await exifr.gps(imageBuffer)
-        exifData = gpsData ? { ...gpsData } : {}
-        console.log('[EXIF] Successfully parsed GPS data only')
-      } catch (gpsError) {
-        console.warn('GPS parsing also failed:', gpsError)
-        exifData = {}
-      }
-    }
+    // 解析 EXIF 数据
+    const exifData = await readExif(imageBuffer)
+
+    // 原图的颜色配置：HEIC 以容器中的声明为准，其他格式读取嵌入的 ICC 配置文件
+    const colorProfile = decodedMimeType === 'image/heic' || decodedMimeType === 'image/heif'
+      ? describeHeifColorProfile(imageBuffer)
+      : describeColorProfile(metadata.icc, metadata.space)
+
+    // 浏览器无法直接显示的格式生成全尺寸 JPEG 预览，保留原图的配置文件（广色域不被裁切）
+    const preview = isBrowserDisplayable(mimeType)
+      ? null
+      : await sharp(decoded)
+        .rotate()
+        .keepIccProfile()
+        .jpeg({ quality: 90, progressive: true })
+        .toBuffer()
 
     // 生成缩略图（添加 .rotate() 自动根据 EXIF Orientation 旋转）
-    const thumbnailSmall = await sharp(imageBuffer)
+    // 缩略图统一从原图配置文件转换到 sRGB 并嵌入 sRGB 配置文件，Display P3 / Adobe RGB 照片在网格中不会发灰
+    const thumbnailSmall = await sharp(decoded)
       .rotate() // 自动修正方向
       .resize(150, 150, {
         fit: 'cover',
         position: 'center',
       })
+      .withIccProfile('srgb')
       .jpeg({ quality: 80, progressive: true })
       .toBuffer()
 
-    const thumbnailMedium = await sharp(imageBuffer)
+    const thumbnailMedium = await sharp(decoded)
       .rotate() // 自动修正方向
       .resize(400, 400, {
         fit: 'cover',
         position: 'center',
       })
+      .withIccProfile('srgb')
       .jpeg({ quality: 85, progressive: true })
       .toBuffer()
 
-    const thumbnailLarge = await sharp(imageBuffer)
+    const thumbnailLarge = await sharp(decoded)
       .rotate() // 自动修正方向
       .resize(800, 800, {
         fit: 'inside',
       })
+      .withIccProfile('srgb')
       .jpeg({ quality: 90, progressive: true })
       .toBuffer()
 
+    // 动图额外生成保留全部帧和延迟的 WebP（GIF / WebP 没有 EXIF 方向，无需旋转）
+    const animation = readAnimation(metadata)
+    const animatedThumbnail = animation.isAnimated
+      ? await sharp(decoded, { animated: true })
+        .resize(800, 800, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .withIccProfile('srgb')
+        .webp({ quality: 80 })
+        .toBuffer()
+      : null
+
     return {
       originalImage: imageBuffer,
+      preview,
       thumbnailSmall,
       thumbnailMedium,
       thumbnailLarge,
+      animatedThumbnail,
       metadata: {
         width: metadata.width || 0,
         height: metadata.height || 0,
-        mimeType: `image/${metadata.format || 'jpeg'}`,
+        mimeType,
         fileSize: imageBuffer.length,
         aspectRatio: metadata.width && metadata.height
           ? metadata.width / metadata.height
           : 0,
+        contentHash: sha256Hex(imageBuffer),
+        perceptualHash: await computePerceptualHash(thumbnailLarge),
+        ...(await computePlaceholder(thumbnailSmall)),
+        ...animation,
+        ...colorProfile,
       },
       exifData,
     }
@@ -206,6 +476,7 @@ export function parseExifData(exifData: any) {
   if (!exifData) {
     return {
       takenAt: null,
+      takenAtOffset: null,
       cameraModel: null,
       cameraMake: null,
       lensModel: null,
@@ -233,8 +504,17 @@ export function parseExifData(exifData: any) {
     ? exifData.GPSAltitude
     : null
 
+  // 拍摄时间换算为真实时刻，并记录拍摄地的 UTC 偏移
+  const { takenAt, takenAtOffset } = resolveCaptureTime(
+    parseExifDate(exifData.DateTimeOriginal),
+    exifData,
+    validatedLat,
+    validatedLon
+  )
+
   return {
-    takenAt: parseExifDate(exifData.DateTimeOriginal),
+    takenAt,
+    takenAtOffset,
     cameraModel: exifData.Model || null,
     cameraMake: exifData.Make || null,
     lensModel: exifData.LensModel || null,
@@ -0,0 +1,170 @@
+/**
+ * Image versions
+ * 每次提交编辑都为渲染结果保存一个版本快照，版本持有自己的原图和缩略图文件；
+ * 文件只有在图片本身和它的任何版本都不再引用时才会被删除
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { deleteImageFiles, imageStorageKeySelect, ImageStorageKeys } from '@/lib/storage'
+
+/**
+ * Prisma select 片段：查询版本的全部存储 key
+ */
+export const imageVersionKeySelect = {
+  originalKey: true,
+  previewKey: true,
+  thumbnailSmallKey: true,
+  thumbnailMediumKey: true,
+  thumbnailLargeKey: true,
+  animatedKey: true,
+} as const
+
+export interface ImageVersionDetails {
+  mimeType: string
+  fileSize: number
+  width: number
+  height: number
+  // 空数组表示未编辑的原图
+  editHistory: Prisma.InputJsonValue
+}
+
+export class ImageVersionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImageVersionError'
+  }
+}
+
+function storageKeysOf(keys: Partial<ImageStorageKeys>): string[] {
+  return [
+    keys.originalKey,
+    keys.previewKey,
+    keys.thumbnailSmallKey,
+    keys.thumbnailMediumKey,
+    keys.thumbnailLargeKey,
+    keys.animatedKey,
+    keys.sourceKey,
+  ].filter((key): key is string => !!key)
+}
+
+/**
+ * 保存一个版本快照，keys 为该版本的文件（不含保留的原图）
+ */
+export async function createImageVersion(
+  imageId: string,
+  authorId: string,
+  keys: ImageStorageKeys,
+  details: ImageVersionDetails
+) {
+  return prisma.imageVersion.create({
+    data: {
+      imageId,
+      authorId,
+      originalKey: keys.originalKey,
+      previewKey: keys.previewKey,
+      thumbnailSmallKey: keys.thumbnailSmallKey,
+      thumbnailMediumKey: keys.thumbnailMediumKey,
+      thumbnailLargeKey: keys.thumbnailLargeKey,
+      animatedKey: keys.animatedKey,
+      ...details,
+    },
+  })
+}
+
+/**
+ * 删除 keys 中不再被图片或其任何版本引用的文件
+ * 在数据库更新之后调用，图片记录已被删除时全部删除
+ */
+export async function deleteUnreferencedFiles(imageId: string, keys: Partial<ImageStorageKeys>): Promise<void> {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId },
+    select: {
+      ...imageStorageKeySelect,
+      versions: { select: imageVersionKeySelect },
+    },
+  })
+
+  const inUse = new Set(image ? [image, ...image.versions].flatMap(storageKeysOf) : [])
+  const unreferenced = Array.from(new Set(storageKeysOf(keys))).filter(key => !inUse.has(key))
+
+  // deleteImageFiles 按字段读取 key，这里逐个传入
+  await Promise.all(unreferenced.map(key => deleteImageFiles({ originalKey: key })))
+}
+
+/**
+ * 永久删除图片时清理图片和所有版本的文件（数据库记录已删除）
+ */
+export async function deleteImageAndVersionFiles(
+  image: Partial<ImageStorageKeys> & { versions: Partial<ImageStorageKeys>[] }
+): Promise<void> {
+  const keys = Array.from(new Set([image, ...image.versions].flatMap(storageKeysOf)))
+  await Promise.all(keys.map(key => deleteImageFiles({ originalKey: key })))
+}
+
+/**
+ * 按时间倒序列出图片的版本，isCurrent 标记图片当前使用的版本
+ */
+export async function listImageVersions(imageId: string, userId: string) {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId, userId },
+    select: {
+      originalKey: true,
+      versions: {
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          originalKey: true,
+          mimeType: true,
+          fileSize: true,
+          width: true,
+          height: true,
+          editHistory: true,
+          createdAt: true,
+          author: { select: { id: true, username: true, nickname: true } },
+        },
+      },
+    },
+  })
+  if (!image) {
+    throw new ImageVersionError('图片不存在')
+  }
+
+  return image.versions.map(({ originalKey, ...version }) => ({
+    ...version,
+    isCurrent: originalKey === image.originalKey,
+  }))
+}
+
+/**
+ * 删除图片的若干版本及其文件，当前使用的版本不能删除
+ * 返回实际删除的版本数
+ */
+export async function deleteImageVersions(imageId: string, userId: string, versionIds: string[]): Promise<number> {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId, userId },
+    select: {
+      originalKey: true,
+      versions: {
+        where: { id: { in: versionIds } },
+        select: { id: true, ...imageVersionKeySelect },
+      },
+    },
+  })
+  if (!image) {
+    throw new ImageVersionError('图片不存在')
+  }
+  if (image.versions.some(version => version.originalKey === image.originalKey)) {
+    throw new ImageVersionError('不能删除当前版本，请先恢复到其他版本')
+  }
+
+  const { count } = await prisma.imageVersion.deleteMany({
+    where: { id: { in: image.versions.map(version => version.id) } },
+  })
+
+  for (const version of image.versions) {
+    await deleteUnreferencedFiles(imageId, version)
+  }
+
+  return count
+}
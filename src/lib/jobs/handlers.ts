@@ -0,0 +1,153 @@
+/**
+ * Job handlers
+ * 各类后台任务的处理函数；抛出异常即视为失败，由队列按退避策略重试
+ */
+
+import { prisma } from '@/lib/prisma'
+import { processImage, readExif } from '@/lib/image-utils'
+import {
+  getStorage,
+  saveImageThumbnails,
+  imageStorageKeySelect,
+  StorageNotFoundError,
+} from '@/lib/storage'
+import { generateAutoTags, generateLocationTags, saveAutoTags } from '@/lib/auto-tag'
+import { queueImageAnalysis, processImageAnalysis, MAX_RETRIES as AI_MAX_RETRIES } from '@/lib/ai/analysis-queue'
+import { enqueueJob } from './queue'
+import { JobHandlers, PermanentJobError } from './types'
+
+// Nominatim 使用政策要求每秒最多 1 次请求
+const GEOCODE_INTERVAL_MS = 1100
+let nextGeocodeAt = 0
+
+async function loadImage(imageId: string) {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId },
+    select: {
+      id: true,
+      userId: true,
+      mimeType: true,
+      width: true,
+      height: true,
+      aspectRatio: true,
+      latitude: true,
+      longitude: true,
+      takenAt: true,
+      takenAtOffset: true,
+      ...imageStorageKeySelect,
+    },
+  })
+
+  if (!image) {
+    throw new PermanentJobError(`Image ${imageId} not found`)
+  }
+  return image
+}
+
+async function loadOriginal(key: string): Promise<Buffer> {
+  try {
+    return await getStorage().get(key)
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      throw new PermanentJobError(`Original file ${key} not found`)
+    }
+    throw error
+  }
+}
+
+export const jobHandlers: JobHandlers = {
+  /**
+   * 生成缩略图和预览，补全上传时无法读取的尺寸和感知哈希，
+   * 完成后再排队依赖预览图的自动标签、地理编码和 AI 分析任务
+   */
+  async THUMBNAILS({ imageId }) {
+    const image = await loadImage(imageId)
+    const processed = await processImage(await loadOriginal(image.originalKey), image.mimeType)
+    const keys = await saveImageThumbnails(image.userId, image.originalKey, processed)
+
+    await prisma.image.update({
+      where: { id: imageId },
+      data: {
+        ...keys,
+        width: processed.metadata.width,
+        height: processed.metadata.height,
+        aspectRatio: processed.metadata.aspectRatio,
+        perceptualHash: processed.metadata.perceptualHash,
+        blurHash: processed.metadata.blurHash,
+        dominantColor: processed.metadata.dominantColor,
+        isAnimated: processed.metadata.isAnimated,
+        pageCount: processed.metadata.pageCount,
+        duration: processed.metadata.duration,
+        iccProfileName: processed.metadata.iccProfileName,
+        colorSpace: processed.metadata.colorSpace,
+      },
+    })
+
+    await enqueueJob('AUTO_TAGS', { imageId }, { userId: image.userId })
+    if (image.latitude !== null && image.longitude !== null) {
+      await enqueueJob(
+        'GEOCODE',
+        { imageId, latitude: image.latitude, longitude: image.longitude },
+        { userId: image.userId }
+      )
+    }
+    await enqueueJob('AI_ANALYSIS', { imageId }, { userId: image.userId, maxAttempts: AI_MAX_RETRIES })
+  },
+
+  /**
+   * 根据 EXIF 生成自动标签
+   */
+  async AUTO_TAGS({ imageId }) {
+    const image = await loadImage(imageId)
+    const exifData = await readExif(await loadOriginal(image.originalKey))
+
+    const autoTags = await generateAutoTags({
+      exifData,
+      metadata: {
+        width: image.width,
+        height: image.height,
+        aspectRatio: image.aspectRatio || 0,
+      },
+      imageId,
+      takenAt: image.takenAt,
+      takenAtOffset: image.takenAtOffset,
+    })
+    await saveAutoTags(imageId, autoTags)
+
+    console.log(`Generated ${autoTags.length} auto tags for image ${imageId}`)
+  },
+
+  /**
+   * 反向地理编码生成地点标签
+   */
+  async GEOCODE({ imageId, latitude, longitude }) {
+    const wait = nextGeocodeAt - Date.now()
+    nextGeocodeAt = Math.max(Date.now(), nextGeocodeAt) + GEOCODE_INTERVAL_MS
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait))
+    }
+
+    const locationTags = await generateLocationTags(latitude, longitude)
+    await saveAutoTags(imageId, locationTags)
+  },
+
+  /**
+   * AI 图片分析，沿用 AIAnalysisTask 记录分析状态
+   */
+  async AI_ANALYSIS({ imageId }, job) {
+    await queueImageAnalysis(imageId, job.userId)
+    await prisma.aIAnalysisTask.updateMany({
+      where: { imageId, status: 'PENDING' },
+      data: {
+        status: 'PROCESSING',
+        startedAt: new Date(),
+        retries: { increment: 1 },
+      },
+    })
+
+    const success = await processImageAnalysis(imageId, job.userId)
+    if (!success) {
+      throw new Error('AI analysis failed')
+    }
+  },
+}
@@ -0,0 +1,9 @@
+/**
+ * Background jobs
+ * 数据库持久化的后台任务系统，按任务类型 (JobKind) 分发给对应的处理函数
+ */
+
+export { enqueueJob, getImageJobs } from './queue'
+export { startJobWorker } from './worker'
+export { PermanentJobError } from './types'
+export type { Job, JobKind, JobStatus, JobPayloads } from './types'
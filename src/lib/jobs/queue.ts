@@ -0,0 +1,171 @@
+/**
+ * Job queue
+ * 数据库持久化的任务队列：入队、原子领取、完成 / 失败重试
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { Job, JobKind, JobPayloads } from './types'
+
+// 重试退避基数：第 n 次失败后等待 BASE * 2^(n-1)
+const RETRY_BASE_DELAY_MS = 10 * 1000
+// 处理中超过该时间的任务视为进程已退出，重新放回队列
+const STALE_JOB_TIMEOUT_MS = 10 * 60 * 1000
+
+export interface EnqueueOptions {
+  userId: string
+  maxAttempts?: number
+  // 延迟执行的毫秒数
+  delayMs?: number
+}
+
+type EnqueueListener = () => void
+
+// 与 worker 状态一样挂在 globalThis 上：路由和 instrumentation 打包为不同模块实例，需要共用同一组回调
+const globalForQueue = globalThis as unknown as {
+  jobEnqueueListeners: Set<EnqueueListener> | undefined
+}
+const listeners = globalForQueue.jobEnqueueListeners ??= new Set<EnqueueListener>()
+
+/**
+ * 新任务入队时的回调（worker 用来立即开始处理）
+ */
+export function onJobEnqueued(listener: EnqueueListener): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/**
+ * 添加任务；同一图片已有相同类型的待处理任务时不重复添加
+ */
+export async function enqueueJob<K extends JobKind>(
+  kind: K,
+  payload: JobPayloads[K],
+  options: EnqueueOptions
+): Promise<Job> {
+  const existing = await prisma.job.findFirst({
+    where: {
+      kind,
+      imageId: payload.imageId,
+      status: 'PENDING',
+    },
+  })
+  if (existing) return existing
+
+  const job = await prisma.job.create({
+    data: {
+      kind,
+      imageId: payload.imageId,
+      userId: options.userId,
+      payload: payload as unknown as Prisma.InputJsonObject,
+      maxAttempts: options.maxAttempts,
+      runAt: new Date(Date.now() + (options.delayMs || 0)),
+    },
+  })
+
+  listeners.forEach(listener => listener())
+  return job
+}
+
+/**
+ * 领取一个到期的待处理任务，并发领取时通过条件更新保证只有一个 worker 成功
+ */
+export async function claimNextJob(): Promise<Job | null> {
+  while (true) {
+    const candidate = await prisma.job.findFirst({
+      where: {
+        status: 'PENDING',
+        runAt: { lte: new Date() },
+      },
+      orderBy: { runAt: 'asc' },
+    })
+    if (!candidate) return null
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: candidate.id, status: 'PENDING' },
+      data: {
+        status: 'PROCESSING',
+        attempts: { increment: 1 },
+        startedAt: new Date(),
+      },
+    })
+
+    if (count === 1) {
+      return { ...candidate, status: 'PROCESSING', attempts: candidate.attempts + 1 }
+    }
+    // 被其他 worker 抢先领取，继续找下一个
+  }
+}
+
+export async function completeJob(job: Job): Promise<void> {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: 'COMPLETED',
+      error: null,
+      completedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * 记录失败：未达到最大次数时按指数退避重新排队，否则标记为失败
+ */
+export async function failJob(job: Job, error: string, permanent: boolean = false): Promise<void> {
+  if (permanent || job.attempts >= job.maxAttempts) {
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: 'FAILED',
+        error,
+        completedAt: new Date(),
+      },
+    })
+    console.log(`[Jobs] ${job.kind} job ${job.id} failed after ${job.attempts} attempts: ${error}`)
+    return
+  }
+
+  const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: 'PENDING',
+      error,
+      runAt: new Date(Date.now() + delay),
+    },
+  })
+  console.log(`[Jobs] ${job.kind} job ${job.id} will retry in ${delay / 1000}s (attempt ${job.attempts}/${job.maxAttempts})`)
+}
+
+/**
+ * 将长时间处于处理中的任务放回队列（进程重启或崩溃时遗留）
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const { count } = await prisma.job.updateMany({
+    where: {
+      status: 'PROCESSING',
+      startedAt: { lt: new Date(Date.now() - STALE_JOB_TIMEOUT_MS) },
+    },
+    data: {
+      status: 'PENDING',
+      runAt: new Date(),
+    },
+  })
+  return count
+}
+
+/**
+ * 查询图片的所有任务（每种类型只返回最新一个）
+ */
+export async function getImageJobs(imageId: string): Promise<Job[]> {
+  const jobs = await prisma.job.findMany({
+    where: { imageId },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const latest = new Map<JobKind, Job>()
+  for (const job of jobs) {
+    if (!latest.has(job.kind)) latest.set(job.kind, job)
+  }
+  return Array.from(latest.values())
+}
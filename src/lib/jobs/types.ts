@@ -0,0 +1,27 @@
+import type { Job, JobKind } from '@prisma/client'
+
+export type { Job, JobKind, JobStatus } from '@prisma/client'
+
+/**
+ * 各类任务的参数，enqueueJob 和任务处理函数按 kind 约束类型
+ */
+export interface JobPayloads {
+  THUMBNAILS: { imageId: string }
+  AUTO_TAGS: { imageId: string }
+  GEOCODE: { imageId: string; latitude: number; longitude: number }
+  AI_ANALYSIS: { imageId: string }
+}
+
+export type JobHandler<K extends JobKind> = (payload: JobPayloads[K], job: Job) => Promise<void>
+
+export type JobHandlers = { [K in JobKind]: JobHandler<K> }
+
+/**
+ * 不应重试的错误（数据缺失、图片已删除等），抛出后任务直接标记为失败
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
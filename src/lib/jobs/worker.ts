@@ -0,0 +1,97 @@
+/**
+ * Job worker
+ * 进程内的任务执行器：新任务入队时立即处理，并定时轮询到期的重试任务
+ */
+
+import { claimNextJob, completeJob, failJob, onJobEnqueued, recoverStaleJobs } from './queue'
+import { jobHandlers } from './handlers'
+import { Job, JobHandler, JobKind, JobPayloads, PermanentJobError } from './types'
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '') || 15 * 1000
+const CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '') || 2)
+
+interface WorkerState {
+  started: boolean
+  // 正在运行的处理循环数量
+  active: number
+}
+
+const globalForJobs = globalThis as unknown as {
+  jobWorker: WorkerState | undefined
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = jobHandlers[job.kind] as JobHandler<JobKind>
+
+  try {
+    await handler(job.payload as unknown as JobPayloads[JobKind], job)
+    await completeJob(job)
+  } catch (error) {
+    console.error(`[Jobs] ${job.kind} job ${job.id} failed:`, error)
+    await failJob(
+      job,
+      error instanceof Error ? error.message : String(error),
+      error instanceof PermanentJobError
+    )
+  }
+}
+
+/**
+ * 处理循环：持续领取任务直到队列中没有到期任务
+ */
+async function drain(state: WorkerState): Promise<void> {
+  state.active++
+  try {
+    let job: Job | null
+    while ((job = await claimNextJob())) {
+      await runJob(job)
+    }
+  } catch (error) {
+    console.error('[Jobs] Worker loop error:', error)
+  } finally {
+    state.active--
+  }
+}
+
+/**
+ * 补足处理循环到并发上限
+ */
+function wake(state: WorkerState): void {
+  while (state.active < CONCURRENCY) {
+    drain(state)
+  }
+}
+
+/**
+ * 启动进程内 worker（重复调用无副作用）
+ * JOB_WORKER=off 时不启动，由其他进程负责处理任务
+ */
+export function startJobWorker(): void {
+  if (process.env.JOB_WORKER === 'off') return
+
+  if (!globalForJobs.jobWorker) {
+    globalForJobs.jobWorker = { started: false, active: 0 }
+  }
+  const state = globalForJobs.jobWorker
+  if (state.started) return
+  state.started = true
+
+  onJobEnqueued(() => wake(state))
+
+  const poll = async () => {
+    try {
+      const recovered = await recoverStaleJobs()
+      if (recovered > 0) {
+        console.log(`[Jobs] Recovered ${recovered} stale jobs`)
+      }
+    } catch (error) {
+      console.error('[Jobs] Failed to recover stale jobs:', error)
+    }
+    wake(state)
+  }
+
+  setInterval(poll, POLL_INTERVAL_MS).unref()
+  poll()
+
+  console.log(`[Jobs] Worker started (concurrency=${CONCURRENCY})`)
+}
@@ -0,0 +1,81 @@
+/**
+ * LUT filters
+ * 滤镜 LUT 以 .cube 文件放在 LUT 目录（EDIT_LUT_DIR，默认 ./luts）中，文件名即 LUT 名称
+ * 编辑器下载 .cube 文件在浏览器中预览，保存编辑时服务器读取同一个文件渲染
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CubeLut, CubeLutError, lutNameSchema, parseCubeLut } from '@/lib/adjustments'
+
+export interface LutInfo {
+  name: string
+  title: string
+  size: number
+}
+
+// 解析后的 LUT 按文件修改时间缓存
+const cache = new Map<string, { mtimeMs: number; lut: CubeLut }>()
+
+function lutDir(): string {
+  return path.resolve(process.env.EDIT_LUT_DIR || './luts')
+}
+
+function lutPath(name: string): string {
+  if (!lutNameSchema.safeParse(name).success) {
+    throw new CubeLutError('LUT 名称无效')
+  }
+  return path.join(lutDir(), `${name}.cube`)
+}
+
+/**
+ * 读取 .cube 文件原文，LUT 不存在时返回 null
+ */
+export async function readLutFile(name: string): Promise<string | null> {
+  try {
+    return await fs.readFile(lutPath(name), 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * 读取并解析 LUT，LUT 不存在时返回 null
+ */
+export async function loadLut(name: string): Promise<CubeLut | null> {
+  const file = lutPath(name)
+  const stat = await fs.stat(file).catch(() => null)
+  if (!stat?.isFile()) return null
+
+  const cached = cache.get(name)
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.lut
+
+  const lut = parseCubeLut(await fs.readFile(file, 'utf8'))
+  cache.set(name, { mtimeMs: stat.mtimeMs, lut })
+  return lut
+}
+
+/**
+ * 列出 LUT 目录中可用的滤镜，无法解析的文件会被跳过
+ */
+export async function listLuts(): Promise<LutInfo[]> {
+  const names = await fs.readdir(lutDir()).catch(() => [] as string[])
+  const luts = await Promise.all(names
+    .filter(file => file.endsWith('.cube'))
+    .map(file => file.slice(0, -'.cube'.length))
+    .filter(name => lutNameSchema.safeParse(name).success)
+    .map(async name => {
+      try {
+        const lut = await loadLut(name)
+        return lut ? { name, title: lut.title || name, size: lut.size } : null
+      } catch (error) {
+        console.warn(`Skipping invalid LUT ${name}:`, error)
+        return null
+      }
+    }))
+
+  return luts
+    .filter((lut): lut is LutInfo => lut !== null)
+    .sort((a, b) => a.title.localeCompare(b.title))
+}
@@ -0,0 +1,263 @@
+import { describe, expect, it, vi } from 'vitest'
+import sharp from 'sharp'
+import { applyPrivacyPolicy, MetadataPrivacyError, parsePrivacyParam } from '@/lib/metadata-privacy'
+import {
+  isJpegExif,
+  JPEG_EXIF_HEADER,
+  pngXmpChunk,
+  readJpeg,
+  readPng,
+  readPngXmp,
+  readWebp,
+  writePng,
+} from '@/lib/image-containers'
+
+// 这里只测试文件处理，不连接数据库
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const TAG_MAKE = 0x010f
+const TAG_ORIENTATION = 0x0112
+const TAG_GPS_IFD = 0x8825
+const GPS_LATITUDE = 2
+const GPS_ALTITUDE = 6
+
+const GPS = {
+  GPSLatitudeRef: 'N',
+  GPSLatitude: '31/1 14/1 2/1',
+  GPSLongitudeRef: 'E',
+  GPSLongitude: '121/1 28/1 30/1',
+  GPSAltitude: '12/1',
+}
+
+const FORMATS = [
+  { format: 'jpeg', mimeType: 'image/jpeg' },
+  { format: 'png', mimeType: 'image/png' },
+  { format: 'webp', mimeType: 'image/webp' },
+  // sharp 只能输出 AVIF，与 HEIC 同为 HEIF 容器
+  { format: 'avif', mimeType: 'image/heif' },
+] as const
+
+function encode(format: (typeof FORMATS)[number]['format']): Promise<Buffer> {
+  return sharp({ create: { width: 8, height: 6, channels: 3, background: '#c33' } })
+    .withExif({ IFD0: { Make: 'TestCam' }, IFD3: GPS })
+    .toFormat(format)
+    .toBuffer()
+}
+
+/**
+ * 生成只有 IFD0 和 GPS IFD 的小端 TIFF，不含图像数据
+ */
+function buildTiff(): Buffer {
+  const buffer = Buffer.alloc(200)
+  buffer.write('II', 0, 'latin1')
+  buffer.writeUInt16LE(42, 2)
+  buffer.writeUInt32LE(8, 4)
+
+  const writeIfd = (offset: number, entries: Array<[number, number, number, number]>) => {
+    buffer.writeUInt16LE(entries.length, offset)
+    entries.forEach(([tag, type, count, value], i) => {
+      const position = offset + 2 + i * 12
+      buffer.writeUInt16LE(tag, position)
+      buffer.writeUInt16LE(type, position + 2)
+      buffer.writeUInt32LE(count, position + 4)
+      buffer.writeUInt32LE(value, position + 8)
+    })
+    buffer.writeUInt32LE(0, offset + 2 + entries.length * 12)
+  }
+
+  // IFD0 位于 8，Make 字符串位于 50，GPS IFD 位于 60，纬度位于 120，海拔位于 144
+  writeIfd(8, [[TAG_MAKE, 2, 8, 50], [TAG_GPS_IFD, 4, 1, 60]])
+  buffer.write('TestCam\0', 50, 'latin1')
+  writeIfd(60, [[1, 2, 2, 0x4e], [GPS_LATITUDE, 5, 3, 120], [GPS_ALTITUDE, 5, 1, 144]])
+  ;[31, 1, 14, 1, 2, 1, 12, 1].forEach((value, i) => buffer.writeUInt32LE(value, 120 + i * 4))
+  buffer.writeUInt32LE(12, 144)
+  buffer.writeUInt32LE(1, 148)
+  return buffer
+}
+
+/**
+ * 取出图片中的 EXIF（TIFF 结构），不依赖被测模块的解析
+ */
+function readExif(buffer: Buffer, mimeType: string): Buffer | null {
+  switch (mimeType) {
+    case 'image/jpeg': {
+      const segment = readJpeg(buffer)?.segments.find(isJpegExif)
+      return segment ? segment.data.subarray(JPEG_EXIF_HEADER.length) : null
+    }
+    case 'image/png':
+      return readPng(buffer)?.find(({ type }) => type === 'eXIf')?.data ?? null
+    case 'image/webp': {
+      const data = readWebp(buffer)?.find(({ type }) => type === 'EXIF')?.data
+      if (!data) return null
+      return data.toString('latin1', 0, JPEG_EXIF_HEADER.length) === JPEG_EXIF_HEADER
+        ? data.subarray(JPEG_EXIF_HEADER.length)
+        : data
+    }
+    default: {
+      // HEIF 的 Exif 项以 Exif\0\0 开头，之后为 TIFF 头
+      const start = [`${JPEG_EXIF_HEADER}MM\0*`, `${JPEG_EXIF_HEADER}II*\0`]
+        .map(prefix => buffer.indexOf(Buffer.from(prefix, 'latin1')))
+        .find(index => index >= 0)
+      return start === undefined ? null : buffer.subarray(start + JPEG_EXIF_HEADER.length)
+    }
+  }
+}
+
+interface Entry {
+  tag: number
+  type: number
+  count: number
+  // 值不超过 4 字节时为条目内的位置，否则为数据的偏移
+  valueOffset: number
+}
+
+function reader(tiff: Buffer) {
+  const little = tiff.toString('latin1', 0, 2) === 'II'
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset))
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset))
+
+  const entries = (ifd: number): Entry[] =>
+    Array.from({ length: u16(ifd) }, (_, i) => {
+      const position = ifd + 2 + i * 12
+      const type = u16(position + 2)
+      const count = u32(position + 4)
+      const size = ({ 3: 2, 4: 4, 5: 8 } as Record<number, number>)[type] ?? 1
+      return { tag: u16(position), type, count, valueOffset: size * count <= 4 ? position + 8 : u32(position + 8) }
+    })
+  const value = ({ type, valueOffset }: Entry) => (type === 3 ? u16(valueOffset) : u32(valueOffset))
+
+  return { ifd0: u32(4), u32, entries, value }
+}
+
+function ifd0Tags(tiff: Buffer): number[] {
+  const { ifd0, entries } = reader(tiff)
+  return entries(ifd0).map(({ tag }) => tag)
+}
+
+function orientation(tiff: Buffer): number | undefined {
+  const { ifd0, entries, value } = reader(tiff)
+  const entry = entries(ifd0).find(({ tag }) => tag === TAG_ORIENTATION)
+  return entry && value(entry)
+}
+
+/**
+ * 读取 GPS IFD 的标签和纬度（度），没有 GPS 时返回 null
+ */
+function readGps(tiff: Buffer) {
+  const { ifd0, u32, entries, value } = reader(tiff)
+  const pointer = entries(ifd0).find(({ tag }) => tag === TAG_GPS_IFD)
+  if (!pointer) return null
+  const gps = entries(value(pointer))
+  const { valueOffset } = gps.find(({ tag }) => tag === GPS_LATITUDE)!
+  const [degrees, minutes, seconds] = [0, 1, 2].map(i => u32(valueOffset + i * 8) / u32(valueOffset + i * 8 + 4))
+  return { tags: gps.map(({ tag }) => tag), latitude: degrees + minutes / 60 + seconds / 3600 }
+}
+
+describe('parsePrivacyParam', () => {
+  it('解析请求参数', () => {
+    expect(parsePrivacyParam(null)).toEqual({})
+    expect(parsePrivacyParam('gps')).toEqual({ policy: 'STRIP_GPS' })
+    expect(parsePrivacyParam('all')).toEqual({ policy: 'STRIP_ALL' })
+    expect(parsePrivacyParam('everything').error).toBeDefined()
+  })
+})
+
+describe.each(FORMATS)('applyPrivacyPolicy ($mimeType)', ({ format, mimeType }) => {
+  it('NONE 原样返回', async () => {
+    const buffer = await encode(format)
+    expect(applyPrivacyPolicy(buffer, mimeType, 'NONE')).toBe(buffer)
+  })
+
+  it('STRIP_GPS 移除 GPS，保留其他 EXIF', async () => {
+    const buffer = await encode(format)
+    expect(readGps(readExif(buffer, mimeType)!)).not.toBeNull()
+
+    const output = applyPrivacyPolicy(buffer, mimeType, 'STRIP_GPS')
+    const exif = readExif(output, mimeType)!
+    expect(readGps(exif)).toBeNull()
+    expect(ifd0Tags(exif)).toContain(TAG_MAKE)
+    expect(output.includes('TestCam')).toBe(true)
+    expect((await sharp(output).metadata()).width).toBe(8)
+  })
+
+  it('COARSE_LOCATION 将坐标模糊到 0.1 度，移除海拔', async () => {
+    const output = applyPrivacyPolicy(await encode(format), mimeType, 'COARSE_LOCATION')
+    const gps = readGps(readExif(output, mimeType)!)!
+    expect(gps.latitude).toBeCloseTo(31.2, 6)
+    expect(gps.tags).not.toContain(GPS_ALTITUDE)
+    expect((await sharp(output).metadata()).width).toBe(8)
+  })
+
+  it('STRIP_ALL 只保留方向', async () => {
+    const output = applyPrivacyPolicy(await encode(format), mimeType, 'STRIP_ALL')
+    const exif = readExif(output, mimeType)!
+    expect(ifd0Tags(exif)).toEqual([TAG_ORIENTATION])
+    expect(orientation(exif)).toBe(1)
+    expect(output.includes('TestCam')).toBe(false)
+    expect((await sharp(output).metadata()).width).toBe(8)
+  })
+})
+
+describe('applyPrivacyPolicy (image/tiff)', () => {
+  it('STRIP_GPS 移除 GPS IFD 并清零数据', () => {
+    const output = applyPrivacyPolicy(buildTiff(), 'image/tiff', 'STRIP_GPS')
+    expect(ifd0Tags(output)).toEqual([TAG_MAKE])
+    expect(output.readUInt32LE(120)).toBe(0)
+  })
+
+  it('COARSE_LOCATION 模糊坐标并移除海拔', () => {
+    const gps = readGps(applyPrivacyPolicy(buildTiff(), 'image/tiff', 'COARSE_LOCATION'))!
+    expect(gps.latitude).toBeCloseTo(31.2, 6)
+    expect(gps.tags).toEqual([1, GPS_LATITUDE])
+  })
+
+  it('STRIP_ALL 移除元数据标签', () => {
+    const output = applyPrivacyPolicy(buildTiff(), 'image/tiff', 'STRIP_ALL')
+    expect(ifd0Tags(output)).toEqual([])
+    expect(output.includes('TestCam')).toBe(false)
+  })
+})
+
+describe('applyPrivacyPolicy (XMP)', () => {
+  const packet = [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description xmlns:exif="http://ns.adobe.com/exif/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' exif:GPSLatitude="31,14.03N" exif:GPSLongitude="121,28.5E" dc:format="image/png"/>',
+    '</rdf:RDF></x:xmpmeta>',
+  ].join('')
+
+  async function pngWithXmp(): Promise<Buffer> {
+    const [ihdr, ...rest] = readPng(await encode('png'))!
+    return writePng([ihdr.raw, pngXmpChunk(packet), ...rest.map(chunk => chunk.raw)])
+  }
+
+  function readXmp(buffer: Buffer): string | undefined {
+    return readPng(buffer)!.map(readPngXmp).find((text): text is string => text !== null)
+  }
+
+  it('STRIP_GPS 移除 XMP 中的坐标', async () => {
+    const xmp = readXmp(applyPrivacyPolicy(await pngWithXmp(), 'image/png', 'STRIP_GPS'))
+    expect(xmp).toContain('dc:format')
+    expect(xmp).not.toContain('GPSLatitude')
+  })
+
+  it('STRIP_ALL 移除 XMP 块', async () => {
+    const output = applyPrivacyPolicy(await pngWithXmp(), 'image/png', 'STRIP_ALL')
+    expect(readXmp(output)).toBeUndefined()
+  })
+})
+
+describe('applyPrivacyPolicy (无法处理的文件)', () => {
+  it('结构无法识别时抛出 MetadataPrivacyError', () => {
+    expect(() => applyPrivacyPolicy(Buffer.from('not an image'), 'image/jpeg', 'STRIP_GPS'))
+      .toThrow(MetadataPrivacyError)
+    expect(() => applyPrivacyPolicy(Buffer.alloc(10), 'image/bmp', 'STRIP_GPS'))
+      .toThrow(MetadataPrivacyError)
+  })
+
+  it('WebP 的 STRIP_ALL 清除 VP8X 中的 XMP 标志', async () => {
+    const output = applyPrivacyPolicy(await encode('webp'), 'image/webp', 'STRIP_ALL')
+    const vp8x = readWebp(output)!.find(({ type }) => type === 'VP8X')!
+    expect(vp8x.data[0] & 0x04).toBe(0)
+  })
+})
@@ -0,0 +1,690 @@
+/**
+ * Metadata privacy
+ * 文件离开服务器前按隐私策略处理元数据：移除 GPS、模糊位置或移除全部元数据，只修改元数据段，不重新编码像素
+ *
+ * 缩略图、JPEG 预览和按需生成的衍生图片都由 sharp 重新编码，不带 EXIF / XMP / IPTC（只保留 ICC 配置文件），
+ * 因此只有原图需要处理
+ */
+
+import type { MetadataPrivacy } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getStorage, getDisplayableKey } from '@/lib/storage'
+import { removeXmpProperties } from '@/lib/xmp-sidecar'
+import {
+  ContainerChunk,
+  isJpegExif,
+  isJpegExtendedXmp,
+  isJpegMpf,
+  isJpegXmp,
+  JPEG_APP0,
+  JPEG_APP1,
+  JPEG_APP2,
+  JPEG_EXIF_HEADER,
+  JPEG_XMP_NAMESPACE,
+  jpegSegment,
+  pngChunk,
+  pngXmpChunk,
+  readJpeg,
+  readPng,
+  readPngXmp,
+  readWebp,
+  riffChunk,
+  VP8X_XMP,
+  writeJpeg,
+  writePng,
+  writeWebp,
+} from '@/lib/image-containers'
+
+export type { MetadataPrivacy } from '@prisma/client'
+
+// 请求参数 privacy 的取值
+const PRIVACY_PARAMS: Record<string, MetadataPrivacy> = {
+  none: 'NONE',
+  gps: 'STRIP_GPS',
+  coarse: 'COARSE_LOCATION',
+  all: 'STRIP_ALL',
+}
+
+export class MetadataPrivacyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MetadataPrivacyError'
+  }
+}
+
+/**
+ * 解析请求参数 privacy（none / gps / coarse / all），未指定时 policy 为 undefined
+ */
+export function parsePrivacyParam(value: string | null): { policy?: MetadataPrivacy; error?: string } {
+  if (value === null) return {}
+  const policy = PRIVACY_PARAMS[value]
+  return policy ? { policy } : { error: 'privacy 参数必须是 none、gps、coarse 或 all' }
+}
+
+/**
+ * 本次请求使用的隐私策略：请求中指定的策略优先，否则使用用户设置
+ * 系统没有分享功能，因此只有用户和请求两级策略
+ */
+export async function resolvePrivacyPolicy(
+  userId: string,
+  requested?: MetadataPrivacy
+): Promise<MetadataPrivacy> {
+  if (requested) return requested
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { downloadPrivacy: true },
+  })
+  return user?.downloadPrivacy ?? 'NONE'
+}
+
+/**
+ * 按隐私策略处理原图的元数据
+ * 无法识别文件结构时抛出 MetadataPrivacyError，调用方不能退回输出原文件
+ */
+export function applyPrivacyPolicy(buffer: Buffer, mimeType: string, policy: MetadataPrivacy): Buffer {
+  if (policy === 'NONE') return buffer
+
+  let result: Buffer | null
+  try {
+    switch (mimeType) {
+      case 'image/jpeg':
+        result = stripJpeg(buffer, policy)
+        break
+      case 'image/png':
+        result = stripPng(buffer, policy)
+        break
+      case 'image/webp':
+        result = stripWebp(buffer, policy)
+        break
+      case 'image/heic':
+      case 'image/heif':
+        result = stripHeif(buffer, policy)
+        break
+      case 'image/tiff':
+      case 'image/x-adobe-dng':
+        result = stripTiffFile(buffer, policy)
+        break
+      case 'image/gif':
+        // GIF 没有 EXIF，也不记录位置
+        result = buffer
+        break
+      default:
+        result = null
+    }
+  } catch (error) {
+    console.warn('Metadata stripping failed:', error)
+    result = null
+  }
+
+  if (!result) {
+    throw new MetadataPrivacyError(`Cannot strip metadata from ${mimeType}`)
+  }
+  return result
+}
+
+/**
+ * 读取发送给外部服务（AI 分析、问答）的可显示图片，使用原图时按用户设置处理元数据
+ */
+export async function getDisplayableForExport(
+  image: { originalKey: string; previewKey: string | null; mimeType: string },
+  userId: string
+): Promise<Buffer> {
+  const buffer = await getStorage().get(getDisplayableKey(image))
+  if (image.previewKey) return buffer
+  return applyPrivacyPolicy(buffer, image.mimeType, await resolvePrivacyPolicy(userId))
+}
+
+// ==================== EXIF (TIFF) ====================
+
+// TIFF 字段类型对应的单个值字节数
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+}
+
+export const TAG_ORIENTATION = 0x0112
+const TAG_THUMBNAIL_OFFSET = 0x0201
+const TAG_THUMBNAIL_LENGTH = 0x0202
+const TAG_XMP = 0x02bc
+export const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_INTEROP_IFD = 0xa005
+const SUB_IFD_TAGS = [TAG_EXIF_IFD, TAG_GPS_IFD, TAG_INTEROP_IFD]
+
+const GPS_LATITUDE = 2
+const GPS_LONGITUDE = 4
+// 模糊位置时保留的 GPS 标签：版本、纬度和经度（含南北 / 东西）、时间、大地基准、日期
+const COARSE_GPS_TAGS = [0, 1, GPS_LATITUDE, 3, GPS_LONGITUDE, 7, 18, 29]
+// 模糊后的坐标精度（度），约 11 公里
+const COARSE_PRECISION = 0.1
+
+// TIFF / DNG 文件中 STRIP_ALL 移除的 IFD0 标签，图像结构相关的标签保留：
+// ImageDescription、Make、Model、Software、DateTime、Artist、HostComputer、XMP、Copyright、IPTC、Photoshop、
+// EXIF、GPS、CameraSerialNumber、DNGPrivateData、RawDataUniqueID、OriginalRawFileName
+const TIFF_METADATA_TAGS = [
+  0x010e, 0x010f, 0x0110, 0x0131, 0x0132, 0x013b, 0x013c, TAG_XMP, 0x8298, 0x83bb, 0x8649,
+  TAG_EXIF_IFD, TAG_GPS_IFD, 0xc62f, 0xc634, 0xc65d, 0xc68b,
+]
+
+export interface IfdEntry {
+  tag: number
+  type: number
+  // 条目在数据中的位置
+  position: number
+  // 值所在位置（不超过 4 字节时就在条目内）和字节数
+  dataOffset: number
+  byteLength: number
+}
+
+/**
+ * 原地修改 TIFF 结构（EXIF 段或 TIFF / DNG 文件）：移除的条目连同数据清零，不移动其他数据，偏移量保持有效
+ */
+export class TiffEditor {
+  private readonly littleEndian: boolean
+
+  constructor(private readonly data: Buffer) {
+    const order = data.toString('latin1', 0, 2)
+    this.littleEndian = order === 'II'
+    if ((order !== 'II' && order !== 'MM') || this.u16(2) !== 42) {
+      throw new Error('Invalid TIFF header')
+    }
+  }
+
+  private u16(offset: number): number {
+    return this.littleEndian ? this.data.readUInt16LE(offset) : this.data.readUInt16BE(offset)
+  }
+
+  private u32(offset: number): number {
+    return this.littleEndian ? this.data.readUInt32LE(offset) : this.data.readUInt32BE(offset)
+  }
+
+  private w16(offset: number, value: number): void {
+    if (this.littleEndian) this.data.writeUInt16LE(value, offset)
+    else this.data.writeUInt16BE(value, offset)
+  }
+
+  private w32(offset: number, value: number): void {
+    if (this.littleEndian) this.data.writeUInt32LE(value, offset)
+    else this.data.writeUInt32BE(value, offset)
+  }
+
+  private zero(offset: number, length: number): void {
+    this.data.fill(0, offset, Math.min(offset + length, this.data.length))
+  }
+
+  get firstIfd(): number {
+    return this.u32(4)
+  }
+
+  entries(ifd: number): IfdEntry[] {
+    const count = this.u16(ifd)
+    const entries: IfdEntry[] = []
+    for (let i = 0; i < count; i++) {
+      const position = ifd + 2 + i * 12
+      const type = this.u16(position + 2)
+      const byteLength = (TYPE_SIZES[type] || 1) * this.u32(position + 4)
+      entries.push({
+        tag: this.u16(position),
+        type,
+        position,
+        dataOffset: byteLength <= 4 ? position + 8 : this.u32(position + 8),
+        byteLength,
+      })
+    }
+    return entries
+  }
+
+  find(ifd: number, tag: number): IfdEntry | undefined {
+    return this.entries(ifd).find(entry => entry.tag === tag)
+  }
+
+  /**
+   * SHORT / LONG 类型条目的第一个值（子 IFD 偏移、缩略图位置等）
+   */
+  value(entry: IfdEntry): number {
+    return entry.type === 3 ? this.u16(entry.dataOffset) : this.u32(entry.dataOffset)
+  }
+
+  /**
+   * 改写 SHORT / LONG 类型条目的第一个值
+   */
+  setValue(entry: IfdEntry, value: number): void {
+    if (entry.type === 3) this.w16(entry.dataOffset, value)
+    else this.w32(entry.dataOffset, value)
+  }
+
+  nextIfd(ifd: number): number {
+    return this.u32(ifd + 2 + this.u16(ifd) * 12)
+  }
+
+  setNextIfd(ifd: number, offset: number): void {
+    this.w32(ifd + 2 + this.u16(ifd) * 12, offset)
+  }
+
+  /**
+   * 清零条目的数据，子 IFD（EXIF / GPS / Interop）整体清零
+   */
+  private clearEntry(entry: IfdEntry, visited: Set<number>): void {
+    if (SUB_IFD_TAGS.includes(entry.tag)) {
+      this.clearIfd(this.value(entry), visited)
+    }
+    this.zero(entry.dataOffset, entry.byteLength)
+  }
+
+  /**
+   * 清零整个 IFD，包括其中的缩略图数据
+   */
+  clearIfd(ifd: number, visited = new Set<number>()): void {
+    if (!ifd || ifd >= this.data.length || visited.has(ifd)) return
+    visited.add(ifd)
+
+    const entries = this.entries(ifd)
+    const thumbnailOffset = entries.find(entry => entry.tag === TAG_THUMBNAIL_OFFSET)
+    const thumbnailLength = entries.find(entry => entry.tag === TAG_THUMBNAIL_LENGTH)
+    if (thumbnailOffset && thumbnailLength) {
+      this.zero(this.value(thumbnailOffset), this.value(thumbnailLength))
+    }
+
+    entries.forEach(entry => this.clearEntry(entry, visited))
+    this.zero(ifd, 2 + entries.length * 12 + 4)
+  }
+
+  /**
+   * 移除 IFD 中符合条件的条目：数据清零，剩余条目前移
+   */
+  removeEntries(ifd: number, predicate: (tag: number) => boolean): void {
+    const entries = this.entries(ifd)
+    const next = this.nextIfd(ifd)
+    const kept = entries
+      .filter(entry => !predicate(entry.tag))
+      .map(entry => Buffer.from(this.data.subarray(entry.position, entry.position + 12)))
+
+    entries
+      .filter(entry => predicate(entry.tag))
+      .forEach(entry => this.clearEntry(entry, new Set([ifd])))
+
+    this.w16(ifd, kept.length)
+    kept.forEach((raw, i) => raw.copy(this.data, ifd + 2 + i * 12))
+    this.w32(ifd + 2 + kept.length * 12, next)
+    this.zero(ifd + 2 + kept.length * 12 + 4, (entries.length - kept.length) * 12)
+  }
+
+  /**
+   * 坐标四舍五入到 COARSE_PRECISION，并移除海拔、方向、速度等其他 GPS 标签
+   */
+  coarsenGps(ifd0: number): void {
+    const pointer = this.find(ifd0, TAG_GPS_IFD)
+    if (!pointer) return
+    const gps = this.value(pointer)
+
+    this.removeEntries(gps, tag => !COARSE_GPS_TAGS.includes(tag))
+
+    for (const entry of this.entries(gps)) {
+      if (entry.tag !== GPS_LATITUDE && entry.tag !== GPS_LONGITUDE) continue
+      // 度、分、秒三个 RATIONAL
+      if (entry.type !== 5 || entry.byteLength !== 24) {
+        this.zero(entry.dataOffset, entry.byteLength)
+        continue
+      }
+
+      const [degrees, minutes, seconds] = [0, 1, 2].map(i => {
+        const denominator = this.u32(entry.dataOffset + i * 8 + 4)
+        return denominator ? this.u32(entry.dataOffset + i * 8) / denominator : 0
+      })
+      const coarse = Math.round((degrees + minutes / 60 + seconds / 3600) / COARSE_PRECISION) * COARSE_PRECISION
+      const wholeDegrees = Math.floor(coarse)
+      const values = [wholeDegrees, Math.round((coarse - wholeDegrees) * 60), 0]
+
+      values.forEach((value, i) => {
+        this.w32(entry.dataOffset + i * 8, value)
+        this.w32(entry.dataOffset + i * 8 + 4, 1)
+      })
+    }
+  }
+}
+
+/**
+ * 处理图片中内嵌的 EXIF（JPEG APP1、PNG eXIf、WebP EXIF、HEIC Exif 项），原地修改
+ * STRIP_ALL 只保留方向标签，否则图片会显示为未旋转的方向
+ */
+function stripExif(tiff: Buffer, policy: MetadataPrivacy): void {
+  const editor = new TiffEditor(tiff)
+  const ifd0 = editor.firstIfd
+
+  if (policy === 'STRIP_GPS') {
+    editor.removeEntries(ifd0, tag => tag === TAG_GPS_IFD)
+  } else if (policy === 'COARSE_LOCATION') {
+    editor.coarsenGps(ifd0)
+  } else {
+    // IFD1 为 EXIF 缩略图，可能是裁剪前的画面
+    const ifd1 = editor.nextIfd(ifd0)
+    editor.removeEntries(ifd0, tag => tag !== TAG_ORIENTATION)
+    if (ifd1) {
+      editor.clearIfd(ifd1, new Set([ifd0]))
+      editor.setNextIfd(ifd0, 0)
+    }
+  }
+}
+
+// ==================== XMP ====================
+
+// XMP 中的位置属性：exif:GPSLatitude 等，以及大疆无人机的 drone-dji:GpsLatitude 等
+const XMP_GPS_PROPERTIES = '[\\w-]+:(?:GPS|Gps)\\w*'
+
+/**
+ * 移除 XMP 包中的位置信息（坐标无法在 XMP 文本中可靠地模糊，COARSE_LOCATION 同样移除）
+ */
+function removeXmpGps(packet: string): string {
+  return removeXmpProperties(packet, XMP_GPS_PROPERTIES)
+}
+
+/**
+ * 原地替换 XMP 文本，剩余字节用空格填充（XML 允许结尾的空白），文件中的其他偏移量不受影响
+ */
+function overwriteText(region: Buffer, text: string): void {
+  const data = Buffer.from(text, 'utf8')
+  if (data.length > region.length) throw new Error('Replacement text is longer than the original')
+  data.copy(region)
+  region.fill(0x20, data.length)
+}
+
+// ==================== JPEG ====================
+
+// STRIP_ALL 保留的 APPn 段：JFIF (APP0)、ICC 配置文件 (APP2)、Adobe 颜色变换 (APP14)
+const JPEG_APP14 = 'ee'
+
+function isJpegMetadataSegment(segment: ContainerChunk): boolean {
+  const marker = parseInt(segment.type, 16)
+  return (marker >= 0xe0 && marker <= 0xef) || marker === 0xfe
+}
+
+function keepJpegSegment(segment: ContainerChunk): boolean {
+  if (!isJpegMetadataSegment(segment)) return true
+  if (segment.type === JPEG_APP0 || segment.type === JPEG_APP14) return true
+  return segment.type === JPEG_APP2 && segment.data.toString('latin1', 0, 12) === 'ICC_PROFILE\0'
+}
+
+function stripJpeg(buffer: Buffer, policy: MetadataPrivacy): Buffer | null {
+  const jpeg = readJpeg(buffer)
+  if (!jpeg) return null
+
+  const segments: Buffer[] = []
+  for (const segment of jpeg.segments) {
+    if (isJpegExif(segment)) {
+      const copy = Buffer.from(segment.raw)
+      // 段头 4 字节 + Exif\0\0
+      stripExif(copy.subarray(4 + JPEG_EXIF_HEADER.length), policy)
+      segments.push(copy)
+    } else if (isJpegXmp(segment)) {
+      if (policy === 'STRIP_ALL') continue
+      const packet = removeXmpGps(segment.data.subarray(JPEG_XMP_NAMESPACE.length).toString('utf8'))
+      segments.push(jpegSegment(JPEG_APP1, Buffer.concat([
+        Buffer.from(JPEG_XMP_NAMESPACE, 'latin1'),
+        Buffer.from(packet, 'utf8'),
+      ])))
+    } else if (isJpegExtendedXmp(segment) || isJpegMpf(segment)) {
+      // 扩展 XMP 分段存储，无法逐项处理；多图索引与 EOI 之后的附加图像一起移除
+      continue
+    } else if (policy !== 'STRIP_ALL' || keepJpegSegment(segment)) {
+      segments.push(segment.raw)
+    }
+  }
+
+  // 附加图像（HDR 增益图、深度图等）带有各自的 EXIF，不输出
+  return writeJpeg(segments, jpeg.imageData)
+}
+
+// ==================== PNG ====================
+
+// ImageMagick 等工具以十六进制文本保存的原始 EXIF / XMP / IPTC
+const PNG_RAW_PROFILE_PREFIX = 'Raw profile type'
+const PNG_TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt']
+
+function stripPng(buffer: Buffer, policy: MetadataPrivacy): Buffer | null {
+  const png = readPng(buffer)
+  if (!png) return null
+
+  const chunks: Buffer[] = []
+  for (const chunk of png) {
+    const xmp = readPngXmp(chunk)
+
+    if (chunk.type === 'eXIf') {
+      const data = Buffer.from(chunk.data)
+      stripExif(data, policy)
+      chunks.push(pngChunk('eXIf', data))
+    } else if (xmp !== null) {
+      if (policy !== 'STRIP_ALL') chunks.push(pngXmpChunk(removeXmpGps(xmp)))
+    } else if (PNG_TEXT_CHUNKS.includes(chunk.type)) {
+      const keyword = chunk.data.toString('latin1', 0, Math.max(chunk.data.indexOf(0), 0))
+      if (policy !== 'STRIP_ALL' && !keyword.startsWith(PNG_RAW_PROFILE_PREFIX)) chunks.push(chunk.raw)
+    } else if (policy !== 'STRIP_ALL' || chunk.type !== 'tIME') {
+      chunks.push(chunk.raw)
+    }
+  }
+  return writePng(chunks)
+}
+
+// ==================== WebP ====================
+
+function stripWebp(buffer: Buffer, policy: MetadataPrivacy): Buffer | null {
+  const webp = readWebp(buffer)
+  if (!webp) return null
+
+  const chunks: Buffer[] = []
+  for (const chunk of webp) {
+    if (chunk.type === 'VP8X') {
+      const vp8x = Buffer.from(chunk.data)
+      if (policy === 'STRIP_ALL') vp8x[0] &= ~VP8X_XMP
+      chunks.push(riffChunk('VP8X', vp8x))
+    } else if (chunk.type === 'EXIF') {
+      const data = Buffer.from(chunk.data)
+      // 部分工具写入的 EXIF 块带有 JPEG 的 Exif\0\0 前缀
+      const start = data.toString('latin1', 0, JPEG_EXIF_HEADER.length) === JPEG_EXIF_HEADER
+        ? JPEG_EXIF_HEADER.length
+        : 0
+      stripExif(data.subarray(start), policy)
+      chunks.push(riffChunk('EXIF', data))
+    } else if (chunk.type === 'XMP ') {
+      if (policy !== 'STRIP_ALL') {
+        chunks.push(riffChunk('XMP ', Buffer.from(removeXmpGps(chunk.data.toString('utf8')), 'utf8')))
+      }
+    } else {
+      chunks.push(chunk.raw)
+    }
+  }
+  return writeWebp(chunks)
+}
+
+// ==================== HEIC / HEIF ====================
+
+interface HeifItem {
+  type: string
+  contentType: string | null
+  extents: Array<{ offset: number; length: number }>
+}
+
+interface Box {
+  type: string
+  // 内容的起止位置（不含盒头）
+  start: number
+  end: number
+}
+
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset)
+    let header = 8
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8))
+      header = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < header || offset + size > end) break
+    boxes.push({ type: buffer.toString('ascii', offset + 4, offset + 8), start: offset + header, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+function readSized(buffer: Buffer, offset: number, size: number): number {
+  if (size === 0) return 0
+  return size === 8 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUIntBE(offset, size)
+}
+
+/**
+ * 读取 meta 盒中的项目类型 (iinf) 和位置 (iloc)，只返回按文件偏移存储的项目
+ */
+function readHeifItems(buffer: Buffer): HeifItem[] {
+  const meta = readBoxes(buffer, 0, buffer.length).find(box => box.type === 'meta')
+  if (!meta) return []
+  // meta 为 FullBox，版本和标志占 4 字节
+  const children = readBoxes(buffer, meta.start + 4, meta.end)
+  const iinf = children.find(box => box.type === 'iinf')
+  const iloc = children.find(box => box.type === 'iloc')
+  if (!iinf || !iloc) return []
+
+  const types = new Map<number, { type: string; contentType: string | null }>()
+  const iinfVersion = buffer[iinf.start]
+  for (const infe of readBoxes(buffer, iinf.start + (iinfVersion === 0 ? 6 : 8), iinf.end)) {
+    const version = buffer[infe.start]
+    if (infe.type !== 'infe' || version < 2) continue
+    let offset = infe.start + 4
+    const id = version === 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset)
+    // 跳过 item_ID 和 item_protection_index
+    offset += (version === 2 ? 2 : 4) + 2
+    const type = buffer.toString('ascii', offset, offset + 4)
+    const contentEnd = buffer.indexOf(0, offset + 4)
+    types.set(id, {
+      type,
+      contentType: type === 'mime' && contentEnd > 0 ? buffer.toString('latin1', offset + 4, contentEnd) : null,
+    })
+  }
+
+  const version = buffer[iloc.start]
+  let offset = iloc.start + 4
+  const offsetSize = buffer[offset] >> 4
+  const lengthSize = buffer[offset] & 0x0f
+  const baseOffsetSize = buffer[offset + 1] >> 4
+  const indexSize = version > 0 ? buffer[offset + 1] & 0x0f : 0
+  offset += 2
+  const itemCount = version < 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset)
+  offset += version < 2 ? 2 : 4
+
+  const items: HeifItem[] = []
+  for (let i = 0; i < itemCount; i++) {
+    const id = version < 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset)
+    offset += version < 2 ? 2 : 4
+    let constructionMethod = 0
+    if (version > 0) {
+      constructionMethod = buffer.readUInt16BE(offset) & 0x0f
+      offset += 2
+    }
+    // data_reference_index
+    offset += 2
+    const baseOffset = readSized(buffer, offset, baseOffsetSize)
+    offset += baseOffsetSize
+    const extentCount = buffer.readUInt16BE(offset)
+    offset += 2
+
+    const extents: HeifItem['extents'] = []
+    for (let j = 0; j < extentCount; j++) {
+      offset += indexSize
+      const extentOffset = readSized(buffer, offset, offsetSize)
+      offset += offsetSize
+      const length = readSized(buffer, offset, lengthSize)
+      offset += lengthSize
+      extents.push({ offset: baseOffset + extentOffset, length })
+    }
+
+    const info = types.get(id)
+    if (info && constructionMethod === 0) {
+      items.push({ ...info, extents })
+    }
+  }
+  return items
+}
+
+function stripHeif(buffer: Buffer, policy: MetadataPrivacy): Buffer | null {
+  const output = Buffer.from(buffer)
+
+  for (const item of readHeifItems(output)) {
+    const isExif = item.type === 'Exif'
+    const isXmp = item.type === 'mime' && item.contentType === 'application/rdf+xml'
+    if (!isExif && !isXmp) continue
+    // 分成多段存储的元数据无法原地修改
+    if (item.extents.length !== 1) return null
+
+    const { offset, length } = item.extents[0]
+    const region = output.subarray(offset, offset + length)
+    if (isExif) {
+      // 前 4 字节为 TIFF 头相对于其后数据的偏移
+      stripExif(region.subarray(4 + region.readUInt32BE(0)), policy)
+    } else {
+      overwriteText(region, policy === 'STRIP_ALL' ? '' : removeXmpGps(region.toString('utf8')))
+    }
+  }
+  return output
+}
+
+/**
+ * 读取图片中内嵌的 EXIF（TIFF 结构，不含 Exif\0\0 前缀），没有或无法识别时返回 null
+ * TIFF / DNG 的 EXIF 与图像结构在同一个 TIFF 中，不能单独取出
+ */
+export function readExifBlock(buffer: Buffer, mimeType: string): Buffer | null {
+  switch (mimeType) {
+    case 'image/jpeg': {
+      const segment = readJpeg(buffer)?.segments.find(isJpegExif)
+      return segment ? Buffer.from(segment.data.subarray(JPEG_EXIF_HEADER.length)) : null
+    }
+    case 'image/png': {
+      const chunk = readPng(buffer)?.find(({ type }) => type === 'eXIf')
+      return chunk ? Buffer.from(chunk.data) : null
+    }
+    case 'image/webp': {
+      const chunk = readWebp(buffer)?.find(({ type }) => type === 'EXIF')
+      if (!chunk) return null
+      const start = chunk.data.toString('latin1', 0, JPEG_EXIF_HEADER.length) === JPEG_EXIF_HEADER
+        ? JPEG_EXIF_HEADER.length
+        : 0
+      return Buffer.from(chunk.data.subarray(start))
+    }
+    case 'image/heic':
+    case 'image/heif': {
+      const item = readHeifItems(buffer).find(({ type, extents }) => type === 'Exif' && extents.length === 1)
+      if (!item) return null
+      const { offset, length } = item.extents[0]
+      const region = buffer.subarray(offset, offset + length)
+      return Buffer.from(region.subarray(4 + region.readUInt32BE(0)))
+    }
+    default:
+      return null
+  }
+}
+
+// ==================== TIFF / DNG ====================
+
+function stripTiffFile(buffer: Buffer, policy: MetadataPrivacy): Buffer {
+  const output = Buffer.from(buffer)
+  const editor = new TiffEditor(output)
+  const ifd0 = editor.firstIfd
+
+  if (policy === 'STRIP_ALL') {
+    editor.removeEntries(ifd0, tag => TIFF_METADATA_TAGS.includes(tag))
+    return output
+  }
+
+  if (policy === 'STRIP_GPS') {
+    editor.removeEntries(ifd0, tag => tag === TAG_GPS_IFD)
+  } else {
+    editor.coarsenGps(ifd0)
+  }
+
+  const xmp = editor.find(ifd0, TAG_XMP)
+  if (xmp) {
+    const region = output.subarray(xmp.dataOffset, xmp.dataOffset + xmp.byteLength)
+    overwriteText(region, removeXmpGps(region.toString('utf8')))
+  }
+  return output
+}
@@ -0,0 +1,221 @@
+/**
+ * Image metadata
+ * 读取原图完整的 EXIF / IPTC / XMP 元数据，按分组保存到 Image.metadata，
+ * 并提取闪光灯、白平衡、关键词、星级等常用字段写入独立列供查询
+ */
+
+import exifr from 'exifr'
+
+export type MetadataValue =
+  | string
+  | number
+  | boolean
+  | MetadataValue[]
+  | { [key: string]: MetadataValue }
+
+// 按分组的元数据，如 { ifd0: {...}, exif: {...}, gps: {...}, iptc: {...}, xmp: {...}, dc: {...} }
+// XMP 按命名空间前缀分组（xmp、dc、photoshop、aux 等）
+export type ImageMetadata = Record<string, Record<string, MetadataValue>>
+
+export interface NormalizedMetadata {
+  flash: string | null
+  whiteBalance: string | null
+  exposureProgram: string | null
+  meteringMode: string | null
+  exposureBias: number | null
+  lensSerialNumber: string | null
+  bodySerialNumber: string | null
+  artist: string | null
+  copyright: string | null
+  caption: string | null
+  keywords: string[] | null
+  rating: number | null
+}
+
+const PARSE_OPTIONS = {
+  tiff: true,
+  exif: true,
+  gps: true,
+  interop: true,
+  ifd1: false,
+  iptc: true,
+  xmp: true,
+  icc: true,
+  jfif: true,
+  ihdr: true,
+  // 厂商私有的 MakerNote 是大段二进制数据，不保存
+  makerNote: false,
+  userComment: true,
+  mergeOutput: false,
+  multiSegment: true,
+  translateKeys: true,
+  translateValues: true,
+  reviveValues: true,
+  sanitize: true,
+}
+
+// 单个值的长度上限，防止内嵌的大段文本撑大 JSON 列
+const MAX_STRING_LENGTH = 2000
+const MAX_ARRAY_LENGTH = 256
+const MAX_DEPTH = 5
+const MAX_KEYWORDS = 100
+
+// 非 XMP 的分组；其余分组来自 XMP，exifr 不会解码其中的 XML 实体
+const BINARY_SEGMENT_GROUPS = ['ifd0', 'exif', 'gps', 'interop', 'iptc', 'icc', 'jfif', 'ihdr']
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * 转换为可写入 JSON 列的值：日期转为 ISO 字符串，二进制数据和空值丢弃
+ */
+function toMetadataValue(value: unknown, xml: boolean, depth = 0): MetadataValue | undefined {
+  if (value === null || value === undefined) return undefined
+
+  if (typeof value === 'string') {
+    const text = (xml ? decodeXmlEntities(value) : value).replace(/\0/g, '').trim()
+    return text ? text.slice(0, MAX_STRING_LENGTH) : undefined
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined
+  }
+  if (typeof value === 'boolean') return value
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString()
+  }
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer || depth >= MAX_DEPTH) {
+    return undefined
+  }
+
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, MAX_ARRAY_LENGTH)
+      .map(item => toMetadataValue(item, xml, depth + 1))
+      .filter((item): item is MetadataValue => item !== undefined)
+    return items.length ? items : undefined
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => [key, toMetadataValue(item, xml, depth + 1)] as const)
+      .filter((entry): entry is readonly [string, MetadataValue] => entry[1] !== undefined)
+    return entries.length ? Object.fromEntries(entries) : undefined
+  }
+
+  return undefined
+}
+
+/**
+ * 将 exifr 按分组输出的解析结果 (mergeOutput: false) 整理为可保存的元数据，没有内容时返回 null
+ */
+export function toImageMetadata(parsed: unknown): ImageMetadata | null {
+  if (!parsed || typeof parsed !== 'object') return null
+
+  const metadata: ImageMetadata = {}
+  for (const [group, tags] of Object.entries(parsed as Record<string, unknown>)) {
+    // xmlns 只是命名空间声明
+    if (group === 'xmlns') continue
+    const value = toMetadataValue(tags, !BINARY_SEGMENT_GROUPS.includes(group))
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      metadata[group] = value
+    }
+  }
+  return Object.keys(metadata).length ? metadata : null
+}
+
+/**
+ * 读取图片中全部可解析的 EXIF / IPTC / XMP / ICC 元数据，没有元数据或解析失败时返回 null
+ */
+export async function readImageMetadata(imageBuffer: Buffer): Promise<ImageMetadata | null> {
+  try {
+    return toImageMetadata(await exifr.parse(imageBuffer, PARSE_OPTIONS))
+  } catch (error) {
+    console.warn('Metadata parsing failed:', error)
+    return null
+  }
+}
+
+/**
+ * 取文本值：XMP 多语言值 ({ lang, value }) 取 value，数组取第一项
+ */
+export function metadataText(value: MetadataValue | undefined, maxLength: number): string | null {
+  if (value === undefined) return null
+  if (Array.isArray(value)) return metadataText(value[0], maxLength)
+  if (typeof value === 'object') return metadataText(value.value, maxLength)
+  const result = String(value).trim()
+  return result ? result.slice(0, maxLength) : null
+}
+
+function list(value: MetadataValue | undefined): string[] {
+  if (value === undefined) return []
+  if (Array.isArray(value)) return value.flatMap(list)
+  const item = metadataText(value, 100)
+  return item ? [item] : []
+}
+
+function number(value: MetadataValue | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * 从分组元数据中提取常用字段，同一信息有多个来源（EXIF / IPTC / XMP）时取第一个非空值
+ */
+export function normalizeMetadata(metadata: ImageMetadata | null): NormalizedMetadata {
+  const ifd0 = metadata?.ifd0 || {}
+  const exif = metadata?.exif || {}
+  const iptc = metadata?.iptc || {}
+  const xmp = metadata?.xmp || {}
+  const dc = metadata?.dc || {}
+  const aux = metadata?.aux || {}
+
+  const keywords = Array.from(new Set([...list(iptc.Keywords), ...list(dc.subject)]))
+    .slice(0, MAX_KEYWORDS)
+  const rating = number(xmp.Rating)
+
+  return {
+    flash: metadataText(exif.Flash, 100),
+    whiteBalance: metadataText(exif.WhiteBalance, 50),
+    exposureProgram: metadataText(exif.ExposureProgram, 50),
+    meteringMode: metadataText(exif.MeteringMode, 50),
+    exposureBias: number(exif.ExposureCompensation),
+    lensSerialNumber: metadataText(exif.LensSerialNumber ?? aux.LensSerialNumber, 100),
+    bodySerialNumber: metadataText(exif.BodySerialNumber ?? aux.SerialNumber, 100),
+    artist: metadataText(ifd0.Artist ?? dc.creator ?? iptc.Byline, 255),
+    copyright: metadataText(ifd0.Copyright ?? dc.rights ?? iptc.CopyrightNotice, 255),
+    caption: metadataText(iptc.Caption ?? dc.description ?? ifd0.ImageDescription, 5000),
+    keywords: keywords.length ? keywords : null,
+    // XMP 星级：0-5，-1 表示拒绝
+    rating: rating === null ? null : Math.min(5, Math.max(-1, Math.round(rating))),
+  }
+}
+
+/**
+ * 读取并整理元数据，返回可直接写入 Image 的字段
+ */
+export async function extractMetadataFields(imageBuffer: Buffer) {
+  const metadata = await readImageMetadata(imageBuffer)
+  const { keywords, ...fields } = normalizeMetadata(metadata)
+
+  return {
+    ...fields,
+    // JSON 列写入 undefined 表示保持为空
+    keywords: keywords ?? undefined,
+    // 没有元数据时保存空对象，与尚未读取过元数据的旧图片 (NULL) 区分
+    metadata: metadata ?? {},
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Image placeholders
+ * 计算 BlurHash 和主色调，列表接口随图片数据返回，缩略图加载完成前先绘制占位图
+ */
+
+import sharp from 'sharp'
+import { encode } from 'blurhash'
+
+// BlurHash 分量数：横向 4、纵向 3，编码后约 28 个字符
+const COMPONENTS_X = 4
+const COMPONENTS_Y = 3
+const SAMPLE_SIZE = 32
+
+export interface ImagePlaceholder {
+  blurHash: string
+  // #rrggbb
+  dominantColor: string
+}
+
+function toHex(value: number): string {
+  return Math.round(value).toString(16).padStart(2, '0')
+}
+
+/**
+ * 计算图片的 BlurHash 和主色调
+ */
+export async function computePlaceholder(imageBuffer: Buffer): Promise<ImagePlaceholder> {
+  // 先缩小再采样，原图较大时也只解码一次（JPEG 可按比例快速缩小解码）
+  const sample = sharp(
+    await sharp(imageBuffer)
+      .rotate()
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+      .png()
+      .toBuffer()
+  )
+
+  const [{ data, info }, stats] = await Promise.all([
+    sample.clone().ensureAlpha().raw().toBuffer({ resolveWithObject: true }),
+    sample.clone().stats(),
+  ])
+
+  const blurHash = encode(
+    new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength),
+    info.width,
+    info.height,
+    COMPONENTS_X,
+    COMPONENTS_Y
+  )
+
+  const { r, g, b } = stats.dominant
+  return {
+    blurHash,
+    dominantColor: `#${toHex(r)}${toHex(g)}${toHex(b)}`,
+  }
+}
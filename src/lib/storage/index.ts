@@ -0,0 +1,242 @@
+/**
+ * Image storage
+ * 图片原图与缩略图的存储层，驱动由 STORAGE_DRIVER 环境变量选择（local | s3）
+ */
+
+import { LocalStorageAdapter } from './local'
+import { S3StorageAdapter } from './s3'
+import { StorageAdapter } from './types'
+import type { ProcessedImage } from '@/lib/image-utils'
+
+export type { StorageAdapter } from './types'
+export { StorageNotFoundError } from './types'
+
+export interface ImageStorageKeys {
+  originalKey: string
+  // 原图不能在浏览器中直接显示时（HEIC / TIFF / DNG）的 JPEG 预览
+  previewKey: string | null
+  thumbnailSmallKey: string
+  thumbnailMediumKey: string
+  thumbnailLargeKey: string
+  // GIF / WebP 动图的动画 WebP 预览
+  animatedKey: string | null
+  // 编辑后保留的原图，只在编辑时设置
+  sourceKey?: string | null
+}
+
+const globalForStorage = globalThis as unknown as {
+  storage: StorageAdapter | undefined
+}
+
+function createStorage(): StorageAdapter {
+  const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase()
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorageAdapter(process.env.STORAGE_LOCAL_DIR || './storage')
+    case 's3':
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3')
+      }
+      return new S3StorageAdapter({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        prefix: process.env.S3_PREFIX,
+      })
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+  }
+}
+
+/**
+ * 获取当前配置的存储驱动（进程内单例）
+ */
+export function getStorage(): StorageAdapter {
+  if (!globalForStorage.storage) {
+    globalForStorage.storage = createStorage()
+  }
+  return globalForStorage.storage
+}
+
+/**
+ * 为一张图片生成一组存储 key
+ * 默认每次都使用新的随机 base，覆盖编辑时旧文件不会被就地改写；
+ * 迁移脚本会传入固定的 base，使重复执行写入同一组 key
+ */
+export function buildImageKeys(
+  userId: string,
+  mimeType: string,
+  options: { base?: string; preview?: boolean; animated?: boolean } = {}
+): ImageStorageKeys {
+  const base = options.base || `${Date.now()}_${Math.random().toString(36).substring(2, 10)}`
+  const extension = mimeType.split('/')[1] || 'bin'
+
+  return {
+    originalKey: `originals/${userId}/${base}.${extension}`,
+    previewKey: options.preview ? `previews/${userId}/${base}.jpg` : null,
+    thumbnailSmallKey: `thumbnails/${userId}/${base}_small.jpg`,
+    thumbnailMediumKey: `thumbnails/${userId}/${base}_medium.jpg`,
+    thumbnailLargeKey: `thumbnails/${userId}/${base}_large.jpg`,
+    animatedKey: options.animated ? `thumbnails/${userId}/${base}_animated.webp` : null,
+  }
+}
+
+/**
+ * 将处理后的原图和缩略图写入存储，返回对应的 key
+ * 任意一个写入失败时，会清理已写入的文件
+ */
+export async function saveProcessedImage(
+  userId: string,
+  processed: ProcessedImage
+): Promise<ImageStorageKeys> {
+  const storage = getStorage()
+  const keys = buildImageKeys(userId, processed.metadata.mimeType, {
+    preview: !!processed.preview,
+    animated: !!processed.animatedThumbnail,
+  })
+
+  const writes: Array<[string, Buffer, string]> = [
+    [keys.originalKey, processed.originalImage, processed.metadata.mimeType],
+    [keys.thumbnailSmallKey, processed.thumbnailSmall, 'image/jpeg'],
+    [keys.thumbnailMediumKey, processed.thumbnailMedium, 'image/jpeg'],
+    [keys.thumbnailLargeKey, processed.thumbnailLarge, 'image/jpeg'],
+  ]
+  if (keys.previewKey && processed.preview) {
+    writes.push([keys.previewKey, processed.preview, 'image/jpeg'])
+  }
+  if (keys.animatedKey && processed.animatedThumbnail) {
+    writes.push([keys.animatedKey, processed.animatedThumbnail, 'image/webp'])
+  }
+
+  try {
+    await Promise.all(writes.map(([key, data, type]) => storage.put(key, data, type)))
+  } catch (error) {
+    await deleteImageFiles(keys)
+    throw error
+  }
+
+  return keys
+}
+
+/**
+ * 上传时只写入原图，缩略图和预览由后台缩略图任务生成
+ */
+export async function saveOriginalImage(
+  userId: string,
+  data: Buffer,
+  mimeType: string
+): Promise<Pick<ImageStorageKeys, 'originalKey'>> {
+  const { originalKey } = buildImageKeys(userId, mimeType)
+  await getStorage().put(originalKey, data, mimeType)
+  return { originalKey }
+}
+
+/**
+ * 写入缩略图任务生成的缩略图和预览
+ * key 与原图共用同一 base，任务重试时覆盖同一组文件
+ */
+export async function saveImageThumbnails(
+  userId: string,
+  originalKey: string,
+  processed: ProcessedImage
+): Promise<Omit<ImageStorageKeys, 'originalKey'>> {
+  const storage = getStorage()
+  const base = originalKey.split('/').pop()!.replace(/\.[^.]+$/, '')
+  const {
+    previewKey,
+    thumbnailSmallKey,
+    thumbnailMediumKey,
+    thumbnailLargeKey,
+    animatedKey,
+  } = buildImageKeys(userId, processed.metadata.mimeType, {
+    base,
+    preview: !!processed.preview,
+    animated: !!processed.animatedThumbnail,
+  })
+  const keys = { previewKey, thumbnailSmallKey, thumbnailMediumKey, thumbnailLargeKey, animatedKey }
+
+  const writes: Array<[string, Buffer, string]> = [
+    [keys.thumbnailSmallKey, processed.thumbnailSmall, 'image/jpeg'],
+    [keys.thumbnailMediumKey, processed.thumbnailMedium, 'image/jpeg'],
+    [keys.thumbnailLargeKey, processed.thumbnailLarge, 'image/jpeg'],
+  ]
+  if (keys.previewKey && processed.preview) {
+    writes.push([keys.previewKey, processed.preview, 'image/jpeg'])
+  }
+  if (keys.animatedKey && processed.animatedThumbnail) {
+    writes.push([keys.animatedKey, processed.animatedThumbnail, 'image/webp'])
+  }
+
+  await Promise.all(writes.map(([key, data, type]) => storage.put(key, data, type)))
+  return keys
+}
+
+/**
+ * 删除一张图片的所有存储文件（失败只记录日志，不抛出）
+ */
+export async function deleteImageFiles(keys: Partial<ImageStorageKeys>): Promise<void> {
+  const storage = getStorage()
+  const targets = [
+    keys.originalKey,
+    keys.previewKey,
+    keys.thumbnailSmallKey,
+    keys.thumbnailMediumKey,
+    keys.thumbnailLargeKey,
+    keys.animatedKey,
+    keys.sourceKey,
+  ].filter((key): key is string => !!key)
+
+  await Promise.all(targets.map(async key => {
+    try {
+      await storage.delete(key)
+    } catch (error) {
+      console.error(`[Storage] Failed to delete ${key}:`, error)
+    }
+  }))
+}
+
+/**
+ * 浏览器和 sharp 都能直接读取的全尺寸图片 key（有预览时使用预览）
+ */
+export function getDisplayableKey(keys: Pick<ImageStorageKeys, 'originalKey' | 'previewKey'>): string {
+  return keys.previewKey || keys.originalKey
+}
+
+/**
+ * 根据请求的尺寸选择对应的存储 key
+ */
+export function getImageKeyForSize(keys: ImageStorageKeys, size: string): string {
+  switch (size) {
+    case 'small':
+      return keys.thumbnailSmallKey
+    case 'large':
+      return keys.thumbnailLargeKey
+    case 'animated':
+      // 静态图片没有动画预览，返回大缩略图
+      return keys.animatedKey || keys.thumbnailLargeKey
+    case 'original':
+      return keys.originalKey
+    case 'preview':
+      return getDisplayableKey(keys)
+    case 'medium':
+    default:
+      return keys.thumbnailMediumKey
+  }
+}
+
+/**
+ * Prisma select 片段：查询图片的全部存储 key
+ */
+export const imageStorageKeySelect = {
+  originalKey: true,
+  previewKey: true,
+  thumbnailSmallKey: true,
+  thumbnailMediumKey: true,
+  thumbnailLargeKey: true,
+  animatedKey: true,
+  sourceKey: true,
+} as const
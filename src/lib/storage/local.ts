@@ -0,0 +1,67 @@
+/**
+ * Local filesystem storage driver
+ * 对象按 key 直接映射到 STORAGE_LOCAL_DIR 下的相对路径
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { StorageAdapter, StorageNotFoundError } from './types'
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'local'
+  private readonly root: string
+
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  /**
+   * 将 key 解析为绝对路径，拒绝跳出根目录的 key
+   */
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key)
+    if (target !== this.root && !target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return target
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.resolve(key)
+    await fs.mkdir(path.dirname(target), { recursive: true })
+
+    // 先写临时文件再重命名，避免读到写了一半的文件
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tmp, data)
+    await fs.rename(tmp, target)
+  }
+
+  async get(key: string): Promise<Buffer> {
+    // 空 key 表示旧数据尚未迁移到存储
+    if (!key) throw new StorageNotFoundError(key)
+
+    try {
+      return await fs.readFile(this.resolve(key))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new StorageNotFoundError(key)
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key))
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+}
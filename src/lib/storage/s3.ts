@@ -0,0 +1,107 @@
+/**
+ * S3-compatible storage driver
+ * 支持 AWS S3 以及 MinIO 等兼容服务（通过 S3_ENDPOINT + path-style 访问）
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3'
+import { StorageAdapter, StorageNotFoundError } from './types'
+
+export interface S3StorageOptions {
+  bucket: string
+  region: string
+  endpoint?: string
+  accessKeyId?: string
+  secretAccessKey?: string
+  forcePathStyle?: boolean
+  prefix?: string
+}
+
+function isNotFound(error: any): boolean {
+  return (
+    error?.name === 'NoSuchKey' ||
+    error?.name === 'NotFound' ||
+    error?.$metadata?.httpStatusCode === 404
+  )
+}
+
+export class S3StorageAdapter implements StorageAdapter {
+  readonly name = 's3'
+  private readonly client: S3Client
+  private readonly bucket: string
+  private readonly prefix: string
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket
+    this.prefix = options.prefix ? options.prefix.replace(/\/+$/, '') + '/' : ''
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? {
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey,
+          }
+        : undefined,
+    })
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix + key
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+      ContentLength: data.length,
+    }))
+  }
+
+  async get(key: string): Promise<Buffer> {
+    // 空 key 表示旧数据尚未迁移到存储
+    if (!key) throw new StorageNotFoundError(key)
+
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+      }))
+      if (!result.Body) throw new StorageNotFoundError(key)
+      const bytes = await result.Body.transformToByteArray()
+      return Buffer.from(bytes)
+    } catch (error) {
+      if (isNotFound(error)) throw new StorageNotFoundError(key)
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 对不存在的 key 删除也会返回成功
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+    }))
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+      }))
+      return true
+    } catch (error) {
+      if (isNotFound(error)) return false
+      throw error
+    }
+  }
+}
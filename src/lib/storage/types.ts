@@ -0,0 +1,28 @@
+/**
+ * Storage adapter contract
+ * 所有存储驱动（本地文件系统 / S3 兼容对象存储）都实现这个接口
+ */
+
+export interface StorageAdapter {
+  /** 驱动名称，用于日志 */
+  readonly name: string
+
+  /** 写入对象（同 key 覆盖） */
+  put(key: string, data: Buffer, contentType?: string): Promise<void>
+
+  /** 读取对象，不存在时抛出 StorageNotFoundError */
+  get(key: string): Promise<Buffer>
+
+  /** 删除对象，不存在时静默返回 */
+  delete(key: string): Promise<void>
+
+  /** 判断对象是否存在 */
+  exists(key: string): Promise<boolean>
+}
+
+export class StorageNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`Storage object not found: ${key}`)
+    this.name = 'StorageNotFoundError'
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * tus resumable upload client
+ * 上传页面使用的断点续传客户端：分片 PATCH、进度回调、暂停 / 继续，
+ * 上传地址按文件指纹保存在 localStorage，刷新页面后仍可续传
+ */
+
+import type { UploadResult } from '@/lib/upload-pipeline'
+
+const TUS_ENDPOINT = '/api/images/upload/tus'
+const TUS_VERSION = '1.0.0'
+const CHUNK_SIZE = 2 * 1024 * 1024 // 2MB
+// 网络错误时的重试间隔，全部失败后交给用户手动继续
+const RETRY_DELAYS = [1000, 3000, 5000]
+const STORAGE_PREFIX = 'tus-upload:'
+
+export class TusAbortError extends Error {
+  constructor() {
+    super('上传已暂停')
+    this.name = 'TusAbortError'
+  }
+}
+
+export interface TusUploadOptions {
+  metadata?: Record<string, string>
+  signal?: AbortSignal
+  onProgress?: (uploaded: number, total: number) => void
+}
+
+function fingerprint(file: File): string {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...Array.from(new TextEncoder().encode(value))))}`)
+    .join(',')
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const body = await res.json().catch(() => null)
+  return body?.error || fallback
+}
+
+async function createUpload(file: File, metadata: Record<string, string>): Promise<string> {
+  const res = await fetch(TUS_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({ filename: file.name, filetype: file.type, ...metadata }),
+    },
+  })
+
+  if (res.status !== 201) {
+    throw new Error(await readError(res, '创建上传失败'))
+  }
+
+  return res.headers.get('Location')!
+}
+
+/**
+ * 查询服务器已接收的字节数，上传不存在或已过期时返回 null
+ */
+async function fetchOffset(url: string): Promise<number | null> {
+  const res = await fetch(url, {
+    method: 'HEAD',
+    headers: { 'Tus-Resumable': TUS_VERSION },
+    cache: 'no-store',
+  })
+  if (!res.ok) return null
+  return Number(res.headers.get('Upload-Offset'))
+}
+
+/**
+ * 用 XMLHttpRequest 发送一个分片，以便获得分片内的上传进度
+ */
+function sendChunk(
+  url: string,
+  chunk: Blob,
+  offset: number,
+  signal: AbortSignal | undefined,
+  onProgress: (loaded: number) => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('PATCH', url)
+    xhr.setRequestHeader('Tus-Resumable', TUS_VERSION)
+    xhr.setRequestHeader('Upload-Offset', String(offset))
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream')
+
+    const abort = () => xhr.abort()
+    signal?.addEventListener('abort', abort)
+
+    xhr.upload.onprogress = event => onProgress(event.loaded)
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort)
+      if (xhr.status === 204) {
+        resolve(Number(xhr.getResponseHeader('Upload-Offset')))
+      } else {
+        let message = '上传失败'
+        try {
+          message = JSON.parse(xhr.responseText).error || message
+        } catch {}
+        const error = new Error(message) as Error & { status?: number }
+        error.status = xhr.status
+        reject(error)
+      }
+    }
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort)
+      reject(new Error('网络错误'))
+    }
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', abort)
+      reject(new TusAbortError())
+    }
+
+    xhr.send(chunk)
+  })
+}
+
+async function fetchResult(url: string): Promise<UploadResult | null> {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) {
+    throw new Error(await readError(res, '获取上传结果失败'))
+  }
+  return (await res.json()).result
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new TusAbortError())
+    })
+  })
+}
+
+/**
+ * 上传文件（已有未完成的上传时从断点继续），返回服务端入库结果
+ * signal 触发时抛出 TusAbortError，之后再次调用即可继续
+ */
+export async function uploadFile(file: File, options: TusUploadOptions = {}): Promise<UploadResult> {
+  const { metadata = {}, signal, onProgress } = options
+  const storageKey = fingerprint(file)
+
+  let url = localStorage.getItem(storageKey)
+  let offset = url ? await fetchOffset(url) : null
+
+  if (url === null || offset === null) {
+    url = await createUpload(file, metadata)
+    localStorage.setItem(storageKey, url)
+    offset = 0
+  }
+
+  onProgress?.(offset, file.size)
+
+  let attempt = 0
+  while (offset < file.size) {
+    if (signal?.aborted) throw new TusAbortError()
+
+    try {
+      const chunk = file.slice(offset, offset + CHUNK_SIZE)
+      const start = offset
+      offset = await sendChunk(url, chunk, start, signal, loaded => onProgress?.(start + loaded, file.size))
+      attempt = 0
+      onProgress?.(offset, file.size)
+    } catch (error: any) {
+      if (error instanceof TusAbortError) throw error
+      // 4xx（偏移量冲突除外）不会因重试而成功
+      if (error.status && error.status < 500 && error.status !== 409 && error.status !== 423) {
+        localStorage.removeItem(storageKey)
+        throw error
+      }
+      if (attempt >= RETRY_DELAYS.length) throw error
+
+      await wait(RETRY_DELAYS[attempt++], signal)
+      // 重试前重新获取服务器记录的偏移量，中断前已写入的数据不必重传
+      const serverOffset = await fetchOffset(url).catch(() => null)
+      if (serverOffset !== null) offset = serverOffset
+    }
+  }
+
+  let result = await fetchResult(url)
+  if (!result) {
+    // 数据已全部接收但入库未完成（例如服务重启），发送空分片重新触发入库
+    await sendChunk(url, new Blob([]), offset, signal, () => {})
+    result = await fetchResult(url)
+  }
+
+  localStorage.removeItem(storageKey)
+  if (!result) throw new Error('获取上传结果失败')
+  return result
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { parseUploadMetadata, TusError, TusUploadStore } from '@/lib/tus-store'
+import type { UploadResult } from '@/lib/upload-pipeline'
+
+function stream(...chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(Buffer.from(chunk)))
+      controller.close()
+    },
+  })
+}
+
+// 发送 chunks 后连接中断
+function interrupted(...chunks: string[]): ReadableStream<Uint8Array> {
+  let index = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (index < chunks.length) controller.enqueue(Buffer.from(chunks[index++]))
+      else controller.error(new Error('connection reset'))
+    },
+  })
+}
+
+const failed: UploadResult = { success: false, filename: 'a.jpg', error: '处理失败' }
+
+describe('parseUploadMetadata', () => {
+  it('解码 base64 值，值可以省略', () => {
+    const header = `filename ${Buffer.from('照片.jpg').toString('base64')},filetype aW1hZ2UvanBlZw==,flag`
+    expect(parseUploadMetadata(header)).toEqual({ filename: '照片.jpg', filetype: 'image/jpeg', flag: '' })
+    expect(parseUploadMetadata(null)).toEqual({})
+  })
+
+  it('重复的键或无效的值返回 null', () => {
+    expect(parseUploadMetadata('a YQ==,a Yg==')).toBeNull()
+    expect(parseUploadMetadata('a not*base64')).toBeNull()
+    expect(parseUploadMetadata('a YQ== extra')).toBeNull()
+  })
+})
+
+describe('TusUploadStore', () => {
+  let dir: string
+  let store: TusUploadStore
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tus-store-test-'))
+    store = new TusUploadStore(dir, 1)
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('分片追加写入，偏移量以已写入的数据为准', async () => {
+    const upload = await store.create('user-1', 10, { filename: 'a.jpg' })
+    expect(upload.offset).toBe(0)
+
+    expect(await store.append(upload, stream('abc', 'd'))).toBe(4)
+    const resumed = (await store.get(upload.id))!
+    expect(resumed.offset).toBe(4)
+
+    expect(await store.append(resumed, stream('efghij'))).toBe(10)
+    expect((await store.get(upload.id))!.offset).toBe(10)
+    expect((await store.readData(upload.id)).toString()).toBe('abcdefghij')
+  })
+
+  it('连接中断时保留已写入的数据', async () => {
+    const upload = await store.create('user-1', 10, {})
+    await expect(store.append(upload, interrupted('abc', 'de'))).rejects.toThrow('connection reset')
+
+    const resumed = (await store.get(upload.id))!
+    expect(resumed.offset).toBe(5)
+    expect(await store.append(resumed, stream('fghij'))).toBe(10)
+    expect((await store.readData(upload.id)).toString()).toBe('abcdefghij')
+  })
+
+  it('数据超过声明长度时只写入剩余字节并抛出 413', async () => {
+    const upload = await store.create('user-1', 5, {})
+    const error = await store.append(upload, stream('abc', 'defg')).catch(e => e)
+    expect(error).toBeInstanceOf(TusError)
+    expect((error as TusError).status).toBe(413)
+    expect((await store.readData(upload.id)).toString()).toBe('abcde')
+  })
+
+  it('完成后删除临时数据，偏移量为总长度并保留结果', async () => {
+    const upload = await store.create('user-1', 3, {})
+    await store.append(upload, stream('abc'))
+    await store.complete(upload, failed)
+
+    const completed = (await store.get(upload.id))!
+    expect(completed.offset).toBe(3)
+    expect(completed.result).toEqual(failed)
+    await expect(store.readData(upload.id)).rejects.toThrow()
+  })
+
+  it('过期或 id 无效的上传不存在，过期文件被清理', async () => {
+    const expired = new TusUploadStore(dir, -1)
+    const upload = await expired.create('user-1', 3, {})
+    expect(await expired.get(upload.id)).toBeNull()
+    expect(await fs.readdir(dir)).toEqual([])
+
+    await expired.create('user-1', 3, {})
+    expect(await expired.removeExpired()).toBe(1)
+    expect(await store.get('../etc/passwd')).toBeNull()
+  })
+
+  it('同一上传不能同时写入', () => {
+    expect(store.lock('a')).toBe(true)
+    expect(store.lock('a')).toBe(false)
+    store.unlock('a')
+    expect(store.lock('a')).toBe(true)
+  })
+})
@@ -0,0 +1,248 @@
+/**
+ * tus resumable upload store
+ * 实现 tus 1.0.0 核心协议所需的上传状态管理，分片追加写入 TUS_UPLOAD_DIR 下的临时文件，
+ * 上传完成后交给上传流程 (upload-pipeline) 入库
+ *
+ * 每个上传对应两个文件：{id}.bin（已接收的数据）和 {id}.json（上传信息），
+ * 已接收字节数以 .bin 文件大小为准，连接中断后已写入的部分可以直接续传
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { randomBytes } from 'crypto'
+import type { UploadResult } from '@/lib/upload-pipeline'
+
+export const TUS_VERSION = '1.0.0'
+export const TUS_EXTENSIONS = 'creation,expiration,termination'
+
+const DEFAULT_EXPIRY_HOURS = 24
+
+export class TusError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message)
+    this.name = 'TusError'
+  }
+}
+
+export interface TusUpload {
+  id: string
+  userId: string
+  length: number
+  offset: number
+  metadata: Record<string, string>
+  createdAt: string
+  expiresAt: string
+  // 上传完成并入库后的结果，供客户端查询
+  result?: UploadResult
+}
+
+type StoredUpload = Omit<TusUpload, 'offset'>
+
+/**
+ * 解析 Upload-Metadata 头：逗号分隔的 "key base64value" 对，值可以省略
+ * 格式错误时返回 null
+ */
+export function parseUploadMetadata(header: string | null): Record<string, string> | null {
+  const metadata: Record<string, string> = {}
+  if (!header) return metadata
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ')
+    if (!key || rest.length > 0 || key in metadata) return null
+    if (value && !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) return null
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : ''
+  }
+
+  return metadata
+}
+
+/**
+ * 所有 tus 响应都需要携带的协议头
+ */
+export function tusHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    'Tus-Resumable': TUS_VERSION,
+    ...extra,
+  }
+}
+
+export class TusUploadStore {
+  private readonly dir: string
+  private readonly expiryMs: number
+  // 正在写入或入库的上传
+  private readonly locks = new Set<string>()
+
+  constructor(dir: string, expiryHours: number) {
+    this.dir = path.resolve(dir)
+    this.expiryMs = expiryHours * 60 * 60 * 1000
+  }
+
+  private infoPath(id: string): string {
+    return path.join(this.dir, `${id}.json`)
+  }
+
+  private dataPath(id: string): string {
+    return path.join(this.dir, `${id}.bin`)
+  }
+
+  private async writeInfo(upload: StoredUpload): Promise<void> {
+    const target = this.infoPath(upload.id)
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(upload))
+    await fs.rename(tmp, target)
+  }
+
+  async create(userId: string, length: number, metadata: Record<string, string>): Promise<TusUpload> {
+    await fs.mkdir(this.dir, { recursive: true })
+
+    const now = Date.now()
+    const upload: StoredUpload = {
+      id: randomBytes(16).toString('hex'),
+      userId,
+      length,
+      metadata,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.expiryMs).toISOString(),
+    }
+
+    await fs.writeFile(this.dataPath(upload.id), Buffer.alloc(0))
+    await this.writeInfo(upload)
+
+    return { ...upload, offset: 0 }
+  }
+
+  /**
+   * 读取上传信息，不存在或已过期时返回 null
+   */
+  async get(id: string): Promise<TusUpload | null> {
+    if (!/^[a-f0-9]{32}$/.test(id)) return null
+
+    let stored: StoredUpload
+    try {
+      stored = JSON.parse(await fs.readFile(this.infoPath(id), 'utf8'))
+    } catch {
+      return null
+    }
+
+    if (Date.parse(stored.expiresAt) < Date.now()) {
+      await this.remove(id)
+      return null
+    }
+
+    // 已完成的上传数据文件已删除，偏移量即总长度
+    if (stored.result) {
+      return { ...stored, offset: stored.length }
+    }
+
+    const stat = await fs.stat(this.dataPath(id)).catch(() => null)
+    if (!stat) return null
+
+    return { ...stored, offset: stat.size }
+  }
+
+  /**
+   * 获取上传的写入锁，同一上传的 PATCH 和完成后的入库处理不能并发
+   */
+  lock(id: string): boolean {
+    if (this.locks.has(id)) return false
+    this.locks.add(id)
+    return true
+  }
+
+  unlock(id: string): void {
+    this.locks.delete(id)
+  }
+
+  /**
+   * 从 offset 处追加请求体数据，返回新的偏移量（调用方需持有写入锁）
+   * 请求中断时已写入的数据保留，客户端通过 HEAD 获取偏移量后续传
+   */
+  async append(upload: TusUpload, body: ReadableStream<Uint8Array> | null): Promise<number> {
+    let offset = upload.offset
+    if (!body) return offset
+
+    const handle = await fs.open(this.dataPath(upload.id), 'a')
+    try {
+      const reader = body.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        if (offset + value.length > upload.length) {
+          // 超出声明长度的部分丢弃，只写入剩余字节
+          await handle.write(value.subarray(0, upload.length - offset))
+          await reader.cancel()
+          throw new TusError(413, '上传数据超过声明的文件大小')
+        }
+
+        await handle.write(value)
+        offset += value.length
+      }
+
+      return offset
+    } finally {
+      await handle.close()
+    }
+  }
+
+  async readData(id: string): Promise<Buffer> {
+    return fs.readFile(this.dataPath(id))
+  }
+
+  /**
+   * 记录入库结果并删除临时数据，信息文件保留到过期，供客户端查询结果
+   */
+  async complete(upload: TusUpload, result: UploadResult): Promise<void> {
+    const { id, userId, length, metadata, createdAt, expiresAt } = upload
+    await this.writeInfo({ id, userId, length, metadata, createdAt, expiresAt, result })
+    await fs.unlink(this.dataPath(upload.id)).catch(() => {})
+  }
+
+  async remove(id: string): Promise<void> {
+    await Promise.all([
+      fs.unlink(this.dataPath(id)).catch(() => {}),
+      fs.unlink(this.infoPath(id)).catch(() => {}),
+    ])
+  }
+
+  /**
+   * 清理过期的上传
+   */
+  async removeExpired(): Promise<number> {
+    const names = await fs.readdir(this.dir).catch(() => [] as string[])
+    let removed = 0
+
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue
+      const id = name.slice(0, -'.json'.length)
+      const stored: StoredUpload | null = await fs.readFile(this.infoPath(id), 'utf8')
+        .then(JSON.parse)
+        .catch(() => null)
+
+      if (!stored || Date.parse(stored.expiresAt) < Date.now()) {
+        await this.remove(id)
+        removed++
+      }
+    }
+
+    return removed
+  }
+}
+
+const globalForTus = globalThis as unknown as {
+  tusUploadStore: TusUploadStore | undefined
+}
+
+/**
+ * 获取 tus 上传存储（进程内单例）
+ */
+export function getTusStore(): TusUploadStore {
+  if (!globalForTus.tusUploadStore) {
+    globalForTus.tusUploadStore = new TusUploadStore(
+      process.env.TUS_UPLOAD_DIR || path.join(os.tmpdir(), 'pms-uploads'),
+      parseFloat(process.env.TUS_UPLOAD_EXPIRY_HOURS || '') || DEFAULT_EXPIRY_HOURS
+    )
+  }
+  return globalForTus.tusUploadStore
+}
@@ -0,0 +1,210 @@
+/**
+ * Upload pipeline
+ * 普通表单上传和 tus 断点续传共用的入库流程：
+ * 查重 -> 读取尺寸和元数据 -> 写入原图 -> 保存数据库 -> 排队缩略图任务
+ * 缩略图、自动标签、地理编码和 AI 分析都由后台任务完成 (src/lib/jobs)，上传请求不等待
+ */
+
+import { prisma } from '@/lib/prisma'
+import { inspectImage, parseExifData } from '@/lib/image-utils'
+import { sha256Hex } from '@/lib/http-cache'
+import { findNearDuplicates, HashedImage, NearDuplicate } from '@/lib/duplicates'
+import { saveOriginalImage, deleteImageFiles } from '@/lib/storage'
+import { enqueueJob } from '@/lib/jobs'
+import { extractMetadataFields } from '@/lib/metadata'
+import { applyXmpSidecar, SidecarData } from '@/lib/xmp-sidecar'
+
+// 重复图片处理方式：skip（跳过与已有图片完全相同的文件）| flag（照常保存，在结果中标记）
+export type DuplicateMode = 'skip' | 'flag'
+
+export interface UploadedImage {
+  id: string
+  filename: string
+  originalName: string
+  width: number
+  height: number
+  fileSize: number
+  createdAt: Date
+}
+
+export type UploadResult =
+  | {
+      success: true
+      skipped?: false
+      image: UploadedImage
+      duplicateOf?: string
+      nearDuplicates: NearDuplicate[]
+      // 是否导入了 XMP 附属文件
+      sidecar?: boolean
+    }
+  | {
+      success: false
+      skipped?: boolean
+      filename: string
+      duplicateOf?: string
+      error: string
+    }
+
+export interface IngestOptions {
+  userId: string
+  buffer: Buffer
+  originalName: string
+  mimeType: string
+  duplicateMode: DuplicateMode
+  // 用于查重的已有图片哈希，入库成功后会把新图片追加进去，批内重复同样能检测到
+  knownHashes: HashedImage[]
+  // 与图片一起上传的 XMP 附属文件（已解析）
+  sidecar?: SidecarData | null
+}
+
+/**
+ * 解析客户端传入的重复处理方式，默认 skip
+ */
+export function parseDuplicateMode(value: unknown): DuplicateMode {
+  return value === 'flag' ? 'flag' : 'skip'
+}
+
+/**
+ * 读取当前用户已有图片的哈希（不含回收站）
+ */
+export async function loadKnownHashes(userId: string): Promise<HashedImage[]> {
+  return prisma.image.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      contentHash: true,
+      perceptualHash: true,
+    },
+  })
+}
+
+/**
+ * 将一张已完整接收的图片入库
+ * 查重跳过时返回 success: false, skipped: true；处理失败时抛出异常
+ */
+export async function ingestImage(options: IngestOptions): Promise<UploadResult> {
+  const { userId, buffer, originalName, mimeType, duplicateMode, knownHashes, sidecar } = options
+
+  // 完全相同的文件在处理前跳过
+  const contentHash = sha256Hex(buffer)
+  const exactDuplicate = knownHashes.find(known => known.contentHash === contentHash)
+  if (exactDuplicate && duplicateMode === 'skip') {
+    return {
+      success: false,
+      skipped: true,
+      filename: originalName,
+      duplicateOf: exactDuplicate.id,
+      error: '与已有图片完全相同，已跳过',
+    }
+  }
+
+  // 只读取格式、尺寸和 EXIF，缩略图由后台任务生成
+  const processed = await inspectImage(buffer, mimeType)
+
+  // 近似重复（感知哈希相近）只报告，不阻止上传；HEIC / DNG 的感知哈希由缩略图任务计算，上传时无法比较
+  const nearDuplicates = findNearDuplicates(processed.metadata, knownHashes)
+    .filter(match => !match.exact)
+
+  // 解析 EXIF 数据
+  const exifData = parseExifData(processed.exifData)
+  // 完整的 EXIF / IPTC / XMP 元数据
+  const metadataFields = await extractMetadataFields(buffer)
+
+  // 生成文件名
+  const timestamp = Date.now()
+  const randomStr = Math.random().toString(36).substring(2, 8)
+  const filename = `${timestamp}_${randomStr}_${originalName}`
+
+  // 写入存储（仅原图）
+  const storageKeys = await saveOriginalImage(userId, buffer, processed.metadata.mimeType)
+
+  // 保存到数据库（显式字段，确保数据有效性）
+  const image = await prisma.image.create({
+    data: {
+      userId,
+      filename,
+      originalName,
+      mimeType: processed.metadata.mimeType,
+      fileSize: processed.metadata.fileSize,
+      contentHash: processed.metadata.contentHash,
+      perceptualHash: processed.metadata.perceptualHash,
+      blurHash: processed.metadata.blurHash,
+      dominantColor: processed.metadata.dominantColor,
+      isAnimated: processed.metadata.isAnimated,
+      pageCount: processed.metadata.pageCount,
+      duration: processed.metadata.duration,
+      iccProfileName: processed.metadata.iccProfileName,
+      colorSpace: processed.metadata.colorSpace,
+      width: processed.metadata.width,
+      height: processed.metadata.height,
+      aspectRatio: processed.metadata.aspectRatio,
+      ...storageKeys,
+      // EXIF数据（已验证和清理）
+      takenAt: exifData.takenAt,
+      takenAtOffset: exifData.takenAtOffset,
+      cameraModel: exifData.cameraModel,
+      cameraMake: exifData.cameraMake,
+      lensModel: exifData.lensModel,
+      focalLength: exifData.focalLength,
+      aperture: exifData.aperture,
+      shutterSpeed: exifData.shutterSpeed,
+      iso: exifData.iso,
+      latitude: exifData.latitude,
+      longitude: exifData.longitude,
+      altitude: exifData.altitude,
+      gpsTimestamp: exifData.gpsTimestamp,
+      software: exifData.software,
+      orientation: exifData.orientation,
+      ...metadataFields,
+    },
+    select: {
+      id: true,
+      filename: true,
+      originalName: true,
+      width: true,
+      height: true,
+      fileSize: true,
+      createdAt: true,
+    },
+  }).catch(async (dbError) => {
+    // 数据库写入失败时清理已写入存储的文件
+    await deleteImageFiles(storageKeys)
+    throw dbError
+  })
+
+  // 附属文件中的标题、描述、星级和关键词优先于图片内嵌的元数据
+  let sidecarApplied = false
+  if (sidecar) {
+    try {
+      await applyXmpSidecar(image.id, sidecar)
+      sidecarApplied = true
+    } catch (error) {
+      console.error('Error applying XMP sidecar:', error)
+    }
+  }
+
+  // 缩略图任务完成后会继续排队自动标签、地理编码和 AI 分析任务
+  try {
+    await enqueueJob('THUMBNAILS', { imageId: image.id }, { userId })
+  } catch (error) {
+    console.error('Error queueing thumbnail job:', error)
+    // 任务入队失败不影响图片上传，文件接口会临时从原图生成缩略图
+  }
+
+  knownHashes.push({
+    id: image.id,
+    contentHash: processed.metadata.contentHash,
+    perceptualHash: processed.metadata.perceptualHash,
+  })
+
+  return {
+    success: true,
+    image,
+    duplicateOf: exactDuplicate?.id,
+    nearDuplicates,
+    sidecar: sidecarApplied,
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * XMP sidecars
+ * 导入 Lightroom / darktable 写出的 .xmp 附属文件，并为图片生成附属文件，
+ * 在这里修改的标题、描述、星级和标签可以同步回这些工具
+ *
+ * 映射关系：dc:title -> title，dc:description -> description，xmp:Rating -> rating，dc:subject -> CUSTOM 标签
+ */
+
+import { sidecar as parseSidecar } from 'exifr'
+import { prisma } from '@/lib/prisma'
+import { saveAutoTags } from '@/lib/auto-tag'
+import { metadataText, normalizeMetadata, toImageMetadata } from '@/lib/metadata'
+
+export interface SidecarData {
+  title: string | null
+  description: string | null
+  rating: number | null
+  keywords: string[]
+}
+
+export interface SidecarSource {
+  title: string | null
+  description: string | null
+  rating: number | null
+  takenAt: Date | null
+  keywords: string[]
+}
+
+// 与 Image.title 和 Tag.name 的列长度一致
+const MAX_TITLE_LENGTH = 200
+const MAX_TAG_LENGTH = 50
+
+/**
+ * 解析 XMP 附属文件，不是有效的 XMP 时返回 null
+ */
+export async function parseXmpSidecar(data: Buffer): Promise<SidecarData | null> {
+  try {
+    const metadata = toImageMetadata(
+      await parseSidecar(data, { mergeOutput: false }, 'xmp')
+    )
+    if (!metadata) return null
+
+    const normalized = normalizeMetadata(metadata)
+    return {
+      title: metadataText(metadata.dc?.title, MAX_TITLE_LENGTH),
+      description: normalized.caption,
+      rating: normalized.rating,
+      keywords: (normalized.keywords || []).filter(keyword => keyword.length <= MAX_TAG_LENGTH),
+    }
+  } catch (error) {
+    console.warn('XMP sidecar parsing failed:', error)
+    return null
+  }
+}
+
+/**
+ * 将附属文件中的信息写入图片：有值的字段覆盖当前值，关键词追加为 CUSTOM 标签
+ */
+export async function applyXmpSidecar(imageId: string, data: SidecarData): Promise<void> {
+  await prisma.image.update({
+    where: { id: imageId },
+    data: {
+      title: data.title ?? undefined,
+      description: data.description ?? undefined,
+      rating: data.rating ?? undefined,
+    },
+  })
+
+  if (data.keywords.length > 0) {
+    await saveAutoTags(imageId, data.keywords.map(name => ({ name, type: 'CUSTOM' as const })))
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function langAlt(name: string, value: string): string {
+  return [
+    `   <${name}>`,
+    '    <rdf:Alt>',
+    `     <rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li>`,
+    '    </rdf:Alt>',
+    `   </${name}>`,
+  ].join('\n')
+}
+
+function xmpDescription(source: SidecarSource, metadataDate: Date | null): string[] {
+  const attributes: string[] = []
+  if (metadataDate) {
+    attributes.push(`xmp:MetadataDate="${metadataDate.toISOString()}"`)
+  }
+  if (source.rating !== null) {
+    attributes.push(`xmp:Rating="${source.rating}"`)
+  }
+  if (source.takenAt) {
+    attributes.push(`photoshop:DateCreated="${source.takenAt.toISOString()}"`)
+  }
+
+  const elements: string[] = []
+  if (source.title) elements.push(langAlt('dc:title', source.title))
+  if (source.description) elements.push(langAlt('dc:description', source.description))
+  if (source.keywords.length > 0) {
+    elements.push([
+      '   <dc:subject>',
+      '    <rdf:Bag>',
+      ...source.keywords.map(keyword => `     <rdf:li>${escapeXml(keyword)}</rdf:li>`),
+      '    </rdf:Bag>',
+      '   </dc:subject>',
+    ].join('\n'))
+  }
+
+  return [
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+    ...attributes.map(attribute => `    ${attribute}`),
+    elements.length > 0 ? '  >' : '  />',
+    ...(elements.length > 0 ? [...elements, '  </rdf:Description>'] : []),
+  ]
+}
+
+function xmpPacket(description: string[]): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    ...description,
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * 生成 XMP 附属文件内容
+ */
+export function buildXmpSidecar(source: SidecarSource): string {
+  return xmpPacket(xmpDescription(source, new Date()))
+}
+
+// 写入图片时由这里管理的属性，原有的值会被替换
+const MANAGED_PROPERTIES = 'dc:title|dc:description|dc:subject|xmp:Rating|photoshop:DateCreated'
+
+/**
+ * 从 XMP 包中移除属性（元素和属性两种写法），names 为属性名的正则表达式，如 exif:GPS\w+
+ */
+export function removeXmpProperties(packet: string, names: string): string {
+  return packet
+    .replace(new RegExp(`\\s*<(?:${names})\\b[^>]*?/>`, 'g'), '')
+    .replace(new RegExp(`\\s*<(${names})\\b[^>]*>[\\s\\S]*?</\\1>`, 'g'), '')
+    .replace(new RegExp(`\\s(?:${names})=("[^"]*"|'[^']*')`, 'g'), '')
+}
+
+/**
+ * 将标题、描述、星级和关键词写入图片已有的 XMP 包，保留其他属性；没有可合并的 XMP 包时生成新的
+ */
+export function mergeXmpPacket(existing: string | null, source: SidecarSource): string {
+  const description = xmpDescription(source, null)
+  if (!existing || !existing.includes('</rdf:RDF>')) {
+    return xmpPacket(description)
+  }
+
+  return removeXmpProperties(existing, MANAGED_PROPERTIES)
+    .replace('</rdf:RDF>', `${description.join('\n')}\n </rdf:RDF>`)
+}
@@ -16,5 +16,7 @@ export const config = {
     // API 路由保护（除了 /api/auth 和 /api/public）
     '/api/images/:path*',
     '/api/tags/:path*',
+    '/api/user/:path*',
+    '/api/luts/:path*',
   ],
 }
@@ -0,0 +1,22 @@
+// 图片解码库没有自带类型声明
+
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number
+    height: number
+    data: Uint8ClampedArray
+  }
+
+  function decode(options: { buffer: Buffer | ArrayBuffer | Uint8Array }): Promise<DecodedImage>
+
+  export default decode
+}
+
+declare module 'dcraw' {
+  function dcraw(
+    buffer: Buffer | Uint8Array,
+    options: Record<string, boolean | string | number>
+  ): Uint8Array | string | Record<string, Uint8Array> | undefined
+
+  export default dcraw
+}
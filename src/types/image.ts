@@ -11,6 +11,8 @@ export interface Image {
   height: number
   aspectRatio?: number | null
   orientation?: number | null
+  blurHash?: string | null
+  dominantColor?: string | null
 
   // EXIF 信息
   takenAt?: Date | null